@@ -1,38 +1,207 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { MechanismConfig, MechanismState, GrashofType, LimitAnalysis } from './types';
-import { solveFourBar, getGrashofType, calculateLimits } from './services/kinematics';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  MechanismConfig, MechanismState, MechanismClass, SpecialGeometry, LimitAnalysis, DyadLimitAnalysis, MotionState, CircuitAnalysis,
+  ToolId, MotionSynthesisSpec, MotionSynthesisResult, FunctionSynthesisSpec, FunctionSynthesisResult,
+  ViewState, DesignDocument, DesignMessage, ExternalLoad, ForceAnalysis, DynamicState, DesignSpaceSpec,
+  OptimizationSpec, OptimizationResult, QuickReturnSpec, QuickReturnResult, ExportSpec, ToleranceSpec, UnitSettings, LinkConstraints,
+  ConfigHistory, DesignSnapshot, SnapshotComparison
+} from './types';
+import { advanceCrank } from './services/kinematics';
+import { classifyMechanism, calculateMechanismLimits, solveMechanismMotion, findSpecialGeometry } from './services/mechanisms';
+import { solveStaticForces } from './services/forces';
+import { solveDynamics } from './services/dynamics';
+import { createBranchTracker, analyzeCircuits } from './services/branchTracking';
+import { calculateDyadLimits } from './services/sixBar';
+import { synthesizeMotion, synthesizeFunction } from './services/synthesis';
+import { downloadBlob } from './services/download';
+import { DEFAULT_UNITS } from './services/units';
+import { NO_CONSTRAINTS } from './services/constraints';
+import { EMPTY_HISTORY, recordEdit, undoEdit, redoEdit, createSnapshot } from './services/history';
+import { createDesignDocument, serializeDesign, parseDesign, encodeDesignHash, decodeDesignHash } from './services/designIO';
 import ControlPanel from './components/ControlPanel';
 import MechanismCanvas from './components/MechanismCanvas';
 import InfoPanel from './components/InfoPanel';
+import ChartsPanel from './components/ChartsPanel';
+import MotionSynthesisPanel from './components/MotionSynthesisPanel';
+import FunctionSynthesisPanel from './components/FunctionSynthesisPanel';
+import DesignSpacePanel from './components/DesignSpacePanel';
+import OptimizerPanel from './components/OptimizerPanel';
+import QuickReturnPanel from './components/QuickReturnPanel';
+import ExportPanel from './components/ExportPanel';
+import TolerancePanel from './components/TolerancePanel';
+import SnapshotPanel from './components/SnapshotPanel';
 
 const INITIAL_CONFIG: MechanismConfig = {
   r1: 300, // Ground
   r2: 100, // Crank
   r3: 300, // Coupler
   r4: 200, // Rocker
-  assemblyMode: 1 // Default to Open
+  assemblyMode: 1, // Default to Open
+  couplerPoints: [{ along: 150, offset: 80 }]
+};
+
+const INITIAL_VIEW: ViewState = {
+  pan: { x: 100, y: 300 },
+  zoom: 1
+};
+
+// A resisting torque on the output link
+const INITIAL_LOAD: ExternalLoad = {
+  target: 'rocker',
+  couplerPointIndex: 0,
+  force: { x: 0, y: 0 },
+  torque: -1000
+};
+
+// A design link opened in the browser takes precedence over the defaults
+const LINKED_DESIGN = decodeDesignHash(window.location.hash);
+
+const INITIAL_MOTION_SYNTHESIS: MotionSynthesisSpec = {
+  poses: [
+    { position: { x: 120, y: 260 }, angle: 0.2 },
+    { position: { x: 240, y: 300 }, angle: -0.1 },
+    { position: { x: 360, y: 250 }, angle: -0.5 }
+  ],
+  movingA: { x: -80, y: -80 },
+  movingB: { x: 90, y: -70 }
+};
+
+const INITIAL_FUNCTION_SYNTHESIS: FunctionSynthesisSpec = {
+  functionId: 'log10',
+  xStart: 1,
+  xEnd: 10,
+  theta2Start: Math.PI / 2,
+  theta2Range: Math.PI / 2,
+  theta4Start: Math.PI,
+  theta4Range: Math.PI / 2,
+  r1: 300
+};
+
+const INITIAL_DESIGN_SPACE: DesignSpaceSpec = {
+  xLink: 'r2',
+  yLink: 'r3',
+  xRange: [0.1, 1.5],
+  yRange: [0.1, 2],
+  resolution: 40,
+  coloring: 'grashof'
+};
+
+const INITIAL_OPTIMIZATION: OptimizationSpec = {
+  r1: 300,
+  targetSwing: 60,
+  swingTolerance: 0.5,
+  ratioMin: 0.1,
+  ratioMax: 3,
+  populationSize: 24,
+  generations: 200,
+  seed: 1
+};
+
+const INITIAL_QUICK_RETURN: QuickReturnSpec = {
+  timeRatio: 1.2,
+  swing: 45,
+  r4: 150
+};
+
+const INITIAL_TOLERANCE: ToleranceSpec = {
+  linkTolerance: 0.05,
+  pivotTolerance: 0.05,
+  distribution: 'normal',
+  samples: 1000,
+  seed: 1,
+  minTransmission: 40
+};
+
+const INITIAL_EXPORT: ExportSpec = {
+  width: 800,
+  height: 600,
+  fps: 30,
+  frames: 90,
+  showCouplerCurves: true,
+  showLimitGhosts: false
 };
 
 const App: React.FC = () => {
-  const [config, setConfig] = useState<MechanismConfig>(INITIAL_CONFIG);
-  const [theta2, setTheta2] = useState<number>(1.57); // Start at 90 deg approx
+  const linked = LINKED_DESIGN?.document;
+  const [config, setConfig] = useState<MechanismConfig>(linked?.config ?? INITIAL_CONFIG);
+  const [theta2, setTheta2] = useState<number>(linked?.theta2 ?? 1.57); // Start at 90 deg approx
   const [isPlaying, setIsPlaying] = useState(false);
-  const [speed, setSpeed] = useState(1.0);
+  const [speed, setSpeed] = useState(linked?.speed ?? 1.0);
+  const [view, setView] = useState<ViewState>(linked?.view ?? INITIAL_VIEW);
+  const [units, setUnits] = useState<UnitSettings>(linked?.units ?? DEFAULT_UNITS);
+  const [linkConstraints, setLinkConstraints] = useState<LinkConstraints>(NO_CONSTRAINTS);
+  const [history, setHistory] = useState<ConfigHistory>(EMPTY_HISTORY);
+  const [snapshots, setSnapshots] = useState<DesignSnapshot[]>([]);
+  const [designMessage, setDesignMessage] = useState<DesignMessage | null>(
+    LINKED_DESIGN && !LINKED_DESIGN.isValid ? { kind: 'error', lines: ['Could not open the design link:', ...LINKED_DESIGN.errors] } : null
+  );
+  const [alpha2, setAlpha2] = useState(0); // Crank angular acceleration used for analysis (rad/s^2)
+  const [load, setLoad] = useState<ExternalLoad>(INITIAL_LOAD);
+  const [showCharts, setShowCharts] = useState(false);
+  const [showInstantCenters, setShowInstantCenters] = useState(false);
+  const [showCentrodes, setShowCentrodes] = useState(false);
+  const [showEnvelope, setShowEnvelope] = useState(false);
+  const [activeTool, setActiveTool] = useState<ToolId | null>(null);
+  const [motionSynthesis, setMotionSynthesis] = useState<MotionSynthesisSpec>(INITIAL_MOTION_SYNTHESIS);
+  const [functionSynthesis, setFunctionSynthesis] = useState<FunctionSynthesisSpec>(INITIAL_FUNCTION_SYNTHESIS);
+  const [designSpace, setDesignSpace] = useState<DesignSpaceSpec>(INITIAL_DESIGN_SPACE);
+  const [optimization, setOptimization] = useState<OptimizationSpec>(INITIAL_OPTIMIZATION);
+  const [quickReturn, setQuickReturn] = useState<QuickReturnSpec>(INITIAL_QUICK_RETURN);
+  const [tolerance, setTolerance] = useState<ToleranceSpec>(INITIAL_TOLERANCE);
+  const [exportSpec, setExportSpec] = useState<ExportSpec>(INITIAL_EXPORT);
   
   const requestRef = useRef<number>();
   const lastTimeRef = useRef<number>();
+  const directionRef = useRef<1 | -1>(1); // Crank direction while rocking between crank limits
+  const trackerRef = useRef(createBranchTracker());
 
   // Derived State
-  const mechanismState: MechanismState = solveFourBar(config, theta2);
-  const grashofType: GrashofType = getGrashofType(config);
-  const limits: LimitAnalysis = calculateLimits(config);
+  // The tracker follows the branch the linkage is actually on rather than the static assembly mode
+  const tracked = useMemo(() => trackerRef.current.solve(config, theta2), [config, theta2]);
+  const mechanismState: MechanismState = tracked.state;
+  const mechanismClass: MechanismClass = classifyMechanism(config);
+  const specialGeometry: SpecialGeometry | null = findSpecialGeometry(config, mechanismState);
+  const limits: LimitAnalysis = calculateMechanismLimits(config);
+  const circuits: CircuitAnalysis = analyzeCircuits(config, limits);
+  // The second loop's limits are sampled, so only recompute them when the geometry changes
+  const dyadLimits: DyadLimitAnalysis | null = useMemo(() => calculateDyadLimits(config, limits), [config]);
+  const motionSynthesisResult: MotionSynthesisResult = useMemo(
+    () => synthesizeMotion(motionSynthesis.poses, motionSynthesis.movingA, motionSynthesis.movingB),
+    [motionSynthesis]
+  );
+  const functionSynthesisResult: FunctionSynthesisResult = useMemo(
+    () => synthesizeFunction(functionSynthesis),
+    [functionSynthesis]
+  );
+  // The animation turns the crank at `speed` rad/s, so that is the crank angular velocity
+  const motion: MotionState = solveMechanismMotion(config, mechanismState, speed, alpha2);
+  const forces: ForceAnalysis = solveStaticForces(config, mechanismState, load);
+  const dynamics: DynamicState = solveDynamics(config, mechanismState, speed, 0, load);
+  const comparedSnapshots = snapshots.filter(s => s.compare);
+  const comparisons: SnapshotComparison[] = useMemo(
+    () => comparedSnapshots.map(snapshot => ({
+      snapshot,
+      mechanismClass: classifyMechanism(snapshot.config),
+      limits: calculateMechanismLimits(snapshot.config)
+    })),
+    [snapshots]
+  );
+
+  // The animation loop outlives individual renders, so it reads the latest values through refs
+  const theta2Ref = useRef(theta2);
+  const limitsRef = useRef(limits);
+  theta2Ref.current = theta2;
+  limitsRef.current = limits;
 
   // Animation Loop
   const animate = (time: number) => {
     if (lastTimeRef.current !== undefined) {
       const deltaTime = (time - lastTimeRef.current) / 1000;
-      // Rotate 1 radian per second * speed
-      setTheta2(prev => (prev + deltaTime * speed) % (2 * Math.PI));
+      // Rotate 1 radian per second * speed, rocking between the crank limits if there are any
+      const next = advanceCrank(theta2Ref.current, deltaTime * speed, directionRef.current, limitsRef.current);
+      directionRef.current = next.direction;
+      theta2Ref.current = next.theta2;
+      setTheta2(next.theta2);
     }
     lastTimeRef.current = time;
     requestRef.current = requestAnimationFrame(animate);
@@ -50,39 +219,341 @@ const App: React.FC = () => {
     };
   }, [isPlaying, speed]);
 
-  const handleConfigChange = (newConfig: MechanismConfig) => {
+  // Mirror the design into the URL so the address bar is always a shareable link.
+  // Skipped while animating to avoid rewriting history every frame.
+  useEffect(() => {
+    if (isPlaying) return;
+    const handle = window.setTimeout(() => {
+      window.history.replaceState(null, '', encodeDesignHash(createDesignDocument(config, theta2, speed, view, units)));
+    }, 300);
+    return () => window.clearTimeout(handle);
+  }, [config, theta2, speed, view, units, isPlaying]);
+
+  /**
+   * Sets the config as an undoable edit. Continuous edits (drags) in quick succession undo together.
+   */
+  const commitConfig = (newConfig: MechanismConfig, continuous = false) => {
+    setHistory(recordEdit(history, config, continuous, Date.now()));
     setConfig(newConfig);
   };
 
+  const handleUndo = () => {
+    const step = undoEdit(history, config);
+    if (!step) return;
+    trackerRef.current.reset();
+    setHistory(step.history);
+    setConfig(step.config);
+  };
+
+  const handleRedo = () => {
+    const step = redoEdit(history, config);
+    if (!step) return;
+    trackerRef.current.reset();
+    setHistory(step.history);
+    setConfig(step.config);
+  };
+
+  // The shortcut listener is registered once and reaches the current handlers through refs
+  const undoRef = useRef(handleUndo);
+  const redoRef = useRef(handleRedo);
+  undoRef.current = handleUndo;
+  redoRef.current = handleRedo;
+
+  // Ctrl/Cmd+Z undoes and Ctrl/Cmd+Shift+Z or Ctrl+Y redoes, except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undoRef.current();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redoRef.current();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const applyDesign = (doc: DesignDocument) => {
+    trackerRef.current.reset();
+    setIsPlaying(false);
+    commitConfig(doc.config);
+    setTheta2(doc.theta2);
+    setSpeed(doc.speed);
+    setView(doc.view);
+    setUnits(doc.units ?? DEFAULT_UNITS);
+    // Locks and held relations belong to the design being edited
+    setLinkConstraints(NO_CONSTRAINTS);
+  };
+
+  const handleSaveDesign = () => {
+    const json = serializeDesign(createDesignDocument(config, theta2, speed, view, units));
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'linkage-design.json');
+  };
+
+  const handleLoadDesign = async (file: File) => {
+    const result = parseDesign(await file.text());
+    if (result.isValid && result.document) {
+      applyDesign(result.document);
+      setDesignMessage({ kind: 'info', lines: [`Loaded ${file.name}`] });
+    } else {
+      setDesignMessage({ kind: 'error', lines: [`Could not load ${file.name}:`, ...result.errors] });
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const hash = encodeDesignHash(createDesignDocument(config, theta2, speed, view, units));
+    const url = `${window.location.origin}${window.location.pathname}${hash}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setDesignMessage({ kind: 'info', lines: ['Link copied to clipboard'] });
+    } catch {
+      setDesignMessage({ kind: 'error', lines: ['Clipboard unavailable; copy the link from the address bar'] });
+    }
+  };
+
+  const handleConfigChange = (newConfig: MechanismConfig, continuous = false) => {
+    // Choosing an assembly mode or mechanism type explicitly restarts tracking on that branch
+    if (newConfig.assemblyMode !== config.assemblyMode || newConfig.type !== config.type) trackerRef.current.reset();
+    commitConfig(newConfig, continuous);
+  };
+
+  const handleApplyMotionSynthesis = (result: MotionSynthesisResult) => {
+    if (!result.config) return;
+    trackerRef.current.reset();
+    commitConfig(result.config);
+    setTheta2(result.theta2[0]);
+    setIsPlaying(false);
+  };
+
+  const handleApplyFunctionSynthesis = (result: FunctionSynthesisResult) => {
+    if (!result.config) return;
+    trackerRef.current.reset();
+    // Keep the user's coupler points and ground placement; only the link lengths and branch
+    // come from the synthesis, whose angles are measured from the ground line
+    commitConfig({
+      ...result.config,
+      couplerPoints: config.couplerPoints,
+      O2: config.O2,
+      groundAngle: config.groundAngle
+    });
+    setTheta2(result.theta2Start + (config.groundAngle ?? 0));
+    setIsPlaying(false);
+  };
+
+  const handleApplyDesignSpace = (newConfig: MechanismConfig) => {
+    trackerRef.current.reset();
+    commitConfig(newConfig);
+    setIsPlaying(false);
+  };
+
+  const handleApplyOptimization = (result: OptimizationResult) => {
+    if (!result.config) return;
+    trackerRef.current.reset();
+    // Link lengths come from the optimizer; placement, branch and coupler points stay the user's
+    commitConfig({
+      ...config,
+      type: 'four-bar',
+      r1: result.config.r1,
+      r2: result.config.r2,
+      r3: result.config.r3,
+      r4: result.config.r4,
+      massProperties: undefined
+    });
+    setIsPlaying(false);
+  };
+
+  const handleApplyQuickReturn = (result: QuickReturnResult) => {
+    if (!result.config) return;
+    trackerRef.current.reset();
+    // Q and the swing don't depend on placement, so the user's pivot and ground angle are kept
+    commitConfig({
+      ...result.config,
+      couplerPoints: config.couplerPoints,
+      O2: config.O2,
+      groundAngle: config.groundAngle
+    });
+    setIsPlaying(false);
+  };
+
+  const handleTheta2Drag = (val: number) => {
+    setTheta2(val);
+    setIsPlaying(false); // Stop animation if user drags
+  };
+
   return (
     <div className="flex flex-col md:flex-row h-screen w-screen bg-gray-50 overflow-hidden">
       {/* Sidebar Controls */}
       <ControlPanel 
         config={config} 
+        state={mechanismState}
         onChange={handleConfigChange}
+        units={units}
+        onUnitsChange={setUnits}
+        linkConstraints={linkConstraints}
+        onLinkConstraintsChange={setLinkConstraints}
+        canUndo={history.past.length > 0}
+        canRedo={history.future.length > 0}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
         isPlaying={isPlaying}
         onTogglePlay={() => setIsPlaying(!isPlaying)}
         speed={speed}
         onSpeedChange={setSpeed}
+        alpha2={alpha2}
+        onAlpha2Change={setAlpha2}
+        showCharts={showCharts}
+        onToggleCharts={() => setShowCharts(!showCharts)}
+        showInstantCenters={showInstantCenters}
+        onToggleInstantCenters={() => setShowInstantCenters(!showInstantCenters)}
+        showCentrodes={showCentrodes}
+        onToggleCentrodes={() => setShowCentrodes(!showCentrodes)}
+        showEnvelope={showEnvelope}
+        onToggleEnvelope={() => setShowEnvelope(!showEnvelope)}
+        load={load}
+        onLoadChange={setLoad}
+        activeTool={activeTool}
+        onToolChange={setActiveTool}
+        onSaveDesign={handleSaveDesign}
+        onLoadDesign={handleLoadDesign}
+        onCopyLink={handleCopyLink}
+        designMessage={designMessage}
       />
 
       {/* Main Content */}
-      <div className="flex-1 relative flex flex-col">
-        <MechanismCanvas 
-            config={config} 
-            state={mechanismState} 
-            limits={limits}
-            onTheta2Change={(val) => {
-                setTheta2(val);
-                setIsPlaying(false); // Stop animation if user drags
-            }} 
-        />
-        
-        <InfoPanel 
-            state={mechanismState} 
-            grashofType={grashofType} 
-            limits={limits}
-        />
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="flex-1 relative flex flex-col min-h-0">
+          <MechanismCanvas 
+              config={config} 
+              state={mechanismState} 
+              limits={limits}
+              dyadLimits={dyadLimits}
+              motion={motion}
+              onTheta2Change={handleTheta2Drag} 
+              onConfigChange={handleConfigChange}
+              view={view}
+              onViewChange={setView}
+              units={units}
+              linkConstraints={linkConstraints}
+              load={load}
+              showInstantCenters={showInstantCenters}
+              showCentrodes={showCentrodes}
+              showEnvelope={showEnvelope}
+              snapshots={comparedSnapshots}
+              synthesis={activeTool === 'motion-synthesis' ? { spec: motionSynthesis, result: motionSynthesisResult } : undefined}
+              onSynthesisChange={setMotionSynthesis}
+          />
+
+          {/* Design Tools */}
+          {activeTool && (
+            <div className="absolute top-4 right-6 w-80 max-h-[55%] overflow-y-auto custom-scrollbar z-30">
+              {activeTool === 'motion-synthesis' && (
+                <MotionSynthesisPanel
+                    spec={motionSynthesis}
+                    result={motionSynthesisResult}
+                    onChange={setMotionSynthesis}
+                    onApply={handleApplyMotionSynthesis}
+                    onClose={() => setActiveTool(null)}
+                />
+              )}
+              {activeTool === 'function-synthesis' && (
+                <FunctionSynthesisPanel
+                    spec={functionSynthesis}
+                    result={functionSynthesisResult}
+                    onChange={setFunctionSynthesis}
+                    onApply={handleApplyFunctionSynthesis}
+                    onClose={() => setActiveTool(null)}
+                />
+              )}
+              {activeTool === 'design-space' && (
+                <DesignSpacePanel
+                    config={config}
+                    spec={designSpace}
+                    onChange={setDesignSpace}
+                    onApply={handleApplyDesignSpace}
+                    onClose={() => setActiveTool(null)}
+                />
+              )}
+              {activeTool === 'optimizer' && (
+                <OptimizerPanel
+                    spec={optimization}
+                    onChange={setOptimization}
+                    onApply={handleApplyOptimization}
+                    onClose={() => setActiveTool(null)}
+                />
+              )}
+              {activeTool === 'quick-return' && (
+                <QuickReturnPanel
+                    spec={quickReturn}
+                    onChange={setQuickReturn}
+                    onApply={handleApplyQuickReturn}
+                    onClose={() => setActiveTool(null)}
+                />
+              )}
+              {activeTool === 'tolerance' && (
+                <TolerancePanel
+                    config={config}
+                    units={units}
+                    spec={tolerance}
+                    onChange={setTolerance}
+                    onClose={() => setActiveTool(null)}
+                />
+              )}
+              {activeTool === 'snapshots' && (
+                <SnapshotPanel
+                    snapshots={snapshots}
+                    units={units}
+                    onPin={(name) => setSnapshots([...snapshots, createSnapshot(snapshots, name, config)])}
+                    onChange={setSnapshots}
+                    onRestore={(snapshot) => {
+                      trackerRef.current.reset();
+                      commitConfig(snapshot.config);
+                    }}
+                    onClose={() => setActiveTool(null)}
+                />
+              )}
+              {activeTool === 'export' && (
+                <ExportPanel
+                    config={config}
+                    state={mechanismState}
+                    limits={limits}
+                    theta2={theta2}
+                    spec={exportSpec}
+                    onChange={setExportSpec}
+                    onClose={() => setActiveTool(null)}
+                />
+              )}
+            </div>
+          )}
+          
+          <InfoPanel 
+              state={mechanismState} 
+              mechanismClass={mechanismClass}
+              specialGeometry={specialGeometry}
+              config={config}
+              units={units}
+              dyadLimits={dyadLimits}
+              limits={limits}
+              motion={motion}
+              circuits={circuits}
+              tracking={tracked}
+              forces={forces}
+              dynamics={dynamics}
+              comparisons={comparisons}
+          />
+        </div>
+
+        {showCharts && (
+          <ChartsPanel
+              config={config}
+              state={mechanismState}
+              units={units}
+              load={load}
+              omega2={speed}
+              onTheta2Change={handleTheta2Drag}
+              onClose={() => setShowCharts(false)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,93 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import {
+  detectFormat, parseDesignList, analyzeDesign, formatReportsJson, formatReportsCsv, formatSweepCsv
+} from '../services/batch';
+
+const USAGE = `Usage: npm run analyze -- <designs.json|designs.csv> [options]
+
+Options:
+  --out <file>       Write results to a file instead of stdout
+  --format json|csv  Output format (defaults to the --out extension, else json)
+  --samples <n>      Crank angles in the full-cycle sweep (default 360)
+  --sweep            Include every sweep sample (JSON) or write one row per sample (CSV)
+  --help             Show this message
+
+Exits with 1 on a usage or input error, and 2 when the results list any invalid design.`;
+
+const fail = (message: string): never => {
+  console.error(`Error: ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const main = async () => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        out: { type: 'string' },
+        format: { type: 'string' },
+        samples: { type: 'string', default: '360' },
+        sweep: { type: 'boolean', default: false },
+        help: { type: 'boolean', default: false }
+      }
+    });
+  } catch (e) {
+    return fail((e as Error).message);
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) return fail('Expected exactly one input file');
+
+  const inputPath = positionals[0];
+  const inputFormat = detectFormat(inputPath);
+  if (!inputFormat) return fail(`Cannot tell the format of ${inputPath}; use a .json or .csv file`);
+
+  // An unrecognised --out extension falls back to JSON; an unrecognised --format is an error
+  const outputFormat = values.format
+    ? detectFormat('', values.format)
+    : (values.out && detectFormat(values.out)) || 'json';
+  if (!outputFormat) return fail(`Unknown output format "${values.format}"`);
+
+  const samples = Number(values.samples);
+  if (!Number.isInteger(samples) || samples < 4) return fail('--samples must be an integer of at least 4');
+
+  let text: string;
+  try {
+    text = await readFile(inputPath, 'utf8');
+  } catch (e) {
+    return fail(`Cannot read ${inputPath}: ${(e as Error).message}`);
+  }
+
+  let inputs;
+  try {
+    inputs = parseDesignList(text, inputFormat);
+  } catch (e) {
+    return fail(`${inputPath}: ${(e as Error).message}`);
+  }
+
+  const reports = inputs.map(input => analyzeDesign(input, samples, values.sweep));
+
+  let output: string;
+  if (outputFormat === 'json') output = formatReportsJson(reports);
+  else output = values.sweep ? formatSweepCsv(reports) : formatReportsCsv(reports);
+
+  if (values.out) {
+    await writeFile(values.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  // Bad designs are reported in the output; summarise them on stderr so scripts notice
+  const invalid = reports.filter(r => !r.isValid);
+  invalid.forEach(r => console.error(`${r.name}: ${r.errors.join('; ')}`));
+  console.error(`Analyzed ${reports.length} design${reports.length === 1 ? '' : 's'}${invalid.length ? `, ${invalid.length} invalid` : ''}`);
+  if (invalid.length > 0) process.exitCode = 2;
+};
+
+main();
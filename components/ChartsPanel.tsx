@@ -0,0 +1,241 @@
+import React, { useMemo } from 'react';
+import {
+  MechanismConfig, MechanismState, CycleSample, Point, ExternalLoad, ForceAnalysis, DynamicsCycle, UnitSettings
+} from '../types';
+import { sweepCycle, unwrapToWindow } from '../services/cycle';
+import { toDegrees, toRadians, normalizeAngle, getMechanismType } from '../services/kinematics';
+import { getMechanism, solveMechanismMotion } from '../services/mechanisms';
+import { solveStaticForces } from '../services/forces';
+import { analyzeDynamicsCycle } from '../services/dynamics';
+import { LENGTH_UNITS, toDisplayLength } from '../services/units';
+import LineChart, { ChartSeries } from './LineChart';
+
+interface ChartsPanelProps {
+  config: MechanismConfig;
+  state: MechanismState; // Live configuration the cursor follows
+  units: UnitSettings;
+  load: ExternalLoad;
+  omega2: number; // Constant crank speed for the inverse dynamics plots
+  onTheta2Change: (theta2: number) => void;
+  onClose: () => void;
+}
+
+const SAMPLES = 360;
+// Velocity ratios blow up near toggle positions; keep the plot readable
+const RATIO_LIMIT = 5;
+
+/**
+ * Splits the sweep wherever consecutive samples are further apart than one step
+ */
+const splitRuns = (samples: CycleSample[]): CycleSample[][] => {
+  const maxGap = (1.5 * 2 * Math.PI) / SAMPLES;
+  const runs: CycleSample[][] = [];
+  samples.forEach((s, i) => {
+    if (i === 0 || s.theta2 - samples[i - 1].theta2 > maxGap) runs.push([]);
+    runs[runs.length - 1].push(s);
+  });
+  return runs;
+};
+
+/**
+ * Builds plot segments from samples whose value may be undefined (e.g. at dead points),
+ * breaking the line at undefined values and at gaps in the sweep
+ */
+const buildOptionalSegments = <T extends { theta2: number }>(items: T[], value: (item: T) => number | null): Point[][] => {
+  const maxGap = (1.5 * 2 * Math.PI) / SAMPLES;
+  const segments: Point[][] = [];
+  let open = false;
+  items.forEach((item, i) => {
+    const y = value(item);
+    if (y === null) {
+      open = false;
+      return;
+    }
+    if (!open || item.theta2 - items[i - 1].theta2 > maxGap) segments.push([]);
+    segments[segments.length - 1].push({ x: toDegrees(item.theta2), y });
+    open = true;
+  });
+  return segments;
+};
+
+/**
+ * Component of a slider's velocity along its slide, which runs along theta4
+ */
+const alongSlide = (state: MechanismState, v: Point) => v.x * Math.cos(state.theta4) + v.y * Math.sin(state.theta4);
+
+/**
+ * Builds a plot segment per run, unwrapping angle values so they don't jump at +/-180
+ */
+const buildSegments = (runs: CycleSample[][], value: (s: CycleSample) => number, isAngle: boolean): Point[][] =>
+  runs.map(run => {
+    let offset = 0;
+    let prev: number | null = null;
+    return run.map(s => {
+      let y = value(s);
+      if (isAngle) {
+        if (prev !== null) {
+          const raw = y + offset;
+          if (raw - prev > 180) offset -= 360;
+          else if (raw - prev < -180) offset += 360;
+        }
+        y += offset;
+        prev = y;
+      }
+      return { x: toDegrees(s.theta2), y };
+    });
+  });
+
+const ChartsPanel: React.FC<ChartsPanelProps> = ({ config, state: current, units, load, omega2, onTheta2Change, onClose }) => {
+  const samples = useMemo(() => sweepCycle(config, SAMPLES), [config]);
+  const runs = useMemo(() => splitRuns(samples), [samples]);
+  const torqueSamples: { theta2: number; forces: ForceAnalysis }[] = useMemo(
+    () => samples.map(s => ({ theta2: s.theta2, forces: solveStaticForces(config, s.state, load) })),
+    [config, samples, load]
+  );
+  const dynamicsCycle: DynamicsCycle = useMemo(() => analyzeDynamicsCycle(config, omega2, load, SAMPLES), [config, omega2, load]);
+
+  if (samples.length === 0) {
+    return (
+      <div className="h-16 bg-gray-50 border-t border-gray-200 flex items-center justify-center text-xs text-gray-400 italic">
+        The linkage cannot be assembled at any crank angle.
+      </div>
+    );
+  }
+
+  const start = samples[0].theta2;
+  const xDomain: [number, number] = [toDegrees(start), toDegrees(samples[samples.length - 1].theta2)];
+  const cursorX = toDegrees(unwrapToWindow(current.theta2, start));
+
+  // Values at the live crank angle for the legends
+  const currentMotion = solveMechanismMotion(config, current, 1, 0);
+  const currentOf = (v: number) => (current.isValid ? v : undefined);
+  const ratioOf = (v: number) => (currentMotion.isValid ? v : undefined);
+  // A slider translates, so its position and speed replace θ4 and ω4; only four-bars have force analysis
+  const isSlide = getMechanism(config).output === 'slide';
+  const length = (mm: number) => toDisplayLength(mm, units.length);
+  const lengthUnit = LENGTH_UNITS[units.length].label;
+  const hasForces = getMechanismType(config) === 'four-bar';
+
+  const angleSeries: ChartSeries[] = [
+    ...(isSlide ? [] : [{
+      label: 'θ4', color: '#3b82f6',
+      segments: buildSegments(runs, s => toDegrees(s.state.theta4), true),
+      current: currentOf(toDegrees(current.theta4))
+    }]),
+    {
+      label: 'θ3', color: '#22c55e',
+      segments: buildSegments(runs, s => toDegrees(s.state.theta3), true),
+      current: currentOf(toDegrees(current.theta3))
+    }
+  ];
+  const transmissionSeries: ChartSeries[] = [
+    {
+      label: 'μ', color: '#f59e0b',
+      segments: buildSegments(runs, s => toDegrees(s.state.transmissionAngle), false),
+      current: currentOf(toDegrees(current.transmissionAngle))
+    }
+  ];
+  const ratioRuns = runs.map(run => run.filter(s => s.motion.isValid));
+  const sliderSeries: ChartSeries[] = [
+    {
+      label: 's', color: '#3b82f6',
+      segments: buildSegments(runs, s => length(s.state.sliderPosition ?? 0), false),
+      current: currentOf(length(current.sliderPosition ?? 0))
+    }
+  ];
+  const sliderVelocitySeries: ChartSeries[] = [
+    {
+      label: 'v/ω2', color: '#3b82f6',
+      segments: buildSegments(ratioRuns, s => length(alongSlide(s.state, s.motion.vB)), false),
+      current: ratioOf(length(alongSlide(current, currentMotion.vB)))
+    }
+  ];
+  const ratioSeries: ChartSeries[] = [
+    ...(isSlide ? [] : [{
+      label: 'ω4/ω2', color: '#3b82f6',
+      segments: buildSegments(ratioRuns, s => s.motion.omega4, false),
+      current: ratioOf(currentMotion.omega4)
+    }]),
+    {
+      label: 'ω3/ω2', color: '#22c55e',
+      segments: buildSegments(ratioRuns, s => s.motion.omega3, false),
+      current: ratioOf(currentMotion.omega3)
+    }
+  ];
+
+  const currentForces = solveStaticForces(config, current, load);
+  const torqueSeries: ChartSeries[] = [
+    {
+      label: 'T2', color: '#0f172a',
+      segments: buildOptionalSegments(torqueSamples, s => (s.forces.isValid ? s.forces.inputTorque : null)),
+      current: currentForces.isValid ? currentForces.inputTorque : undefined
+    },
+    {
+      label: 'T2 dynamic', color: '#dc2626',
+      segments: buildOptionalSegments(dynamicsCycle.samples, s => (s.dynamics.isValid ? s.dynamics.drivingTorque : null))
+    }
+  ];
+  const shakingForceSeries: ChartSeries[] = [
+    {
+      label: '|Fs|', color: '#0f172a',
+      segments: buildOptionalSegments(dynamicsCycle.samples, s => (s.dynamics.isValid ? Math.hypot(s.dynamics.shakingForce.x, s.dynamics.shakingForce.y) : null))
+    },
+    {
+      label: 'Fsx', color: '#3b82f6',
+      segments: buildOptionalSegments(dynamicsCycle.samples, s => (s.dynamics.isValid ? s.dynamics.shakingForce.x : null))
+    },
+    {
+      label: 'Fsy', color: '#22c55e',
+      segments: buildOptionalSegments(dynamicsCycle.samples, s => (s.dynamics.isValid ? s.dynamics.shakingForce.y : null))
+    }
+  ];
+  const shakingMomentSeries: ChartSeries[] = [
+    {
+      label: 'Ms', color: '#8b5cf6',
+      segments: buildOptionalSegments(dynamicsCycle.samples, s => (s.dynamics.isValid ? s.dynamics.shakingMoment : null))
+    }
+  ];
+
+  let ratioMin = Infinity;
+  let ratioMax = -Infinity;
+  ratioSeries.forEach(s => s.segments.forEach(seg => seg.forEach(p => {
+    ratioMin = Math.min(ratioMin, p.y);
+    ratioMax = Math.max(ratioMax, p.y);
+  })));
+  const ratioDomain: [number, number] = [Math.max(-RATIO_LIMIT, ratioMin), Math.min(RATIO_LIMIT, ratioMax)];
+
+  const handleSelect = (xDeg: number) => onTheta2Change(normalizeAngle(toRadians(xDeg)));
+
+  return (
+    <div className="bg-gray-50 border-t border-gray-200 p-3 max-h-72 overflow-y-auto custom-scrollbar">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-xs font-bold text-gray-400 uppercase">
+          Cycle Plots vs θ2 {runs.length > 1 || xDomain[1] - xDomain[0] < 359 ? '(valid range only)' : ''}
+        </h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-700">Close</button>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-3">
+        {isSlide && <LineChart title="Slider Position" series={sliderSeries} xDomain={xDomain} cursorX={cursorX} unit={` ${lengthUnit}`} onSelectX={handleSelect} />}
+        {isSlide && <LineChart title="Slider Velocity" series={sliderVelocitySeries} xDomain={xDomain} cursorX={cursorX} unit={` ${lengthUnit}/rad`} onSelectX={handleSelect} />}
+        <LineChart title="Angles" series={angleSeries} xDomain={xDomain} cursorX={cursorX} unit="°" onSelectX={handleSelect} />
+        <LineChart title="Transmission" series={transmissionSeries} xDomain={xDomain} cursorX={cursorX} unit="°" onSelectX={handleSelect} />
+        <LineChart title="Velocity Ratios" series={ratioSeries} xDomain={xDomain} yDomain={ratioDomain} cursorX={cursorX} onSelectX={handleSelect} />
+        {hasForces && (
+          <>
+            <LineChart title="Input Torque" series={torqueSeries} xDomain={xDomain} cursorX={cursorX} unit=" N·mm" onSelectX={handleSelect} />
+            <LineChart title="Shaking Force" series={shakingForceSeries} xDomain={xDomain} cursorX={cursorX} unit=" N" onSelectX={handleSelect} />
+            <LineChart title="Shaking Moment" series={shakingMomentSeries} xDomain={xDomain} cursorX={cursorX} unit=" N·mm" onSelectX={handleSelect} />
+          </>
+        )}
+      </div>
+      {hasForces && (
+        <div className="mt-2 text-xs text-gray-500 font-mono">
+          At ω2 = {omega2.toFixed(1)} rad/s: peak T2 {dynamicsCycle.peakTorque.toFixed(1)} N·mm · RMS T2 {dynamicsCycle.rmsTorque.toFixed(1)} N·mm
+          · peak |Fs| {dynamicsCycle.peakShakingForce.toFixed(2)} N · peak |Ms| {dynamicsCycle.peakShakingMoment.toFixed(1)} N·mm
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartsPanel;
@@ -1,13 +1,83 @@
-import React from 'react';
-import { MechanismConfig } from '../types';
+import React, { useRef, useState } from 'react';
+import {
+  MechanismConfig, MechanismState, MechanismType, CouplerPoint, DyadConfig, DyadAttachment, ToolId, DesignMessage, ExternalLoad, LoadTarget, MassProperties, LinkMassProperties,
+  UnitSettings, LengthUnit, LinkConstraints, LinkKey, Tolerances
+} from '../types';
+import { COUPLER_POINT_COLORS } from '../services/svgRenderer';
+import NumberField from './NumberField';
+import { getGroundPivots, getMechanismType, getTolerances, toDegrees, toRadians } from '../services/kinematics';
+import { getMassProperties } from '../services/dynamics';
+import { MECHANISMS, MECHANISM_TYPES, getMechanism, convertMechanism, classifyMechanism } from '../services/mechanisms';
+import { createDefaultDyad } from '../services/sixBar';
+import { LENGTH_UNITS, UNIT_SCALES, toDisplayLength, fromDisplayLength, formatLength, lengthStep } from '../services/units';
+import { LINK_KEYS, applyLinkEdit, applyRatioValue, assemblyWarning, grashofMargin } from '../services/constraints';
 
 interface ControlPanelProps {
   config: MechanismConfig;
-  onChange: (newConfig: MechanismConfig) => void;
+  state: MechanismState; // Current position, where a newly added dyad is made to close
+  onChange: (newConfig: MechanismConfig, continuous?: boolean) => void; // Slider drags are continuous edits
+  units: UnitSettings;
+  onUnitsChange: (units: UnitSettings) => void;
+  linkConstraints: LinkConstraints;
+  onLinkConstraintsChange: (constraints: LinkConstraints) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
   isPlaying: boolean;
   onTogglePlay: () => void;
   speed: number;
   onSpeedChange: (speed: number) => void;
+  alpha2: number;
+  onAlpha2Change: (alpha2: number) => void;
+  showCharts: boolean;
+  onToggleCharts: () => void;
+  showInstantCenters: boolean;
+  onToggleInstantCenters: () => void;
+  showCentrodes: boolean;
+  onToggleCentrodes: () => void;
+  showEnvelope: boolean;
+  onToggleEnvelope: () => void;
+  load: ExternalLoad;
+  onLoadChange: (load: ExternalLoad) => void;
+  activeTool: ToolId | null;
+  onToolChange: (tool: ToolId | null) => void;
+  onSaveDesign: () => void;
+  onLoadDesign: (file: File) => void;
+  onCopyLink: () => void;
+  designMessage: DesignMessage | null;
+}
+
+const MASS_LINKS: { key: keyof MassProperties; label: string; color: string }[] = [
+  { key: 'crank', label: 'Crank (from O₂)', color: '#ef4444' },
+  { key: 'coupler', label: 'Coupler (from A)', color: '#22c55e' },
+  { key: 'rocker', label: 'Rocker (from O₄)', color: '#3b82f6' }
+];
+
+// Slider ranges and colors per link; the label comes from the mechanism type, which may not use every link
+const LINK_SLIDERS: { key: LinkKey; min: number; max: number; color: string }[] = [
+  { key: 'r1', min: 50, max: 600, color: 'accent-gray-600' },
+  { key: 'r2', min: 10, max: 300, color: 'accent-red-500' },
+  { key: 'r3', min: 10, max: 500, color: 'accent-green-500' },
+  { key: 'r4', min: 10, max: 500, color: 'accent-blue-500' }
+];
+
+const TOOLS: { id: ToolId; label: string }[] = [
+  { id: 'motion-synthesis', label: 'Three-Position Synthesis' },
+  { id: 'function-synthesis', label: 'Function Generation' },
+  { id: 'design-space', label: 'Design Space Explorer' },
+  { id: 'optimizer', label: 'Transmission Optimizer' },
+  { id: 'quick-return', label: 'Quick-Return Synthesis' },
+  { id: 'tolerance', label: 'Tolerance Analysis' },
+  { id: 'snapshots', label: 'Design Snapshots' },
+  { id: 'export', label: 'Export Image / Animation' }
+];
+
+// Outcome of checking a typed value before it is applied
+interface FieldCheck {
+  error?: string; // The value is refused
+  warning?: string; // The value is accepted but worth flagging
+  note?: string; // What else applying the value changes
 }
 
 const SliderRaw: React.FC<{
@@ -15,39 +85,212 @@ const SliderRaw: React.FC<{
   value: number;
   min: number;
   max: number;
-  onChange: (val: number) => void;
+  onChange: (val: number, continuous: boolean) => void; // Continuous while the slider is dragged, not when a value is typed
   color?: string;
-}> = ({ label, value, min, max, onChange, color = "accent-blue-600" }) => (
-  <div className="mb-4">
-    <div className="flex justify-between items-center mb-1">
-      <label className="text-sm font-semibold text-gray-700">{label}</label>
-      <span className="text-xs font-mono text-gray-500 bg-gray-100 px-2 py-0.5 rounded">{value.toFixed(1)}</span>
+  units?: UnitSettings; // Length sliders: value and range are in mm, shown in units.length with the range scaled
+  check?: (val: number) => FieldCheck | null; // Run on typed values (mm for lengths) as they are entered
+  locked?: boolean;
+  onToggleLock?: () => void; // Shows a lock button when given
+}> = ({ label, value, min, max, onChange, color = "accent-blue-600", units, check, locked = false, onToggleLock }) => {
+  // Text being typed, or null while the field shows the current value
+  const [draft, setDraft] = useState<string | null>(null);
+  const shown = (mm: number) => (units ? toDisplayLength(mm, units.length) : mm);
+  const scale = units?.scale ?? 1;
+  const digits = units ? LENGTH_UNITS[units.length].digits : 1;
+
+  // Typed values may go beyond the slider's range
+  const typed = draft === null || draft.trim() === '' ? NaN : Number(draft);
+  const typedValue = units ? fromDisplayLength(typed, units.length) : typed;
+  const result: FieldCheck | null = draft === null
+    ? null
+    : !isFinite(typed) ? { error: 'Enter a number' } : check?.(typedValue) ?? null;
+
+  const commit = () => {
+    if (draft !== null && !result?.error) onChange(typedValue, false);
+    setDraft(null);
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between items-center mb-1 gap-2">
+        <label className="text-sm font-semibold text-gray-700">{label}</label>
+        <div className="flex items-center gap-1">
+          {onToggleLock && (
+            <button
+              onClick={onToggleLock}
+              title={locked ? 'Unlock' : 'Lock while editing other links'}
+              className={`text-xs px-1 rounded ${locked ? 'text-amber-600 bg-amber-50' : 'text-gray-300 hover:text-gray-500'}`}
+            >
+              {locked ? '🔒' : '🔓'}
+            </button>
+          )}
+          <input
+            type="text"
+            inputMode="decimal"
+            value={draft ?? shown(value).toFixed(digits)}
+            disabled={locked}
+            onFocus={(e) => { setDraft(shown(value).toFixed(digits)); e.target.select(); }}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !result?.error) (e.target as HTMLInputElement).blur();
+              if (e.key === 'Escape') {
+                setDraft(null);
+                (e.target as HTMLInputElement).blur();
+              }
+            }}
+            className={`w-20 text-right text-xs font-mono px-2 py-0.5 rounded border disabled:opacity-50 ${
+              result?.error ? 'text-red-700 bg-red-50 border-red-300'
+                : result?.warning ? 'text-amber-700 bg-amber-50 border-amber-300'
+                : 'text-gray-500 bg-gray-100 border-transparent focus:bg-white focus:border-blue-300'
+            }`}
+          />
+          {units && <span className="text-xs text-gray-400 w-5">{LENGTH_UNITS[units.length].label}</span>}
+        </div>
+      </div>
+      <input
+        type="range"
+        min={shown(min * scale)}
+        max={shown(max * scale)}
+        step={units ? lengthStep(units) : 0.5}
+        value={shown(value)}
+        disabled={locked}
+        onChange={(e) => {
+          const v = parseFloat(e.target.value);
+          onChange(units ? fromDisplayLength(v, units.length) : v, true);
+        }}
+        className={`w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer disabled:cursor-not-allowed disabled:opacity-50 ${color}`}
+      />
+      {result?.error && <p className="text-xs mt-1 text-red-600">{result.error}</p>}
+      {!result?.error && result?.warning && <p className="text-xs mt-1 text-amber-700">{result.warning}</p>}
+      {!result?.error && result?.note && <p className="text-xs mt-1 text-gray-500">{result.note}</p>}
     </div>
-    <input
-      type="range"
-      min={min}
-      max={max}
-      step={0.5}
-      value={value}
-      onChange={(e) => onChange(parseFloat(e.target.value))}
-      className={`w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer ${color}`}
-    />
-  </div>
-);
+  );
+};
 
 // Memoize the slider to prevent re-renders of the whole panel on unrelated updates if needed
 const Slider = React.memo(SliderRaw);
 
 const ControlPanel: React.FC<ControlPanelProps> = ({
   config,
+  state,
   onChange,
+  units,
+  onUnitsChange,
+  linkConstraints,
+  onLinkConstraintsChange,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
   isPlaying,
   onTogglePlay,
   speed,
-  onSpeedChange
+  onSpeedChange,
+  alpha2,
+  onAlpha2Change,
+  showCharts,
+  onToggleCharts,
+  showInstantCenters,
+  onToggleInstantCenters,
+  showCentrodes,
+  onToggleCentrodes,
+  showEnvelope,
+  onToggleEnvelope,
+  load,
+  onLoadChange,
+  activeTool,
+  onToolChange,
+  onSaveDesign,
+  onLoadDesign,
+  onCopyLink,
+  designMessage
 }) => {
-  const updateConfig = (key: keyof MechanismConfig, value: number) => {
-    onChange({ ...config, [key]: value });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Links the ratio control refers to while no ratio is held
+  const [ratioPair, setRatioPair] = useState<{ numerator: LinkKey; denominator: LinkKey }>({ numerator: 'r2', denominator: 'r1' });
+  const [constraintError, setConstraintError] = useState<string | null>(null);
+
+  const updateConfig = (key: keyof MechanismConfig, value: number, continuous = false) => {
+    onChange({ ...config, [key]: value }, continuous);
+  };
+
+  const { O2, O4 } = getGroundPivots(config);
+  const mechanismType = getMechanismType(config);
+  const mechanism = getMechanism(config);
+  // Forces and dynamics are only modelled for the pin-jointed four-bar
+  const isFourBar = mechanismType === 'four-bar';
+
+  const updateCouplerPoint = (index: number, key: keyof CouplerPoint, value: number, continuous = false) => {
+    const couplerPoints = config.couplerPoints.map((p, i) => (i === index ? { ...p, [key]: value } : p));
+    onChange({ ...config, couplerPoints }, continuous);
+  };
+
+  const addCouplerPoint = () => {
+    // New points start at the middle of the coupler, lifted off the line so the curve is visible
+    onChange({ ...config, couplerPoints: [...config.couplerPoints, { along: config.r3 / 2, offset: 50 }] });
+  };
+
+  const removeCouplerPoint = (index: number) => {
+    onChange({ ...config, couplerPoints: config.couplerPoints.filter((_, i) => i !== index) });
+  };
+
+  const updateDyad = (changes: Partial<DyadConfig>, continuous = false) => {
+    if (config.dyad) onChange({ ...config, dyad: { ...config.dyad, ...changes } }, continuous);
+  };
+
+  // --- Link Constraints ---
+  const usedLinks = LINK_KEYS.filter(k => mechanism.links[k]);
+  const numerator = linkConstraints.ratio?.numerator ?? (usedLinks.includes(ratioPair.numerator) ? ratioPair.numerator : usedLinks[0]);
+  const denominator = linkConstraints.ratio?.denominator
+    ?? (usedLinks.includes(ratioPair.denominator) && ratioPair.denominator !== numerator ? ratioPair.denominator : usedLinks.find(k => k !== numerator)!);
+  const currentRatio = config[numerator] / config[denominator];
+
+  const updateLink = (key: LinkKey, value: number, continuous: boolean) => {
+    const result = applyLinkEdit(config, key, value, linkConstraints);
+    setConstraintError(result.error ?? null);
+    if (result.isValid && result.config) onChange(result.config, continuous);
+  };
+
+  // Typed lengths are previewed with the constraints applied before they are committed
+  const checkLink = (key: LinkKey) => (value: number): FieldCheck | null => {
+    const result = applyLinkEdit(config, key, value, linkConstraints);
+    if (!result.isValid || !result.config) return { error: result.error };
+    const edited = result.config;
+    const note = result.adjusted.length > 0
+      ? `Also sets ${result.adjusted.map(k => `${k} to ${formatLength(edited[k], units.length)}`).join(', ')}`
+      : undefined;
+    return { warning: assemblyWarning(edited) ?? undefined, note };
+  };
+
+  const toggleLock = (key: LinkKey) => {
+    const { locked } = linkConstraints;
+    onLinkConstraintsChange({ ...linkConstraints, locked: locked.includes(key) ? locked.filter(k => k !== key) : [...locked, key] });
+  };
+
+  const setRatioValue = (value: number) => {
+    const ratio = { numerator, denominator, value: currentRatio };
+    const result = applyRatioValue(config, { ...linkConstraints, ratio }, value);
+    setConstraintError(result.error ?? null);
+    if (!result.isValid || !result.config) return;
+    onChange(result.config);
+    if (linkConstraints.ratio) onLinkConstraintsChange({ ...linkConstraints, ratio: { ...ratio, value } });
+  };
+
+  const checkPositive = (value: number): FieldCheck | null => (value > 0 ? null : { error: 'Must be a positive length' });
+
+  const assemblyMessage = assemblyWarning(config);
+  const margin = grashofMargin(config);
+
+  const massProperties = getMassProperties(config);
+  const updateLinkMass = (link: keyof MassProperties, props: LinkMassProperties) => {
+    onChange({ ...config, massProperties: { ...massProperties, [link]: props } });
+  };
+
+  const tolerances = getTolerances(config);
+  // Overrides are kept alongside the defaults; only positive values are meaningful
+  const updateTolerance = (key: keyof Tolerances, value: number) => {
+    if (value > 0) onChange({ ...config, tolerances: { ...config.tolerances, [key]: value } });
   };
 
   return (
@@ -55,43 +298,351 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       <h1 className="text-2xl font-bold text-gray-800 mb-6 flex items-center gap-2">
         <span className="text-blue-600">Kinema</span>
         <span className="text-sm font-normal text-gray-400 mt-1">v1.0</span>
+        <span className="ml-auto flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            className="text-sm font-normal bg-gray-100 border border-gray-300 px-2 py-0.5 rounded hover:bg-gray-200 disabled:opacity-40"
+          >
+            ↶
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="text-sm font-normal bg-gray-100 border border-gray-300 px-2 py-0.5 rounded hover:bg-gray-200 disabled:opacity-40"
+          >
+            ↷
+          </button>
+        </span>
       </h1>
 
+      <div className="mb-8">
+        <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-4">Mechanism</h2>
+
+        <select
+          value={mechanismType}
+          onChange={(e) => onChange(convertMechanism(config, e.target.value as MechanismType))}
+          className="w-full text-sm border border-gray-200 rounded px-1.5 py-1"
+        >
+          {MECHANISM_TYPES.map(type => <option key={type} value={type}>{MECHANISMS[type].label}</option>)}
+        </select>
+
+        <div className="flex gap-2 mt-3">
+          <label className="flex-1 flex flex-col text-xs text-gray-500">
+            Units
+            <select
+              value={units.length}
+              onChange={(e) => onUnitsChange({ ...units, length: e.target.value as LengthUnit })}
+              className="mt-0.5 text-sm text-gray-800 border border-gray-200 rounded px-1.5 py-1"
+            >
+              {(Object.keys(LENGTH_UNITS) as LengthUnit[]).map(unit => <option key={unit} value={unit}>{LENGTH_UNITS[unit].label}</option>)}
+            </select>
+          </label>
+          <label className="flex-1 flex flex-col text-xs text-gray-500">
+            Slider range
+            <select
+              value={units.scale}
+              onChange={(e) => onUnitsChange({ ...units, scale: parseFloat(e.target.value) })}
+              className="mt-0.5 text-sm text-gray-800 border border-gray-200 rounded px-1.5 py-1"
+            >
+              {UNIT_SCALES.map(scale => <option key={scale} value={scale}>×{scale}</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
       <div className="mb-8">
         <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-4">Link Lengths</h2>
         
+        {LINK_SLIDERS.map(({ key, min, max, color }) => mechanism.links[key] && (
+          <Slider
+            key={key}
+            label={mechanism.links[key]}
+            value={config[key]}
+            min={min}
+            max={max}
+            onChange={(v, continuous) => updateLink(key, v, continuous)}
+            color={color}
+            units={units}
+            check={checkLink(key)}
+            locked={linkConstraints.locked.includes(key)}
+            onToggleLock={() => toggleLock(key)}
+          />
+        ))}
+        {mechanism.usesSliderOffset && (
+          <Slider
+            label="Slider Offset (e)"
+            value={config.sliderOffset ?? 0}
+            min={-300}
+            max={300}
+            onChange={(v, continuous) => updateConfig('sliderOffset', v, continuous)}
+            color="accent-blue-500"
+            units={units}
+          />
+        )}
+
+        <p className="text-xs text-gray-500 mb-2">{classifyMechanism(config)}</p>
+        {assemblyMessage && (
+          <div className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100 mb-3">
+            ⚠️ {assemblyMessage}
+          </div>
+        )}
+
+        <div className="p-3 bg-gray-50 rounded border border-gray-100">
+          <h3 className="text-xs font-bold text-gray-400 uppercase mb-2">Constraints</h3>
+
+          <label className="flex items-center gap-2 text-xs text-gray-700 mb-1">
+            <input
+              type="checkbox"
+              checked={linkConstraints.ratio !== null}
+              onChange={(e) => onLinkConstraintsChange({
+                ...linkConstraints,
+                ratio: e.target.checked ? { numerator, denominator, value: currentRatio } : null
+              })}
+            />
+            Hold ratio
+          </label>
+          <div className="grid grid-cols-3 gap-2 mb-3">
+            {([['numerator', numerator], ['denominator', denominator]] as const).map(([role, link]) => (
+              <label key={role} className="flex flex-col text-xs text-gray-500">
+                {role === 'numerator' ? 'Link' : 'Over'}
+                <select
+                  value={link}
+                  disabled={linkConstraints.ratio !== null}
+                  onChange={(e) => setRatioPair({ numerator, denominator, [role]: e.target.value as LinkKey })}
+                  className="mt-0.5 text-sm text-gray-800 border border-gray-200 rounded px-1.5 py-0.5 disabled:opacity-50"
+                >
+                  {usedLinks.filter(k => role === 'numerator' || k !== numerator).map(k => <option key={k} value={k}>{k}</option>)}
+                </select>
+              </label>
+            ))}
+            <NumberField label="Ratio" value={currentRatio} step={0.01} digits={3} onChange={setRatioValue} />
+          </div>
+
+          {isFourBar && (
+            <label className="flex items-center gap-2 text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={linkConstraints.grashofMargin !== null}
+                onChange={(e) => onLinkConstraintsChange({ ...linkConstraints, grashofMargin: e.target.checked ? margin : null })}
+              />
+              Hold Grashof sum
+              <span className="ml-auto font-mono text-gray-500">
+                p + q − s − l = {formatLength(linkConstraints.grashofMargin ?? margin, units.length)}
+              </span>
+            </label>
+          )}
+
+          {constraintError && <p className="text-xs text-red-600 mt-2">{constraintError}</p>}
+          <p className="text-xs text-gray-400 mt-2">
+            Locks and held relations apply to lengths set here and to ground pivot drags on the canvas. With r1 locked a pivot
+            drag only turns the ground line; otherwise the new r1 holds the ratio and Grashof sum like a typed length.
+          </p>
+        </div>
+      </div>
+
+      <div className="mb-8">
+        <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-4">Ground Pivots</h2>
+
         <Slider
-          label="Ground (r1)"
-          value={config.r1}
-          min={50}
-          max={600}
-          onChange={(v) => updateConfig('r1', v)}
+          label="O₂ x"
+          value={O2.x}
+          min={-500}
+          max={500}
+          onChange={(v, continuous) => onChange({ ...config, O2: { ...O2, x: v } }, continuous)}
           color="accent-gray-600"
+          units={units}
         />
         <Slider
-          label="Crank (r2)"
-          value={config.r2}
-          min={10}
-          max={300}
-          onChange={(v) => updateConfig('r2', v)}
-          color="accent-red-500"
-        />
-        <Slider
-          label="Coupler (r3)"
-          value={config.r3}
-          min={10}
+          label="O₂ y"
+          value={O2.y}
+          min={-500}
           max={500}
-          onChange={(v) => updateConfig('r3', v)}
-          color="accent-green-500"
+          onChange={(v, continuous) => onChange({ ...config, O2: { ...O2, y: v } }, continuous)}
+          color="accent-gray-600"
+          units={units}
         />
         <Slider
-          label="Rocker (r4)"
-          value={config.r4}
-          min={10}
-          max={500}
-          onChange={(v) => updateConfig('r4', v)}
-          color="accent-blue-500"
+          label="Ground Angle (°)"
+          value={toDegrees(config.groundAngle ?? 0)}
+          min={-180}
+          max={180}
+          onChange={(v, continuous) => onChange({ ...config, groundAngle: toRadians(v) }, continuous)}
+          color="accent-gray-600"
         />
+        {mechanismType !== 'slider-crank' && (
+          <p className="text-xs text-gray-400 font-mono">
+            O₄ = ({formatLength(O4.x, units.length, false)}, {formatLength(O4.y, units.length, false)}) {LENGTH_UNITS[units.length].label}
+          </p>
+        )}
+      </div>
+
+      <div className="mb-8">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold">Coupler Points</h2>
+          <button
+            onClick={addCouplerPoint}
+            className="text-xs bg-gray-100 border border-gray-300 px-3 py-1 rounded hover:bg-gray-200"
+          >
+            + Add
+          </button>
+        </div>
+
+        {config.couplerPoints.length === 0 && (
+          <p className="text-xs text-gray-400 italic mb-4">No coupler points defined.</p>
+        )}
+
+        {config.couplerPoints.map((p, idx) => (
+          <div key={idx} className="mb-4 pl-3 border-l-4" style={{ borderColor: COUPLER_POINT_COLORS[idx % COUPLER_POINT_COLORS.length] }}>
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm font-semibold text-gray-700">P{idx + 1}</span>
+              <button
+                onClick={() => removeCouplerPoint(idx)}
+                className="text-xs text-gray-400 hover:text-red-500"
+              >
+                Remove
+              </button>
+            </div>
+            <Slider
+              label="Along AB"
+              value={p.along}
+              min={-500}
+              max={500}
+              onChange={(v, continuous) => updateCouplerPoint(idx, 'along', v, continuous)}
+              color="accent-green-500"
+              units={units}
+            />
+            <Slider
+              label="Offset ⟂ AB"
+              value={p.offset}
+              min={-500}
+              max={500}
+              onChange={(v, continuous) => updateCouplerPoint(idx, 'offset', v, continuous)}
+              color="accent-green-500"
+              units={units}
+            />
+          </div>
+        ))}
+      </div>
+
+      {isFourBar && (
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold">Six-Bar Dyad</h2>
+            <button
+              onClick={() => onChange({ ...config, dyad: config.dyad ? undefined : createDefaultDyad(config, state) })}
+              disabled={!config.dyad && !state.isValid}
+              className="text-xs bg-gray-100 border border-gray-300 px-3 py-1 rounded hover:bg-gray-200 disabled:opacity-40"
+            >
+              {config.dyad ? 'Remove' : '+ Add'}
+            </button>
+          </div>
+
+          {!config.dyad ? (
+            <p className="text-xs text-gray-400 italic">Add links 5 and 6 to close a second loop onto the coupler or rocker.</p>
+          ) : (
+            <>
+              <select
+                value={config.dyad.attachment}
+                onChange={(e) => updateDyad({ attachment: e.target.value as DyadAttachment })}
+                className="w-full text-sm border border-gray-200 rounded px-1.5 py-1 mb-4"
+              >
+                <option value="rocker">On the rocker (Watt II)</option>
+                <option value="coupler">On the coupler (Stephenson III)</option>
+              </select>
+              <Slider
+                label={config.dyad.attachment === 'coupler' ? 'C along AB' : 'C along O₄B'}
+                value={config.dyad.point.along}
+                min={-500}
+                max={500}
+                onChange={(v, continuous) => updateDyad({ point: { ...config.dyad!.point, along: v } }, continuous)}
+                color="accent-teal-600"
+                units={units}
+              />
+              <Slider
+                label={config.dyad.attachment === 'coupler' ? 'C offset ⟂ AB' : 'C offset ⟂ O₄B'}
+                value={config.dyad.point.offset}
+                min={-500}
+                max={500}
+                onChange={(v, continuous) => updateDyad({ point: { ...config.dyad!.point, offset: v } }, continuous)}
+                color="accent-teal-600"
+                units={units}
+              />
+              <Slider label="Link 5 (C–D)" value={config.dyad.r5} min={10} max={600} onChange={(v, continuous) => updateDyad({ r5: v }, continuous)} check={checkPositive} color="accent-teal-600" units={units} />
+              <Slider label="Output (r6)" value={config.dyad.r6} min={10} max={600} onChange={(v, continuous) => updateDyad({ r6: v }, continuous)} check={checkPositive} color="accent-indigo-500" units={units} />
+              <Slider label="O₆ x" value={config.dyad.O6.x} min={-800} max={800} onChange={(v, continuous) => updateDyad({ O6: { ...config.dyad!.O6, x: v } }, continuous)} color="accent-gray-600" units={units} />
+              <Slider label="O₆ y" value={config.dyad.O6.y} min={-800} max={800} onChange={(v, continuous) => updateDyad({ O6: { ...config.dyad!.O6, y: v } }, continuous)} color="accent-gray-600" units={units} />
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-gray-700 font-medium">Dyad Assembly</span>
+                <button
+                  onClick={() => updateDyad({ assemblyMode: config.dyad!.assemblyMode === 1 ? -1 : 1 })}
+                  className="text-xs bg-gray-100 border border-gray-300 px-3 py-1 rounded hover:bg-gray-200"
+                >
+                  {config.dyad.assemblyMode === 1 ? 'Open (+)' : 'Crossed (-)'}
+                </button>
+              </div>
+              <p className="text-xs text-gray-400 mt-2">Force and dynamics analysis treat links 5 and 6 as massless and unloaded.</p>
+            </>
+          )}
+        </div>
+      )}
+
+      {isFourBar && (
+        <div className="mb-8">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold">Mass Properties</h2>
+            <button
+              onClick={() => onChange({ ...config, massProperties: undefined })}
+              disabled={!config.massProperties}
+              className="text-xs bg-gray-100 border border-gray-300 px-3 py-1 rounded hover:bg-gray-200 disabled:opacity-40"
+            >
+              Uniform Bars
+            </button>
+          </div>
+
+          {!config.massProperties && (
+            <p className="text-xs text-gray-400 italic mb-3">Using uniform bars scaled to the link lengths.</p>
+          )}
+
+          {MASS_LINKS.map(({ key, label, color }) => {
+            const props = massProperties[key];
+            return (
+              <div key={key} className="mb-3 pl-3 border-l-4" style={{ borderColor: color }}>
+                <span className="text-sm font-semibold text-gray-700">{label}</span>
+                <div className="grid grid-cols-2 gap-2 mt-1">
+                  <NumberField label="Mass (kg)" value={props.mass} step={0.1} onChange={(v) => updateLinkMass(key, { ...props, mass: Math.max(0, v) })} />
+                  <NumberField label="I_G (kg·mm²)" value={props.inertia} step={100} onChange={(v) => updateLinkMass(key, { ...props, inertia: Math.max(0, v) })} />
+                  <NumberField label="G along (mm)" value={props.centroid.along} onChange={(v) => updateLinkMass(key, { ...props, centroid: { ...props.centroid, along: v } })} />
+                  <NumberField label="G offset ⟂ (mm)" value={props.centroid.offset} onChange={(v) => updateLinkMass(key, { ...props, centroid: { ...props.centroid, offset: v } })} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="mb-8">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold">Solver Tolerances</h2>
+          <button
+            onClick={() => onChange({ ...config, tolerances: undefined })}
+            disabled={!config.tolerances}
+            className="text-xs bg-gray-100 border border-gray-300 px-3 py-1 rounded hover:bg-gray-200 disabled:opacity-40"
+          >
+            Defaults
+          </button>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <NumberField label="Length" value={tolerances.length} step={1e-6} digits={9} onChange={(v) => updateTolerance('length', v)} />
+          <NumberField label="|sin μ| min" value={tolerances.singularity} step={1e-9} digits={12} onChange={(v) => updateTolerance('singularity', v)} />
+          <NumberField label="Near toggle (°)" value={tolerances.nearSingular} step={0.5} digits={2} onChange={(v) => updateTolerance('nearSingular', v)} />
+        </div>
+        <p className="text-xs text-gray-400 mt-2">
+          Lengths within the length tolerance × the longest link count as equal. Rates are not solved below the
+          |sin μ| limit, and positions within the angle of a toggle are flagged near-singular.
+        </p>
       </div>
 
       <div className="mb-8">
@@ -111,11 +662,21 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         </div>
 
         <Slider
-          label={`Speed (${speed.toFixed(1)}x)`}
+          label="Speed (×)"
           value={speed}
           min={0.1}
           max={5.0}
           onChange={onSpeedChange}
+          check={(v) => (v > 0 ? null : { error: 'Must be positive' })}
+        />
+
+        <Slider
+          label="Crank Accel. α₂ (rad/s²)"
+          value={alpha2}
+          min={-10}
+          max={10}
+          onChange={onAlpha2Change}
+          color="accent-red-500"
         />
         
         <div className="flex items-center justify-between mt-4">
@@ -129,9 +690,117 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         </div>
       </div>
 
+      {isFourBar && (
+        <div className="mb-8">
+          <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-4">External Load</h2>
+
+          <div className="flex gap-2 mb-3">
+            <select
+              value={load.target}
+              onChange={(e) => onLoadChange({ ...load, target: e.target.value as LoadTarget })}
+              className="flex-1 text-sm border border-gray-200 rounded px-1.5 py-1"
+            >
+              <option value="rocker">Rocker (at B)</option>
+              <option value="coupler" disabled={config.couplerPoints.length === 0}>Coupler point</option>
+            </select>
+            {load.target === 'coupler' && (
+              <select
+                value={load.couplerPointIndex}
+                onChange={(e) => onLoadChange({ ...load, couplerPointIndex: parseInt(e.target.value, 10) })}
+                className="text-sm border border-gray-200 rounded px-1.5 py-1"
+              >
+                {config.couplerPoints.map((_, idx) => <option key={idx} value={idx}>P{idx + 1}</option>)}
+              </select>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField label="Fx (N)" value={load.force.x} onChange={(v) => onLoadChange({ ...load, force: { ...load.force, x: v } })} />
+            <NumberField label="Fy (N)" value={load.force.y} onChange={(v) => onLoadChange({ ...load, force: { ...load.force, y: v } })} />
+            <NumberField label="T (N·mm)" value={load.torque} step={100} onChange={(v) => onLoadChange({ ...load, torque: v })} />
+          </div>
+        </div>
+      )}
+
+      <div className="mb-8">
+        <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-4">Views</h2>
+
+        {[
+          { label: 'Full-Cycle Plots', active: showCharts, onToggle: onToggleCharts },
+          { label: 'Instant Centers', active: showInstantCenters, onToggle: onToggleInstantCenters },
+          { label: 'Centrodes', active: showCentrodes, onToggle: onToggleCentrodes },
+          { label: 'Swept Envelope', active: showEnvelope, onToggle: onToggleEnvelope }
+        ].map(({ label, active, onToggle }) => (
+          <div key={label} className="flex items-center justify-between mb-2">
+              <span className="text-sm text-gray-700 font-medium">{label}</span>
+              <button 
+                  onClick={onToggle}
+                  className={`text-xs border px-3 py-1 rounded ${
+                    active ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-gray-100 border-gray-300 hover:bg-gray-200'
+                  }`}
+              >
+                  {active ? 'Hide' : 'Show'}
+              </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mb-8">
+        <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-4">Design Tools</h2>
+
+        <div className="flex flex-col gap-2">
+          {TOOLS.map(tool => (
+            <button
+              key={tool.id}
+              onClick={() => onToolChange(activeTool === tool.id ? null : tool.id)}
+              className={`text-left text-sm border px-3 py-2 rounded ${
+                activeTool === tool.id ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {tool.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mb-8">
+        <h2 className="text-xs uppercase tracking-wider text-gray-500 font-bold mb-4">Design File</h2>
+
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={onSaveDesign} className="text-xs bg-gray-100 border border-gray-300 px-2 py-1.5 rounded hover:bg-gray-200">
+            Save JSON
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="text-xs bg-gray-100 border border-gray-300 px-2 py-1.5 rounded hover:bg-gray-200">
+            Load JSON
+          </button>
+          <button onClick={onCopyLink} className="text-xs bg-gray-100 border border-gray-300 px-2 py-1.5 rounded hover:bg-gray-200">
+            Copy Link
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onLoadDesign(file);
+            e.target.value = ''; // Allow re-loading the same file
+          }}
+        />
+
+        {designMessage && (
+          <div className={`mt-3 text-xs p-2 rounded border ${
+            designMessage.kind === 'error' ? 'text-red-600 bg-red-50 border-red-100' : 'text-green-700 bg-green-50 border-green-100'
+          }`}>
+            {designMessage.lines.map((line, i) => <div key={i}>{line}</div>)}
+          </div>
+        )}
+      </div>
+
       <div className="mt-auto pt-6 border-t border-gray-100">
         <p className="text-xs text-gray-400">
-          Drag the <strong className="text-red-500">Red</strong> joint to drive the crank, or the <strong className="text-blue-500">Blue</strong> joint to drive the rocker.
+          Drag the <strong className="text-red-500">Red</strong> joint to drive the crank, or the <strong className="text-blue-500">Blue</strong> joint to drive the {mechanism.outputLink}. Drag the ground pivots to relocate them.
         </p>
       </div>
     </div>
@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { MechanismConfig, DesignSpaceSpec, DesignSpaceCell, DesignSpaceMap, GrashofType, RatioLink } from '../types';
+import { exploreDesignSpace, configAtRatios, RATIO_LINKS } from '../services/designSpace';
+import NumberField from './NumberField';
+
+interface DesignSpacePanelProps {
+  config: MechanismConfig;
+  spec: DesignSpaceSpec;
+  onChange: (spec: DesignSpaceSpec) => void;
+  onApply: (config: MechanismConfig) => void;
+  onClose: () => void;
+}
+
+const LINK_LABELS: Record<RatioLink, string> = {
+  r2: 'r2/r1 (Crank)',
+  r3: 'r3/r1 (Coupler)',
+  r4: 'r4/r1 (Rocker)'
+};
+
+const GRASHOF_COLORS: Record<GrashofType, string> = {
+  [GrashofType.CRANK_ROCKER]: '#22c55e',
+  [GrashofType.DOUBLE_CRANK]: '#3b82f6',
+  [GrashofType.DOUBLE_ROCKER]: '#f59e0b',
+  [GrashofType.CHANGE_POINT]: '#8b5cf6',
+  [GrashofType.TRIPLE_ROCKER]: '#f87171',
+  [GrashofType.INVALID]: '#e5e7eb'
+};
+
+// μ-min at or above this is drawn fully green
+const GOOD_TRANSMISSION = 90;
+
+const SIZE = 280;
+const MARGIN = { top: 6, right: 6, bottom: 24, left: 30 };
+
+/**
+ * Red (0°) through yellow to green (GOOD_TRANSMISSION and above)
+ */
+const transmissionColor = (mu: number | null) => {
+  if (mu === null) return GRASHOF_COLORS[GrashofType.INVALID];
+  const t = Math.max(0, Math.min(1, mu / GOOD_TRANSMISSION));
+  return `hsl(${t * 120}, 70%, 50%)`;
+};
+
+const cellColor = (cell: DesignSpaceCell, spec: DesignSpaceSpec) =>
+  spec.coloring === 'grashof' ? GRASHOF_COLORS[cell.grashofType] : transmissionColor(cell.transmissionMin);
+
+const DesignSpacePanel: React.FC<DesignSpacePanelProps> = ({ config, spec, onChange, onApply, onClose }) => {
+  const [hovered, setHovered] = useState<DesignSpaceCell | null>(null);
+  const map: DesignSpaceMap = useMemo(() => exploreDesignSpace(config, spec), [config, spec]);
+
+  const update = <K extends keyof DesignSpaceSpec>(key: K, value: DesignSpaceSpec[K]) => {
+    onChange({ ...spec, [key]: value });
+  };
+
+  // Keep the two axes on different links by swapping when they would collide
+  const setAxisLink = (axis: 'xLink' | 'yLink', link: RatioLink) => {
+    const other = axis === 'xLink' ? 'yLink' : 'xLink';
+    onChange({ ...spec, [axis]: link, ...(spec[other] === link ? { [other]: spec[axis] } : {}) });
+  };
+
+  const plot = SIZE - MARGIN.left - MARGIN.right;
+  const cellSize = plot / spec.resolution;
+  const [xMin, xMax] = spec.xRange;
+  const [yMin, yMax] = spec.yRange;
+  const sx = (r: number) => MARGIN.left + ((r - xMin) / (xMax - xMin || 1)) * plot;
+  const sy = (r: number) => MARGIN.top + (1 - (r - yMin) / (yMax - yMin || 1)) * plot;
+  const currentX = config[spec.xLink] / config.r1;
+  const currentY = config[spec.yLink] / config.r1;
+
+  const legend = spec.coloring === 'grashof'
+    ? Object.values(GrashofType).map(type => ({ label: type === GrashofType.INVALID ? 'Cannot assemble' : type, color: GRASHOF_COLORS[type] }))
+    : [0, 30, 60, GOOD_TRANSMISSION].map(mu => ({ label: `${mu}°${mu === GOOD_TRANSMISSION ? '+' : ''}`, color: transmissionColor(mu) }));
+
+  return (
+    <div className="bg-white/95 backdrop-blur-md p-4 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-xs font-bold text-gray-400 uppercase">Design Space</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-700">Close</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        {(['xLink', 'yLink'] as const).map(axis => (
+          <label key={axis} className="flex flex-col text-xs text-gray-500">
+            {axis === 'xLink' ? 'X axis' : 'Y axis'}
+            <select
+              value={spec[axis]}
+              onChange={(e) => setAxisLink(axis, e.target.value as RatioLink)}
+              className="mt-0.5 text-sm text-gray-800 border border-gray-200 rounded px-1.5 py-1"
+            >
+              {RATIO_LINKS.map(link => <option key={link} value={link}>{LINK_LABELS[link]}</option>)}
+            </select>
+          </label>
+        ))}
+        <NumberField label="X min" value={xMin} step={0.1} onChange={(v) => update('xRange', [Math.max(0.01, v), xMax])} />
+        <NumberField label="X max" value={xMax} step={0.1} onChange={(v) => update('xRange', [xMin, v])} />
+        <NumberField label="Y min" value={yMin} step={0.1} onChange={(v) => update('yRange', [Math.max(0.01, v), yMax])} />
+        <NumberField label="Y max" value={yMax} step={0.1} onChange={(v) => update('yRange', [yMin, v])} />
+      </div>
+
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex gap-1">
+          {(['grashof', 'transmission'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => update('coloring', mode)}
+              className={`text-xs border px-2 py-1 rounded ${
+                spec.coloring === mode ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-gray-100 border-gray-300 hover:bg-gray-200'
+              }`}
+            >
+              {mode === 'grashof' ? 'Grashof' : 'μ min'}
+            </button>
+          ))}
+        </div>
+        <select
+          value={spec.resolution}
+          onChange={(e) => update('resolution', parseInt(e.target.value, 10))}
+          className="text-xs border border-gray-200 rounded px-1 py-1"
+        >
+          {[20, 40, 60].map(n => <option key={n} value={n}>{n}×{n}</option>)}
+        </select>
+      </div>
+
+      <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full block select-none" onPointerLeave={() => setHovered(null)}>
+        {map.cells.map((row, j) => row.map((cell, i) => (
+          <rect
+            key={`${i}-${j}`}
+            x={MARGIN.left + i * cellSize}
+            y={MARGIN.top + (spec.resolution - 1 - j) * cellSize}
+            width={cellSize + 0.5}
+            height={cellSize + 0.5}
+            fill={cellColor(cell, spec)}
+            className="cursor-pointer"
+            onPointerEnter={() => setHovered(cell)}
+            onClick={() => onApply(configAtRatios(config, spec.xLink, cell.xRatio, spec.yLink, cell.yRatio))}
+          />
+        )))}
+
+        {/* Current design */}
+        {currentX >= xMin && currentX <= xMax && currentY >= yMin && currentY <= yMax && (
+          <circle cx={sx(currentX)} cy={sy(currentY)} r="4" fill="white" stroke="#0f172a" strokeWidth="2" pointerEvents="none" />
+        )}
+
+        <g fontSize="9" fill="#64748b">
+          <text x={MARGIN.left} y={SIZE - 12}>{xMin.toFixed(2)}</text>
+          <text x={SIZE - MARGIN.right} y={SIZE - 12} textAnchor="end">{xMax.toFixed(2)}</text>
+          <text x={MARGIN.left + plot / 2} y={SIZE - 2} textAnchor="middle">{spec.xLink}/r1</text>
+          <text x={MARGIN.left - 3} y={SIZE - MARGIN.bottom} textAnchor="end">{yMin.toFixed(2)}</text>
+          <text x={MARGIN.left - 3} y={MARGIN.top + 8} textAnchor="end">{yMax.toFixed(2)}</text>
+          <text x={10} y={MARGIN.top + plot / 2} textAnchor="middle" transform={`rotate(-90 10 ${MARGIN.top + plot / 2})`}>{spec.yLink}/r1</text>
+        </g>
+      </svg>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+        {legend.map(item => (
+          <span key={item.label} className="flex items-center gap-1 text-xs text-gray-500">
+            <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: item.color }} />
+            {item.label}
+          </span>
+        ))}
+      </div>
+
+      <div className="text-xs text-gray-500 mt-2 pt-2 border-t border-gray-100 font-mono min-h-[2rem]">
+        {hovered ? (
+          <>
+            {spec.xLink}/r1 = {hovered.xRatio.toFixed(2)}, {spec.yLink}/r1 = {hovered.yRatio.toFixed(2)}<br />
+            {hovered.grashofType}
+            {hovered.transmissionMin !== null && ` · μ min ${hovered.transmissionMin.toFixed(1)}°`}
+          </>
+        ) : (
+          <span className="font-sans text-gray-400">
+            {map.fixedLink}/r1 held at {map.fixedRatio.toFixed(2)}. Click a cell to load that design.
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DesignSpacePanel;
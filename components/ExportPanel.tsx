@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { MechanismConfig, MechanismState, LimitAnalysis, ExportSpec } from '../types';
+import { renderFrameSvg, renderCycleSvgs, exportPng, exportGif, exportWebm, getWebmType } from '../services/mediaExport';
+import { downloadBlob } from '../services/download';
+import NumberField from './NumberField';
+
+interface ExportPanelProps {
+  config: MechanismConfig;
+  state: MechanismState;
+  limits: LimitAnalysis;
+  theta2: number;
+  spec: ExportSpec;
+  onChange: (spec: ExportSpec) => void;
+  onClose: () => void;
+}
+
+type ExportFormat = 'svg' | 'png' | 'gif' | 'webm';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  svg: 'SVG',
+  png: 'PNG',
+  gif: 'GIF',
+  webm: 'WebM'
+};
+
+const MAX_SIZE = 4096;
+const MAX_FRAMES = 720;
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ config, state, limits, theta2, spec, onChange, onClose }) => {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const webmSupported = getWebmType() !== null;
+
+  const update = <K extends keyof ExportSpec>(key: K, value: ExportSpec[K]) => {
+    onChange({ ...spec, [key]: value });
+  };
+
+  const runExport = async (format: ExportFormat) => {
+    setBusy(format);
+    setProgress(0);
+    setError(null);
+    try {
+      let blob: Blob;
+      if (format === 'svg' || format === 'png') {
+        const svg = renderFrameSvg(config, state, limits, spec);
+        blob = format === 'svg' ? new Blob([svg], { type: 'image/svg+xml' }) : await exportPng(svg, spec);
+      } else {
+        const svgs = renderCycleSvgs(config, limits, theta2, spec);
+        blob = format === 'gif' ? await exportGif(svgs, spec, setProgress) : await exportWebm(svgs, spec, setProgress);
+      }
+      downloadBlob(blob, `linkage.${format}`);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const formatButton = (format: ExportFormat, disabled = false) => (
+    <button
+      key={format}
+      onClick={() => runExport(format)}
+      disabled={busy !== null || disabled}
+      className="flex-1 text-xs border px-2 py-1.5 rounded bg-gray-100 border-gray-300 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      {busy === format ? '…' : FORMAT_LABELS[format]}
+    </button>
+  );
+
+  const toggle = (key: 'showCouplerCurves' | 'showLimitGhosts', label: string) => (
+    <button
+      onClick={() => update(key, !spec[key])}
+      className={`text-xs border px-2 py-1 rounded ${
+        spec[key] ? 'bg-blue-50 border-blue-300 text-blue-700' : 'bg-gray-100 border-gray-300 hover:bg-gray-200'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const seconds = spec.frames / spec.fps;
+
+  return (
+    <div className="bg-white/95 backdrop-blur-md p-4 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-xs font-bold text-gray-400 uppercase">Export</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-700">Close</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <NumberField label="Width (px)" value={spec.width} step={10} onChange={(v) => update('width', Math.max(16, Math.min(MAX_SIZE, Math.round(v))))} />
+        <NumberField label="Height (px)" value={spec.height} step={10} onChange={(v) => update('height', Math.max(16, Math.min(MAX_SIZE, Math.round(v))))} />
+        <NumberField label="Frame rate (fps)" value={spec.fps} step={1} onChange={(v) => update('fps', Math.max(1, Math.min(60, Math.round(v))))} />
+        <NumberField label="Frames per cycle" value={spec.frames} step={10} onChange={(v) => update('frames', Math.max(2, Math.min(MAX_FRAMES, Math.round(v))))} />
+      </div>
+
+      <div className="flex gap-1 mb-3">
+        {toggle('showCouplerCurves', 'Coupler Curves')}
+        {toggle('showLimitGhosts', 'Limit Ghosts')}
+      </div>
+
+      <div className="pt-3 border-t border-gray-100 space-y-3">
+        <div>
+          <div className="text-xs text-gray-500 mb-1">Current frame</div>
+          <div className="flex gap-1">
+            {formatButton('svg')}
+            {formatButton('png')}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-xs text-gray-500 mb-1">
+            Full cycle · {seconds.toFixed(1)} s
+          </div>
+          <div className="flex gap-1">
+            {formatButton('gif')}
+            {formatButton('webm', !webmSupported)}
+          </div>
+          {!webmSupported && (
+            <div className="text-xs text-gray-400 mt-1">This browser cannot record WebM.</div>
+          )}
+        </div>
+
+        {busy && (busy === 'gif' || busy === 'webm') && (
+          <div className="h-1.5 bg-gray-100 rounded overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${progress * 100}%` }} />
+          </div>
+        )}
+        {busy === 'webm' && (
+          <div className="text-xs text-gray-400">Video is recorded in real time.</div>
+        )}
+
+        {error && (
+          <div className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100">
+            ⚠️ {error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
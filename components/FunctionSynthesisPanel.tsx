@@ -0,0 +1,104 @@
+import React from 'react';
+import { FunctionSynthesisSpec, FunctionSynthesisResult } from '../types';
+import { TARGET_FUNCTIONS } from '../services/synthesis';
+import { getGrashofType, toDegrees, toRadians } from '../services/kinematics';
+import NumberField from './NumberField';
+import LineChart, { formatTick } from './LineChart';
+
+interface FunctionSynthesisPanelProps {
+  spec: FunctionSynthesisSpec;
+  result: FunctionSynthesisResult;
+  onChange: (spec: FunctionSynthesisSpec) => void;
+  onApply: (result: FunctionSynthesisResult) => void;
+  onClose: () => void;
+}
+
+const FunctionSynthesisPanel: React.FC<FunctionSynthesisPanelProps> = ({ spec, result, onChange, onApply, onClose }) => {
+  const update = (key: keyof FunctionSynthesisSpec, value: number | string) => {
+    onChange({ ...spec, [key]: value });
+  };
+
+  const xSpan = spec.xEnd - spec.xStart;
+  const errorSegments = [result.structuralError.filter(s => !isNaN(s.error)).map(s => ({ x: s.x, y: s.error }))];
+
+  return (
+    <div className="bg-white/95 backdrop-blur-md p-4 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-xs font-bold text-gray-400 uppercase">Function Generation</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-700">Close</button>
+      </div>
+
+      <label className="flex flex-col text-xs text-gray-500 mb-2">
+        Target Function
+        <select
+          value={spec.functionId}
+          onChange={(e) => update('functionId', e.target.value)}
+          className="mt-0.5 text-sm text-gray-800 border border-gray-200 rounded px-1.5 py-1"
+        >
+          {Object.entries(TARGET_FUNCTIONS).map(([id, fn]) => (
+            <option key={id} value={id}>{fn.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <NumberField label="x start" value={spec.xStart} onChange={(v) => update('xStart', v)} />
+        <NumberField label="x end" value={spec.xEnd} onChange={(v) => update('xEnd', v)} />
+        <NumberField label="θ2 start (°)" value={toDegrees(spec.theta2Start)} onChange={(v) => update('theta2Start', toRadians(v))} />
+        <NumberField label="Δθ2 (°)" value={toDegrees(spec.theta2Range)} onChange={(v) => update('theta2Range', toRadians(v))} />
+        <NumberField label="θ4 start (°)" value={toDegrees(spec.theta4Start)} onChange={(v) => update('theta4Start', toRadians(v))} />
+        <NumberField label="Δθ4 (°)" value={toDegrees(spec.theta4Range)} onChange={(v) => update('theta4Range', toRadians(v))} />
+        <NumberField label="Ground r1" value={spec.r1} onChange={(v) => update('r1', v)} />
+      </div>
+
+      <div className="text-xs text-gray-400 mb-3">
+        Chebyshev precision points: x = {result.precisionX.map(x => x.toFixed(3)).join(', ')}
+      </div>
+
+      <div className="pt-3 border-t border-gray-100">
+        {result.isValid && result.config ? (
+          <>
+            <div className="grid grid-cols-2 gap-x-4 text-xs font-mono text-gray-600 mb-2">
+              <span>r1 = {result.config.r1.toFixed(1)}</span>
+              <span>r2 = {result.config.r2.toFixed(1)}</span>
+              <span>r3 = {result.config.r3.toFixed(1)}</span>
+              <span>r4 = {result.config.r4.toFixed(1)}</span>
+            </div>
+            <div className="text-sm font-bold text-indigo-600 mb-2">{getGrashofType(result.config)}</div>
+
+            <LineChart
+              title="Structural Error"
+              series={[{ label: 'Δθ4', color: '#ef4444', segments: errorSegments }]}
+              xDomain={[spec.xStart, spec.xEnd]}
+              xTickStep={xSpan > 0 ? xSpan / 4 : 1}
+              xTickFormat={formatTick}
+              unit="°"
+            />
+            {isNaN(result.maxError) ? (
+              <div className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 my-2">
+                ⚠️ The linkage cannot be assembled over the whole range (branch defect).
+              </div>
+            ) : (
+              <div className="text-xs text-gray-600 my-2">
+                Max structural error: <strong>{result.maxError.toFixed(3)}°</strong>
+              </div>
+            )}
+
+            <button
+              onClick={() => onApply(result)}
+              className="w-full py-2 px-4 rounded font-semibold bg-blue-600 text-white hover:bg-blue-700 shadow-md"
+            >
+              Load Into Analysis
+            </button>
+          </>
+        ) : (
+          <div className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100">
+            ⚠️ {result.error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FunctionSynthesisPanel;
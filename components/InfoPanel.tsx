@@ -1,13 +1,51 @@
 import React from 'react';
-import { MechanismState, GrashofType, LimitAnalysis } from '../types';
-import { toDegrees } from '../services/kinematics';
+import {
+  MechanismConfig, MechanismState, MechanismClass, GrashofType, SliderCrankType, LimitAnalysis, MotionState, Point,
+  CircuitAnalysis, ForceAnalysis, DynamicState, DyadLimitAnalysis, SpecialGeometry, UnitSettings, SnapshotComparison
+} from '../types';
+import { toDegrees, getTolerances } from '../services/kinematics';
+import { getMechanism } from '../services/mechanisms';
+import { TrackedSolution } from '../services/branchTracking';
+import { LENGTH_UNITS, formatLength } from '../services/units';
 
 interface InfoPanelProps {
+  config: MechanismConfig;
   state: MechanismState;
-  grashofType: GrashofType;
+  units: UnitSettings;
+  mechanismClass: MechanismClass;
+  specialGeometry: SpecialGeometry | null;
   limits: LimitAnalysis;
+  dyadLimits: DyadLimitAnalysis | null;
+  motion: MotionState;
+  circuits: CircuitAnalysis;
+  tracking: TrackedSolution;
+  forces: ForceAnalysis;
+  dynamics: DynamicState;
+  comparisons: SnapshotComparison[]; // Pinned snapshots whose limits are diffed against the design
 }
 
+const magnitude = (p: Point) => Math.hypot(p.x, p.y);
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+const SPECIAL_GEOMETRY_NOTES: Record<SpecialGeometry, string> = {
+  'change-point': 'Change-point: the links can all line up, where the branches meet and the output may flip',
+  parallelogram: 'Parallelogram: opposite links equal, the coupler stays parallel to the ground',
+  antiparallelogram: 'Antiparallelogram: opposite links equal, on the crossed circuit',
+  deltoid: 'Deltoid (kite): adjacent links equal, the output may flip where they fold together'
+};
+
+// Limits compared between the design and its snapshots; null where a design has no such limit
+const COMPARE_ROWS: { label: string; value: (limits: LimitAnalysis) => number | null; kind: 'angle' | 'length' | 'ratio' }[] = [
+  { label: 'Output min', value: l => (l.hasRockerLimits ? l.rockerMin : null), kind: 'angle' },
+  { label: 'Output max', value: l => (l.hasRockerLimits ? l.rockerMax : null), kind: 'angle' },
+  { label: 'Stroke', value: l => (l.hasStrokeLimits ? l.strokeMax - l.strokeMin : null), kind: 'length' },
+  { label: 'Crank range', value: l => (l.hasCrankLimits ? l.crankMax - l.crankMin : 360), kind: 'angle' },
+  { label: 'μ min', value: l => l.transmissionMin, kind: 'angle' },
+  { label: 'μ max', value: l => l.transmissionMax, kind: 'angle' },
+  { label: 'Q', value: l => (l.hasTimeRatio ? l.timeRatio : null), kind: 'ratio' }
+];
+
 const DataCard: React.FC<{ label: string; value: string | number; unit?: string; alert?: boolean; good?: boolean; subtext?: string }> = ({ 
   label, value, unit, alert, good, subtext
 }) => (
@@ -24,29 +62,122 @@ const DataCard: React.FC<{ label: string; value: string | number; unit?: string;
   </div>
 );
 
-const InfoPanel: React.FC<InfoPanelProps> = ({ state, grashofType, limits }) => {
+const InfoPanel: React.FC<InfoPanelProps> = ({
+  config, state, units, mechanismClass, specialGeometry, limits, dyadLimits, motion, circuits, tracking, forces, dynamics, comparisons
+}) => {
+  const mechanism = getMechanism(config);
+  const length = (mm: number) => formatLength(mm, units.length, false);
+  const lengthUnit = LENGTH_UNITS[units.length].label;
+  const outputName = capitalize(mechanism.outputLink);
+  const isSlide = mechanism.output === 'slide';
+  // A slider moves along theta4 without turning, so its speed is vB along the slide
+  const slideVelocity = motion.vB.x * Math.cos(state.theta4) + motion.vB.y * Math.sin(state.theta4);
+  const slideAcceleration = motion.aB.x * Math.cos(state.theta4) + motion.aB.y * Math.sin(state.theta4);
   const transAngleDeg = toDegrees(state.transmissionAngle);
   // Ideally between 40 and 140 degrees (generalized rule of thumb)
   const isTransBad = transAngleDeg < 30 || transAngleDeg > 150;
   const isTransOptimal = transAngleDeg > 80 && transAngleDeg < 100;
 
+  const formatCompared = (value: number | null, kind: 'angle' | 'length' | 'ratio', signed = false) => {
+    if (value === null || !isFinite(value)) return '—';
+    const sign = signed && value > 0 ? '+' : '';
+    if (kind === 'length') return `${sign}${length(value)}`;
+    return kind === 'angle' ? `${sign}${value.toFixed(1)}°` : `${sign}${value.toFixed(3)}`;
+  };
+  const compareRows = COMPARE_ROWS.filter(row => [limits, ...comparisons.map(c => c.limits)].some(l => row.value(l) !== null));
+
   return (
     <div className="absolute bottom-6 right-6 flex flex-col gap-4 pointer-events-none max-w-xs w-full z-20">
-        {/* Grashof Type Badge */}
+        {/* Grashof / Slider-Crank Type Badge */}
         <div className="bg-white/95 backdrop-blur-md p-4 rounded-xl shadow-lg border border-gray-200 pointer-events-auto">
             <h3 className="text-xs font-bold text-gray-400 uppercase mb-2">Mechanism Type</h3>
             <div className={`text-lg font-bold ${
-                grashofType === GrashofType.INVALID ? 'text-red-500' : 'text-indigo-600'
+                mechanismClass === GrashofType.INVALID || mechanismClass === SliderCrankType.INVALID ? 'text-red-500' : 'text-indigo-600'
             }`}>
-                {grashofType}
+                {mechanismClass}
             </div>
+            <div className="text-xs text-gray-400">{mechanism.label}</div>
+            {specialGeometry && (
+                <div className="mt-2 text-xs text-violet-700 bg-violet-50 p-2 rounded border border-violet-100">
+                    {SPECIAL_GEOMETRY_NOTES[specialGeometry]}
+                </div>
+            )}
              {!state.isValid && (
                 <div className="mt-2 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100">
-                    ⚠️ Invalid Configuration
+                    ⚠️ {state.condition === 'indeterminate'
+                        ? `Indeterminate: the ${mechanism.outputLink} can take any angle with the crank on its pivot`
+                        : 'Invalid Configuration'}
+                </div>
+            )}
+            {state.condition === 'near-singular' && (
+                <div className="mt-2 text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100">
+                    ⚠️ Near-singular: within {getTolerances(config).nearSingular}° of a toggle
+                </div>
+            )}
+            <div className="mt-2 text-xs text-gray-500">
+                {circuits.circuits} circuit{circuits.circuits > 1 ? 's' : ''} · {circuits.branchesPerCircuit} branch{circuits.branchesPerCircuit > 1 ? 'es' : ''} per circuit
+                {state.isValid && <> · on <strong>{state.branch === 1 ? 'Open' : 'Crossed'}</strong> branch</>}
+            </div>
+            {circuits.toggleAngles.length > 0 && (
+                <div className="text-xs text-gray-400">
+                    Input toggles at {circuits.toggleAngles.map(a => `${a.toFixed(1)}°`).join(', ')}
+                </div>
+            )}
+            {tracking.lastEvent && (
+                <div className="mt-2 text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100">
+                    ⚠️ {tracking.lastEvent.type} at θ2 = {toDegrees(tracking.lastEvent.theta2).toFixed(1)}°
+                    <span className="text-amber-500"> ({tracking.branchDefects} branch, {tracking.circuitDefects} circuit)</span>
                 </div>
             )}
         </div>
 
+        {/* Snapshot Comparison */}
+        {comparisons.length > 0 && (
+            <div className="bg-white/95 backdrop-blur-md p-4 rounded-xl shadow-lg border border-gray-200 pointer-events-auto overflow-x-auto custom-scrollbar">
+                <h3 className="text-xs font-bold text-gray-400 uppercase mb-2">Snapshot Comparison</h3>
+                <table className="w-full text-xs font-mono text-gray-600">
+                    <thead>
+                        <tr className="text-left">
+                            <th className="font-normal"></th>
+                            <th className="font-normal text-gray-400 font-sans">Current</th>
+                            {comparisons.map(({ snapshot }) => (
+                                <th key={snapshot.id} className="font-semibold font-sans" style={{ color: snapshot.color }}>{snapshot.name}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        <tr className="align-top">
+                            <td className="text-gray-500 font-sans">Type</td>
+                            <td className="font-sans">{mechanismClass}</td>
+                            {comparisons.map(c => <td key={c.snapshot.id} className="font-sans">{c.mechanismClass}</td>)}
+                        </tr>
+                        {compareRows.map(row => {
+                            const current = row.value(limits);
+                            return (
+                                <tr key={row.label} className="align-top">
+                                    <td className="text-gray-500 font-sans">{row.label}</td>
+                                    <td>{formatCompared(current, row.kind)}</td>
+                                    {comparisons.map(c => {
+                                        const value = row.value(c.limits);
+                                        const delta = value !== null && current !== null ? value - current : null;
+                                        return (
+                                            <td key={c.snapshot.id}>
+                                                {formatCompared(value, row.kind)}
+                                                {delta !== null && isFinite(delta) && Math.abs(delta) > 1e-9 && (
+                                                    <div className="text-gray-400">{formatCompared(delta, row.kind, true)}</div>
+                                                )}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                <div className="text-xs text-gray-400 mt-1">Gray figures are snapshot − current.</div>
+            </div>
+        )}
+
         {/* Stats Grid */}
         <div className="bg-white/95 backdrop-blur-md p-4 rounded-xl shadow-lg border border-gray-200 pointer-events-auto grid grid-cols-2 gap-3 max-h-80 overflow-y-auto custom-scrollbar">
              <DataCard 
@@ -54,11 +185,19 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ state, grashofType, limits }) =>
                 value={toDegrees(state.theta2).toFixed(1)} 
                 unit="°" 
             />
-            <DataCard 
-                label="θ4 (Output)" 
-                value={toDegrees(state.theta4).toFixed(1)} 
-                unit="°" 
-            />
+            {isSlide ? (
+                <DataCard 
+                    label="s (Slider)" 
+                    value={length(state.sliderPosition ?? 0)} 
+                    unit={lengthUnit} 
+                />
+            ) : (
+                <DataCard 
+                    label="θ4 (Output)" 
+                    value={toDegrees(state.theta4).toFixed(1)} 
+                    unit="°" 
+                />
+            )}
             
             <DataCard 
                 label="Transm. Angle (μ)" 
@@ -66,6 +205,7 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ state, grashofType, limits }) =>
                 unit="°"
                 alert={isTransBad}
                 good={isTransOptimal}
+                subtext={state.isValid ? `${Math.abs(Math.sin(state.transmissionAngle) * 100).toFixed(0)}% of coupler force drives ${mechanism.outputLink}` : undefined}
             />
              <DataCard 
                 label="θ3 (Coupler)" 
@@ -73,27 +213,225 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ state, grashofType, limits }) =>
                 unit="°" 
             />
 
+            {/* Six-Bar Second Loop Section */}
+            {config.dyad && state.dyad && dyadLimits && (
+                <>
+                    <div className="col-span-2 mt-2 pt-3 border-t border-gray-100">
+                        <h4 className="text-xs font-bold text-gray-400 uppercase mb-2">
+                            Second Loop ({config.dyad.attachment === 'coupler' ? 'Stephenson III' : 'Watt II'})
+                        </h4>
+                    </div>
+                    {state.dyad.isValid ? (
+                        <>
+                            <DataCard label="θ6 (Output)" value={toDegrees(state.dyad.theta6).toFixed(1)} unit="°" />
+                            <DataCard
+                                label="Transm. Angle (μ₂)"
+                                value={toDegrees(state.dyad.transmissionAngle).toFixed(1)}
+                                unit="°"
+                                alert={toDegrees(state.dyad.transmissionAngle) < 30 || toDegrees(state.dyad.transmissionAngle) > 150}
+                                subtext={state.dyad.condition === 'near-singular' ? 'Near-singular: links 5 and 6 almost in line' : 'Between links 5 and 6'}
+                            />
+                        </>
+                    ) : (
+                        <div className="col-span-2 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100">
+                            ⚠️ {state.dyad.condition === 'indeterminate'
+                                ? 'Indeterminate: C sits on O6 with links 5 and 6 equal'
+                                : 'The second loop cannot close at this position'}
+                        </div>
+                    )}
+                    {dyadLimits.hasOutputLimits ? (
+                        <>
+                            <DataCard label="Output Min" value={dyadLimits.outputMin.toFixed(1)} unit="°" />
+                            <DataCard label="Output Max" value={dyadLimits.outputMax.toFixed(1)} unit="°" subtext={`Swing ${(dyadLimits.outputMax - dyadLimits.outputMin).toFixed(1)}°`} />
+                        </>
+                    ) : dyadLimits.assembledFraction > 0 && (
+                        <div className="col-span-2 text-xs text-gray-400 italic text-center py-2">
+                            Output rotates fully (No limits)
+                        </div>
+                    )}
+                    {dyadLimits.assembledFraction > 0 && (
+                        <>
+                            <DataCard label="μ₂ Min" value={dyadLimits.transmissionMin.toFixed(1)} unit="°" alert={dyadLimits.transmissionMin < 30} />
+                            <DataCard label="μ₂ Max" value={dyadLimits.transmissionMax.toFixed(1)} unit="°" alert={dyadLimits.transmissionMax > 150} />
+                        </>
+                    )}
+                    {dyadLimits.assembledFraction < 1 && (
+                        <div className="col-span-2 text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100">
+                            ⚠️ The second loop closes over only {(dyadLimits.assembledFraction * 100).toFixed(0)}% of the input's range
+                        </div>
+                    )}
+                </>
+            )}
+
+            {/* Velocity & Acceleration Section */}
+            <div className="col-span-2 mt-2 pt-3 border-t border-gray-100">
+                <h4 className="text-xs font-bold text-gray-400 uppercase mb-2">
+                    Velocity &amp; Acceleration (ω₂ = {motion.omega2.toFixed(1)} rad/s)
+                </h4>
+            </div>
+
+            {motion.isValid ? (
+                <>
+                    <DataCard label="ω3 (Coupler)" value={motion.omega3.toFixed(3)} unit="rad/s" />
+                    {isSlide
+                        ? <DataCard label="v (Slider)" value={length(slideVelocity)} unit={`${lengthUnit}/s`} />
+                        : <DataCard label="ω4 (Output)" value={motion.omega4.toFixed(3)} unit="rad/s" />}
+                    <DataCard label="α3 (Coupler)" value={motion.alpha3.toFixed(3)} unit="rad/s²" />
+                    {isSlide
+                        ? <DataCard label="a (Slider)" value={length(slideAcceleration)} unit={`${lengthUnit}/s²`} />
+                        : <DataCard label="α4 (Output)" value={motion.alpha4.toFixed(3)} unit="rad/s²" />}
+                    <DataCard label="|vA|" value={length(magnitude(motion.vA))} unit={`${lengthUnit}/s`} />
+                    <DataCard label="|vB|" value={length(magnitude(motion.vB))} unit={`${lengthUnit}/s`} />
+                    <DataCard label="|aA|" value={length(magnitude(motion.aA))} unit={`${lengthUnit}/s²`} />
+                    <DataCard label="|aB|" value={length(magnitude(motion.aB))} unit={`${lengthUnit}/s²`} />
+                </>
+            ) : (
+                <div className="col-span-2 text-xs text-gray-400 italic text-center py-2">
+                    Undefined at this position (unassembled or toggle)
+                </div>
+            )}
+
+            {/* Static Force Section */}
+            <div className="col-span-2 mt-2 pt-3 border-t border-gray-100">
+                <h4 className="text-xs font-bold text-gray-400 uppercase mb-2">Static Forces</h4>
+            </div>
+
+            {forces.isValid ? (
+                <>
+                    <div className="col-span-2">
+                        <DataCard label="Input Torque (T2)" value={forces.inputTorque.toFixed(1)} unit="N·mm" />
+                    </div>
+                    <DataCard label="|F| at O2" value={magnitude(forces.pinForces.O2).toFixed(1)} unit="N" />
+                    <DataCard label="|F| at A" value={magnitude(forces.pinForces.A).toFixed(1)} unit="N" />
+                    <DataCard label="|F| at B" value={magnitude(forces.pinForces.B).toFixed(1)} unit="N" />
+                    <DataCard label="|F| at O4" value={magnitude(forces.pinForces.O4).toFixed(1)} unit="N" />
+                </>
+            ) : (
+                <div className="col-span-2 text-xs text-gray-400 italic text-center py-2">
+                    {forces.error}
+                </div>
+            )}
+            {state.isValid && (
+                <div className={`col-span-2 text-xs p-2 rounded border ${
+                    isTransBad ? 'text-red-600 bg-red-50 border-red-100' : 'text-gray-500 bg-gray-50 border-gray-100'
+                }`}>
+                    The coupler pushes on the {mechanism.outputLink}; only the share sin μ of that push drives
+                    the {mechanism.outputLink}, the rest just loads the joints. Below 30° or above 150° the joint forces needed for a given
+                    output load grow quickly, and friction can lock the linkage.
+                </div>
+            )}
+
+            {/* Inverse Dynamics Section */}
+            <div className="col-span-2 mt-2 pt-3 border-t border-gray-100">
+                <h4 className="text-xs font-bold text-gray-400 uppercase mb-2">
+                    Dynamics (constant ω₂ = {motion.omega2.toFixed(1)} rad/s)
+                </h4>
+            </div>
+
+            {dynamics.isValid ? (
+                <>
+                    <div className="col-span-2">
+                        <DataCard label="Driving Torque" value={dynamics.drivingTorque.toFixed(1)} unit="N·mm" subtext="Inertia + external load" />
+                    </div>
+                    <DataCard label="|Shaking Force|" value={magnitude(dynamics.shakingForce).toFixed(2)} unit="N" />
+                    <DataCard label="Shaking Moment" value={dynamics.shakingMoment.toFixed(1)} unit="N·mm" subtext="About O2" />
+                </>
+            ) : (
+                <div className="col-span-2 text-xs text-gray-400 italic text-center py-2">
+                    {dynamics.error}
+                </div>
+            )}
+
             {/* Limit Analysis Section */}
             <div className="col-span-2 mt-2 pt-3 border-t border-gray-100">
                 <h4 className="text-xs font-bold text-gray-400 uppercase mb-2">Limit Analysis</h4>
             </div>
 
-            {limits.hasRockerLimits ? (
+            {isSlide ? (
+                limits.hasStrokeLimits ? (
+                    <>
+                        <DataCard 
+                            label="Stroke Min" 
+                            value={length(limits.strokeMin)} 
+                            unit={lengthUnit} 
+                            subtext="Dead centre"
+                        />
+                        <DataCard 
+                            label="Stroke Max" 
+                            value={length(limits.strokeMax)} 
+                            unit={lengthUnit} 
+                            subtext={`Stroke ${formatLength(limits.strokeMax - limits.strokeMin, units.length)}`}
+                        />
+                    </>
+                ) : (
+                    <div className="col-span-2 text-xs text-gray-400 italic text-center py-2">
+                        No dead centres (rod shorter than crank)
+                    </div>
+                )
+            ) : limits.hasRockerLimits ? (
                 <>
                     <DataCard 
-                        label="Rocker Min" 
+                        label={`${outputName} Min`} 
                         value={limits.rockerMin.toFixed(1)} 
                         unit="°" 
                     />
                     <DataCard 
-                        label="Rocker Max" 
-                        value={limits.rockerMax.toFixed(1)} 
+                        label={`${outputName} Max`} 
+                        value={(limits.rockerMax % 360).toFixed(1)} 
+                        unit="°" 
+                        subtext={`Swing ${(limits.rockerMax - limits.rockerMin).toFixed(1)}°`}
+                    />
+                </>
+            ) : (
+                <div className="col-span-2 text-xs text-gray-400 italic text-center py-2">
+                    {outputName} rotates fully (No limits)
+                </div>
+            )}
+
+            {limits.hasTimeRatio && (
+                <>
+                    <DataCard 
+                        label="Forward Sweep" 
+                        value={limits.forwardSweep.toFixed(1)} 
+                        unit="°" 
+                        subtext="Extended → folded (CCW)"
+                    />
+                    <DataCard 
+                        label="Return Sweep" 
+                        value={limits.returnSweep.toFixed(1)} 
+                        unit="°" 
+                        subtext="Folded → extended (CCW)"
+                    />
+                    <DataCard 
+                        label="Time Ratio (Q)" 
+                        value={limits.timeRatio.toFixed(3)} 
+                    />
+                    <DataCard 
+                        label="Imbalance (δ)" 
+                        value={limits.imbalanceAngle.toFixed(1)} 
+                        unit="°" 
+                    />
+                </>
+            )}
+
+            {limits.hasCrankLimits ? (
+                <>
+                    <DataCard 
+                        label="Crank Min" 
+                        value={limits.crankMin.toFixed(1)} 
+                        unit="°" 
+                        subtext={`Coupler-${outputName} toggle`}
+                    />
+                    <DataCard 
+                        label="Crank Max" 
+                        value={limits.crankMax.toFixed(1)} 
                         unit="°" 
+                        subtext={`Coupler-${outputName} toggle`}
                     />
                 </>
             ) : (
                 <div className="col-span-2 text-xs text-gray-400 italic text-center py-2">
-                    Rocker rotates fully (No limits)
+                    Crank rotates fully (No limits)
                 </div>
             )}
 
@@ -0,0 +1,156 @@
+import React, { useRef } from 'react';
+import { Point } from '../types';
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  segments: Point[][]; // Separate polylines; gaps are left where the data is undefined
+  current?: number; // Value at the cursor, shown in the legend
+}
+
+interface LineChartProps {
+  title: string;
+  series: ChartSeries[];
+  xDomain: [number, number];
+  yDomain?: [number, number]; // Defaults to the extent of the data
+  xTickStep?: number;
+  xTickFormat?: (x: number) => string; // Defaults to angles wrapped into [0, 360)
+  cursorX?: number;
+  unit?: string;
+  onSelectX?: (x: number) => void;
+}
+
+const WIDTH = 400;
+const HEIGHT = 170;
+const MARGIN = { top: 10, right: 12, bottom: 22, left: 44 };
+
+/**
+ * Picks roughly `count` round tick values covering [min, max]
+ */
+const niceTicks = (min: number, max: number, count: number): number[] => {
+  const span = max - min;
+  if (!(span > 0)) return [min];
+  const rawStep = span / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const residual = rawStep / magnitude;
+  const step = (residual > 5 ? 10 : residual > 2 ? 5 : residual > 1 ? 2 : 1) * magnitude;
+  const ticks: number[] = [];
+  for (let t = Math.ceil(min / step) * step; t <= max + step * 1e-6; t += step) {
+    ticks.push(Math.abs(t) < step * 1e-6 ? 0 : t);
+  }
+  return ticks;
+};
+
+export const formatTick = (value: number) => {
+  if (Math.abs(value) >= 1000) return value.toExponential(0);
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2).replace(/0+$/, '');
+};
+
+const LineChart: React.FC<LineChartProps> = ({
+  title, series, xDomain, yDomain, xTickStep = 90, xTickFormat, cursorX, unit, onSelectX
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  let [yMin, yMax] = yDomain ?? [Infinity, -Infinity];
+  if (!yDomain) {
+    series.forEach(s => s.segments.forEach(seg => seg.forEach(p => {
+      if (p.y < yMin) yMin = p.y;
+      if (p.y > yMax) yMax = p.y;
+    })));
+  }
+  if (!isFinite(yMin) || !isFinite(yMax)) {
+    yMin = 0;
+    yMax = 1;
+  }
+  if (yMax - yMin < 1e-9) {
+    yMin -= 1;
+    yMax += 1;
+  }
+
+  const plotW = WIDTH - MARGIN.left - MARGIN.right;
+  const plotH = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const [xMin, xMax] = xDomain;
+  const sx = (x: number) => MARGIN.left + ((x - xMin) / (xMax - xMin || 1)) * plotW;
+  const sy = (y: number) => MARGIN.top + (1 - (y - yMin) / (yMax - yMin)) * plotH;
+
+  const xTicks: number[] = [];
+  for (let t = Math.ceil(xMin / xTickStep) * xTickStep; t <= xMax + xTickStep * 1e-6; t += xTickStep) xTicks.push(t);
+  const yTicks = niceTicks(yMin, yMax, 4);
+  const clipId = `clip-${title.replace(/\W/g, '')}`;
+
+  // Convert a pointer position into a data x value
+  const handlePointer = (e: React.PointerEvent) => {
+    if (!onSelectX || !svgRef.current || (e.type === 'pointermove' && e.buttons !== 1)) return;
+    const ctm = svgRef.current.getScreenCTM();
+    if (!ctm) return;
+    const pt = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    const x = xMin + ((pt.x - MARGIN.left) / plotW) * (xMax - xMin);
+    onSelectX(Math.max(xMin, Math.min(xMax, x)));
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-100 p-2">
+      <div className="flex flex-wrap items-baseline gap-x-3 mb-1">
+        <span className="text-xs font-bold text-gray-500 uppercase">{title}</span>
+        {series.map(s => (
+          <span key={s.label} className="text-xs font-mono" style={{ color: s.color }}>
+            {s.label}{s.current !== undefined && isFinite(s.current) ? ` = ${s.current.toFixed(2)}${unit ?? ''}` : ''}
+          </span>
+        ))}
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className={`w-full block select-none ${onSelectX ? 'cursor-crosshair' : ''}`}
+        onPointerDown={handlePointer}
+        onPointerMove={handlePointer}
+      >
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={MARGIN.left} y={MARGIN.top} width={plotW} height={plotH} />
+          </clipPath>
+        </defs>
+
+        {/* Grid & Axes */}
+        <g fontSize="10" fill="#94a3b8">
+          {yTicks.map(t => (
+            <g key={`y${t}`}>
+              <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={sy(t)} y2={sy(t)} stroke="#f1f5f9" />
+              <text x={MARGIN.left - 4} y={sy(t) + 3} textAnchor="end">{formatTick(t)}</text>
+            </g>
+          ))}
+          {xTicks.map(t => (
+            <g key={`x${t}`}>
+              <line x1={sx(t)} x2={sx(t)} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom} stroke="#f1f5f9" />
+              <text x={sx(t)} y={HEIGHT - 6} textAnchor="middle">
+                {xTickFormat ? xTickFormat(t) : formatTick(((t % 360) + 360) % 360)}
+              </text>
+            </g>
+          ))}
+          <rect x={MARGIN.left} y={MARGIN.top} width={plotW} height={plotH} fill="none" stroke="#e2e8f0" />
+        </g>
+
+        {/* Data */}
+        <g clipPath={`url(#${clipId})`} fill="none" strokeWidth="1.5">
+          {series.map(s => s.segments.map((seg, idx) => (
+            <polyline
+              key={`${s.label}-${idx}`}
+              points={seg.map(p => `${sx(p.x)},${sy(p.y)}`).join(' ')}
+              stroke={s.color}
+            />
+          )))}
+        </g>
+
+        {/* Cursor */}
+        {cursorX !== undefined && cursorX >= xMin && cursorX <= xMax && (
+          <line
+            x1={sx(cursorX)} x2={sx(cursorX)} y1={MARGIN.top} y2={HEIGHT - MARGIN.bottom}
+            stroke="#0f172a" strokeWidth="1" strokeDasharray="3 3"
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export default LineChart;
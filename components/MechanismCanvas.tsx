@@ -1,19 +1,91 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { MechanismConfig, MechanismState, LimitAnalysis } from '../types';
-import { solveInverseTheta2 } from '../services/kinematics';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import {
+  MechanismConfig, MechanismState, LimitAnalysis, MotionState, Point, MotionSynthesisSpec, MotionSynthesisResult, ViewState,
+  ExternalLoad, DyadLimitAnalysis, UnitSettings, DesignSnapshot, SweptEnvelope, SweptLinkId, LinkConstraints
+} from '../types';
+import { groundFromPivots, calculateCouplerPoint, distance, toRadians, toDegrees, getMechanismType } from '../services/kinematics';
+import { traceCouplerCurves, traceSweptEnvelope } from '../services/cycle';
+import { getMechanism, solveMechanism } from '../services/mechanisms';
+import { applyLinkEdit, NO_CONSTRAINTS } from '../services/constraints';
+import { findInstantCenters, traceCentrodes } from '../services/instantCenters';
+import { COUPLER_POINT_COLORS } from '../services/svgRenderer';
+import { LENGTH_UNITS, fromDisplayLength, scaleBarLength, formatLength } from '../services/units';
+import { zoomAt, fitView, motionEnvelopeBounds, snapAngle, includedAngle } from '../services/viewport';
 
 interface MechanismCanvasProps {
   config: MechanismConfig;
   state: MechanismState;
   limits: LimitAnalysis;
+  dyadLimits: DyadLimitAnalysis | null; // Second loop of a six-bar
+  motion: MotionState;
   onTheta2Change: (theta2: number) => void;
+  onConfigChange: (config: MechanismConfig, continuous?: boolean) => void; // Drags are continuous edits
+  view: ViewState;
+  onViewChange: (view: ViewState) => void;
+  units: UnitSettings; // Unit of the scale bar
+  linkConstraints?: LinkConstraints; // Held when a ground pivot drag changes r1
+  load?: ExternalLoad; // Drawn as an arrow at its point of application
+  showInstantCenters?: boolean; // All six instant centers, with Kennedy's construction lines
+  showCentrodes?: boolean; // Fixed and moving centrodes of the coupler
+  showEnvelope?: boolean; // Area each link sweeps over a cycle, with its bounding box
+  snapshots?: DesignSnapshot[]; // Drawn as ghosts at the current crank angle
+  synthesis?: { spec: MotionSynthesisSpec; result: MotionSynthesisResult }; // Pose editing overlay
+  onSynthesisChange?: (spec: MotionSynthesisSpec) => void;
 }
 
-const MechanismCanvas: React.FC<MechanismCanvasProps> = ({ config, state, limits, onTheta2Change }) => {
+// Joints, ground pivots, a synthesis pose's position dot / orientation handle, or empty space to pan the view
+type DragTarget = 'A' | 'B' | 'O2' | 'O4' | 'O6' | 'pan' | { pose: number; handle: 'position' | 'angle' };
+
+// Velocity arrows are drawn as the distance travelled in this many seconds
+const VELOCITY_ARROW_SECONDS = 0.5;
+// Screen length of the orientation handle on synthesis poses
+const POSE_HANDLE_PX = 60;
+const POSE_COLOR = '#0891b2';
+// External load arrows have a fixed screen length; only the direction is to scale
+const LOAD_ARROW_PX = 50;
+const LOAD_COLOR = '#0f172a';
+// Instant centers and the coupler's centrodes
+const IC_COLOR = '#7c2d12';
+const FIXED_CENTRODE_COLOR = '#b45309';
+const MOVING_CENTRODE_COLOR = '#be185d';
+// Links 5 and 6 of a six-bar's second loop
+const DYAD_LINK_COLOR = '#0d9488';
+const DYAD_OUTPUT_COLOR = '#6366f1';
+// Screen size of slider blocks
+const BLOCK_LENGTH_PX = 32;
+const BLOCK_WIDTH_PX = 20;
+// Zoom factor per pixel of wheel travel, and per press of the zoom buttons
+const WHEEL_ZOOM_RATE = 0.0015;
+const BUTTON_ZOOM_FACTOR = 1.25;
+// Angle steps (degrees) dragged joints can snap to; 0 is off
+const SNAP_STEPS = [0, 1, 5, 15];
+// How close (px) a click must be to a joint or coupler point to pick it for measuring
+const MEASURE_PICK_PX = 14;
+const MEASURE_COLOR = '#111827';
+// Swept envelopes take their link's color
+const ENVELOPE_COLORS: Record<SweptLinkId, string> = {
+  crank: '#ef4444', coupler: '#22c55e', output: '#3b82f6', link5: DYAD_LINK_COLOR, link6: DYAD_OUTPUT_COLOR
+};
+
+const MechanismCanvas: React.FC<MechanismCanvasProps> = ({
+  config, state, limits, dyadLimits, motion, onTheta2Change, onConfigChange, view, onViewChange, units, linkConstraints = NO_CONSTRAINTS, load,
+  showInstantCenters, showCentrodes, showEnvelope, snapshots = [], synthesis, onSynthesisChange
+}) => {
   const svgRef = useRef<SVGSVGElement>(null);
-  const [dragging, setDragging] = useState<'A' | 'B' | null>(null);
-  const [pan, setPan] = useState({ x: 100, y: 300 }); // Initial Offset
-  const [zoom, setZoom] = useState(1);
+  const [dragging, setDragging] = useState<DragTarget | null>(null);
+  const [measuring, setMeasuring] = useState(false);
+  const [measured, setMeasured] = useState<string[]>([]); // Names of the picked points, in order
+  const [snapStep, setSnapStep] = useState(0);
+  // Where a pan drag started, on screen, and the pan at that moment
+  const panStartRef = useRef<{ pointer: Point; pan: Point } | null>(null);
+  // The wheel listener is attached once and reads the latest view through refs
+  const viewRef = useRef(view);
+  const onViewChangeRef = useRef(onViewChange);
+  viewRef.current = view;
+  onViewChangeRef.current = onViewChange;
+  const { pan, zoom } = view;
+  const barLength = scaleBarLength(zoom, units.length);
+  const barPx = fromDisplayLength(barLength, units.length) * zoom;
 
   // Coordinate transformation helpers
   // SVG Screen coords -> Mechanism World Coords
@@ -32,58 +104,178 @@ const MechanismCanvas: React.FC<MechanismCanvasProps> = ({ config, state, limits
     };
   };
 
-  const handlePointerDown = (joint: 'A' | 'B') => (e: React.PointerEvent) => {
+  const screenPoint = (e: { clientX: number; clientY: number }): Point | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : null;
+  };
+
+  // Joints and coupler points that can be picked for measuring, by label
+  const measurePoints = (): Record<string, Point> => {
+    const points: Record<string, Point> = { O2: state.O2 };
+    if (getMechanismType(config) !== 'slider-crank') points.O4 = state.O4;
+    if (state.isValid) {
+      points.A = state.A;
+      points.B = state.B;
+      state.couplerPoints.forEach((p, idx) => { points[`P${idx + 1}`] = p; });
+      if (state.dyad) {
+        points.C = state.dyad.C;
+        if (state.dyad.isValid) points.D = state.dyad.D;
+      }
+    }
+    if (config.dyad) points.O6 = config.dyad.O6;
+    return points;
+  };
+
+  const handlePointerDown = (joint: DragTarget) => (e: React.PointerEvent) => {
+    // While measuring, clicks fall through to the canvas, which picks the nearest point
+    if (measuring) return;
     e.currentTarget.setPointerCapture(e.pointerId);
     setDragging(joint);
     e.stopPropagation();
   };
 
+  // Empty space starts a pan, or picks the nearest point while measuring
+  const handleCanvasPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const mouse = screenPoint(e);
+    if (!mouse) return;
+    if (measuring) {
+      const nearest = Object.entries(measurePoints())
+        .map(([name, p]) => ({ name, d: distance(toScreen(p.x, p.y), mouse) }))
+        .reduce<{ name: string; d: number } | null>((best, c) => (!best || c.d < best.d ? c : best), null);
+      const picked = nearest && nearest.d <= MEASURE_PICK_PX ? nearest.name : null;
+      // A fourth pick starts a new measurement; a click on nothing clears it
+      setMeasured(picked === null ? [] : measured.length >= 3 ? [picked] : [...measured, picked]);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStartRef.current = { pointer: mouse, pan };
+    setDragging('pan');
+  };
+
+  // Snaps a dragged angle unless Shift is held
+  const snap = (angle: number, e: React.PointerEvent) => (e.shiftKey ? angle : snapAngle(angle, snapStep));
+
   const handlePointerMove = (e: React.PointerEvent) => {
     if (!dragging) return;
     
     // Get mouse position in world coordinates relative to the specific ground pivots
-    const rect = svgRef.current?.getBoundingClientRect();
-    if (!rect) return;
-    
-    const mouseX = e.clientX - rect.left;
-    const mouseY = e.clientY - rect.top;
-    const worldPos = toWorld(mouseX, mouseY);
-
-    if (dragging === 'A') {
-      // Driving Crank: Calculate angle relative to O2 (0,0)
-      const angle = Math.atan2(worldPos.y, worldPos.x);
-      onTheta2Change(angle);
+    const mouse = screenPoint(e);
+    if (!mouse) return;
+    const worldPos = toWorld(mouse.x, mouse.y);
+
+    if (dragging === 'pan') {
+      const start = panStartRef.current;
+      if (start) onViewChange({ ...view, pan: { x: start.pan.x + mouse.x - start.pointer.x, y: start.pan.y + mouse.y - start.pointer.y } });
+    } else if (dragging === 'A') {
+      // Driving Crank: Calculate angle relative to O2
+      const angle = Math.atan2(worldPos.y - state.O2.y, worldPos.x - state.O2.x);
+      onTheta2Change(snap(angle, e));
     } else if (dragging === 'B') {
-      // Driving Rocker: Calculate angle relative to O4 (r1, 0)
-      const angleT4 = Math.atan2(worldPos.y, worldPos.x - config.r1);
-      
-      // Inverse Kinematics to find corresponding theta2
-      const newTheta2 = solveInverseTheta2(config, angleT4);
+      // Driving the output: each mechanism type inverts its own kinematics,
+      // staying on the current circuit by taking the crank angle closest to the present one.
+      // An output that turns about O4 snaps its angle there; a slider's position is left alone.
+      const mechanism = getMechanism(config);
+      let target = worldPos;
+      if (mechanism.output === 'angle') {
+        const angle = snap(Math.atan2(worldPos.y - state.O4.y, worldPos.x - state.O4.x), e);
+        const reach = distance(worldPos, state.O4);
+        target = { x: state.O4.x + reach * Math.cos(angle), y: state.O4.y + reach * Math.sin(angle) };
+      }
+      const newTheta2 = mechanism.dragOutput(config, state, target);
       if (newTheta2 !== null && !isNaN(newTheta2)) {
         onTheta2Change(newTheta2);
       }
+    } else if (dragging === 'O2' && getMechanismType(config) === 'slider-crank') {
+      // A slider-crank's O4 is only the guide's origin, so the slide keeps its direction and offset
+      onConfigChange({ ...config, O2: worldPos }, true);
+    } else if (dragging === 'O2' || dragging === 'O4') {
+      // Moving a ground pivot re-derives r1 and the ground angle; the other pivot stays put.
+      // A locked r1 keeps the dragged pivot at its distance, so the drag only turns the ground line.
+      const fixed = dragging === 'O2' ? state.O4 : state.O2;
+      const reach = distance(worldPos, fixed);
+      if (reach === 0) return;
+      const moved = linkConstraints.locked.includes('r1')
+        ? { x: fixed.x + (config.r1 * (worldPos.x - fixed.x)) / reach, y: fixed.y + (config.r1 * (worldPos.y - fixed.y)) / reach }
+        : worldPos;
+      const ground = dragging === 'O2' ? groundFromPivots(moved, fixed) : groundFromPivots(fixed, moved);
+      if (linkConstraints.locked.includes('r1')) {
+        onConfigChange({ ...config, ...ground, r1: config.r1 }, true);
+      } else {
+        // The new r1 goes through the held ratio and Grashof sum like a typed length; a drag they cannot follow is ignored
+        const result = applyLinkEdit({ ...config, O2: ground.O2, groundAngle: ground.groundAngle }, 'r1', ground.r1, linkConstraints);
+        if (result.isValid && result.config) onConfigChange(result.config, true);
+      }
+    } else if (dragging === 'O6' && config.dyad) {
+      onConfigChange({ ...config, dyad: { ...config.dyad, O6: worldPos } }, true);
+    } else if (synthesis && onSynthesisChange) {
+      // Moving a synthesis pose or turning it by its handle
+      const { spec } = synthesis;
+      const poses = spec.poses.map((pose, idx) => {
+        if (idx !== dragging.pose) return pose;
+        if (dragging.handle === 'position') return { ...pose, position: worldPos };
+        return { ...pose, angle: Math.atan2(worldPos.y - pose.position.y, worldPos.x - pose.position.x) };
+      });
+      onSynthesisChange({ ...spec, poses });
     }
   };
 
   const handlePointerUp = (e: React.PointerEvent) => {
     setDragging(null);
+    panStartRef.current = null;
     e.currentTarget.releasePointerCapture(e.pointerId);
   };
 
-  // Wheel Zoom/Pan
-  const handleWheel = (e: React.WheelEvent) => {
-      if (e.ctrlKey) {
-          e.preventDefault();
-          setZoom(z => Math.max(0.1, Math.min(5, z - e.deltaY * 0.001)));
-      }
+  // Wheel zooms about the cursor. React's wheel listener is passive, so page scrolling
+  // can only be stopped from a native one.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const cursor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      onViewChangeRef.current(zoomAt(viewRef.current, cursor, Math.exp(-e.deltaY * WHEEL_ZOOM_RATE)));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const zoomAboutCenter = (factor: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (rect) onViewChange(zoomAt(view, { x: rect.width / 2, y: rect.height / 2 }, factor));
   };
 
+  // Frames everything the linkage sweeps through, so a design that has run off-screen comes back
+  const fitToView = () => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (rect) onViewChange(fitView(motionEnvelopeBounds(config, limits), rect.width, rect.height));
+  };
+
+  // Coupler curves only depend on the geometry, not on the current crank angle
+  const couplerCurves = useMemo(() => traceCouplerCurves(config), [config]);
+  const centrodes = useMemo(() => (showCentrodes ? traceCentrodes(config) : null), [config, showCentrodes]);
+  const envelope: SweptEnvelope | null = useMemo(
+    () => (showEnvelope ? traceSweptEnvelope(config, limits) : null),
+    [config, limits, showEnvelope]
+  );
+
+  const toPolyline = (points: Point[]) =>
+      points.map(p => {
+          const sp = toScreen(p.x, p.y);
+          return `${sp.x},${sp.y}`;
+      }).join(' ');
+
   // Render Helpers
   const sO2 = toScreen(state.O2.x, state.O2.y);
   const sO4 = toScreen(state.O4.x, state.O4.y);
   const sA = toScreen(state.A.x, state.A.y);
   const sB = toScreen(state.B.x, state.B.y);
 
+  // A slider-crank has no O4 pivot: B runs on a straight rail whose origin O4 marks
+  const mechanismType = getMechanismType(config);
+  const isSliderCrank = mechanismType === 'slider-crank';
+  const isInvertedSlider = mechanismType === 'inverted-slider-crank';
+
   // Render Limit Configuration Helper
   const renderGhostMechanism = (ghostState: MechanismState, color: string) => {
       const gA = toScreen(ghostState.A.x, ghostState.A.y);
@@ -92,39 +284,428 @@ const MechanismCanvas: React.FC<MechanismCanvasProps> = ({ config, state, limits
           <g opacity="0.3" stroke={color} strokeDasharray="5,5" fill="none" strokeWidth="2">
               <line x1={sO2.x} y1={sO2.y} x2={gA.x} y2={gA.y} />
               <line x1={gA.x} y1={gA.y} x2={gB.x} y2={gB.y} />
-              <line x1={sO4.x} y1={sO4.y} x2={gB.x} y2={gB.y} strokeWidth="4" />
+              {!isSliderCrank && <line x1={sO4.x} y1={sO4.y} x2={gB.x} y2={gB.y} strokeWidth="4" />}
               <circle cx={gA.x} cy={gA.y} r="4" fill={color} stroke="none"/>
               <circle cx={gB.x} cy={gB.y} r="4" fill={color} stroke="none"/>
           </g>
       );
   };
 
+  // A pinned design posed at the current crank angle, in its own ground frame
+  const renderSnapshot = (snapshot: DesignSnapshot) => {
+      const ghost = solveMechanism(snapshot.config, state.theta2);
+      const [gO2, gO4, gA, gB] = [ghost.O2, ghost.O4, ghost.A, ghost.B].map(p => toScreen(p.x, p.y));
+      const slides = getMechanismType(snapshot.config) === 'slider-crank';
+      return (
+          <g key={snapshot.id} opacity="0.5" stroke={snapshot.color} fill="none" strokeWidth="3" strokeDasharray="8,4">
+              {!slides && <line x1={gO2.x} y1={gO2.y} x2={gO4.x} y2={gO4.y} strokeWidth="1" />}
+              {ghost.isValid && (
+                  <>
+                      <polyline points={`${gO2.x},${gO2.y} ${gA.x},${gA.y} ${gB.x},${gB.y}${slides ? '' : ` ${gO4.x},${gO4.y}`}`} />
+                      <circle cx={gA.x} cy={gA.y} r="4" fill={snapshot.color} stroke="none" />
+                      <circle cx={gB.x} cy={gB.y} r="4" fill={snapshot.color} stroke="none" />
+                  </>
+              )}
+              <circle cx={gO2.x} cy={gO2.y} r="5" fill="white" strokeDasharray="none" />
+              {!slides && <circle cx={gO4.x} cy={gO4.y} r="5" fill="white" strokeDasharray="none" />}
+              <text
+                  x={(ghost.isValid ? gB : gO2).x + 8} y={(ghost.isValid ? gB : gO2).y + 18}
+                  fontSize="11" fontWeight="bold" fill={snapshot.color} stroke="none"
+              >
+                  {snapshot.name}{ghost.isValid ? '' : ' (unassembled)'}
+              </text>
+          </g>
+      );
+  };
+
+  // Picked points joined in order with their distances, and the angle at the middle of three
+  // A picked point the linkage no longer has (a joint of an unassembled position) drops out
+  const namedPoints = measurePoints();
+  const picked = measured.filter(name => namedPoints[name]).map(name => ({ name, point: namedPoints[name] }));
+  const measureLines = picked.slice(1).map((m, idx) => {
+      const from = picked[idx];
+      const angle = toDegrees(Math.atan2(m.point.y - from.point.y, m.point.x - from.point.x));
+      return { from, to: m, length: distance(from.point, m.point), angle };
+  });
+  const measureAngle = picked.length === 3 ? toDegrees(includedAngle(picked[0].point, picked[1].point, picked[2].point)) : null;
+
+  const renderMeasurement = () => {
+      if (!measuring || picked.length === 0) return null;
+      return (
+          <g stroke={MEASURE_COLOR} fill={MEASURE_COLOR} pointerEvents="none">
+              {measureLines.map(({ from, to, length }) => {
+                  const a = toScreen(from.point.x, from.point.y);
+                  const b = toScreen(to.point.x, to.point.y);
+                  return (
+                      <g key={`${from.name}-${to.name}`}>
+                          <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} strokeWidth="1.5" strokeDasharray="6 3" />
+                          <text x={(a.x + b.x) / 2 + 6} y={(a.y + b.y) / 2 - 6} fontSize="12" fontWeight="bold" stroke="white" strokeWidth="3" paintOrder="stroke">
+                              {formatLength(length, units.length)}
+                          </text>
+                      </g>
+                  );
+              })}
+              {measureAngle !== null && (() => {
+                  const v = toScreen(picked[1].point.x, picked[1].point.y);
+                  return (
+                      <text x={v.x + 10} y={v.y + 20} fontSize="12" fontWeight="bold" stroke="white" strokeWidth="3" paintOrder="stroke">
+                          {measureAngle.toFixed(1)}°
+                      </text>
+                  );
+              })()}
+              {picked.map(({ name, point }) => {
+                  const p = toScreen(point.x, point.y);
+                  return <circle key={name} cx={p.x} cy={p.y} r="9" fill="none" strokeWidth="2" />;
+              })}
+          </g>
+      );
+  };
+
+  // Render a slider block centred on a point and aligned with its slide
+  const renderSliderBlock = (center: Point, angle: number, color: string) => {
+      const c = toScreen(center.x, center.y);
+      return (
+          <rect
+              x={c.x - BLOCK_LENGTH_PX / 2} y={c.y - BLOCK_WIDTH_PX / 2}
+              width={BLOCK_LENGTH_PX} height={BLOCK_WIDTH_PX} rx="3"
+              // SVG rotates clockwise on screen, world angles run counter-clockwise
+              transform={`rotate(${-toDegrees(angle)} ${c.x} ${c.y})`}
+              fill={color} fillOpacity="0.25" stroke={color} strokeWidth="3"
+          />
+      );
+  };
+
+  // The slider-crank's rail covers the stroke plus the block; without dead centers it spans the rod's reach
+  const renderSliderRail = () => {
+      const reach = config.r2 + config.r3;
+      const margin = BLOCK_LENGTH_PX / zoom;
+      const [from, to] = limits.hasStrokeLimits
+          ? [limits.strokeMin - margin, limits.strokeMax + margin]
+          : [-reach, reach];
+      const dir = { x: Math.cos(state.theta4), y: Math.sin(state.theta4) };
+      const p1 = toScreen(state.O4.x + dir.x * from, state.O4.y + dir.y * from);
+      const p2 = toScreen(state.O4.x + dir.x * to, state.O4.y + dir.y * to);
+      return (
+          <g>
+              <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke="#334155" strokeWidth="6" />
+              <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke="#94a3b8" strokeWidth="2" strokeDasharray="5,5" />
+          </g>
+      );
+  };
+
+  // The inverted slider-crank's guide runs from O4 through the block, at least its own length r4
+  const guideEnd = (guideState: MechanismState, length: number) => {
+      const side = guideState.branch;
+      return toScreen(
+          guideState.O4.x + side * length * Math.cos(guideState.theta4),
+          guideState.O4.y + side * length * Math.sin(guideState.theta4)
+      );
+  };
+
+  // Render a velocity vector starting at a joint
+  const renderVelocityArrow = (origin: Point, velocity: Point, color: string) => {
+      const start = toScreen(origin.x, origin.y);
+      const end = toScreen(
+          origin.x + velocity.x * VELOCITY_ARROW_SECONDS,
+          origin.y + velocity.y * VELOCITY_ARROW_SECONDS
+      );
+      return (
+          <line
+              x1={start.x} y1={start.y} x2={end.x} y2={end.y}
+              stroke={color} strokeWidth="2" markerEnd={`url(#arrow-${color.slice(1)})`}
+          />
+      );
+  };
+
+  // Render the external force as a unit-length arrow at its point of application
+  const renderLoadArrow = () => {
+      if (!load || !state.isValid) return null;
+      const magnitude = Math.hypot(load.force.x, load.force.y);
+      if (magnitude === 0) return null;
+      let point = state.B;
+      if (load.target === 'coupler') {
+          const couplerPoint = config.couplerPoints[load.couplerPointIndex];
+          if (!couplerPoint) return null;
+          point = calculateCouplerPoint(state.A, state.theta3, couplerPoint);
+      }
+      const end = toScreen(point.x, point.y);
+      const len = LOAD_ARROW_PX / magnitude;
+      // Screen y points down, world y points up
+      const start = { x: end.x - load.force.x * len, y: end.y + load.force.y * len };
+      return (
+          <g>
+              <line
+                  x1={start.x} y1={start.y} x2={end.x} y2={end.y}
+                  stroke={LOAD_COLOR} strokeWidth="2.5" markerEnd={`url(#arrow-${LOAD_COLOR.slice(1)})`}
+              />
+              <text x={start.x} y={start.y - 6} fontSize="11" fontWeight="bold" fill={LOAD_COLOR} textAnchor="middle">
+                  F = {magnitude.toFixed(1)} N
+              </text>
+          </g>
+      );
+  };
+
+  // Render the synthesis poses and the linkage constructed through them
+  const renderSynthesisOverlay = () => {
+      if (!synthesis) return null;
+      const { spec, result } = synthesis;
+      const handleLen = POSE_HANDLE_PX / zoom;
+      const sO2s = toScreen(result.O2.x, result.O2.y);
+      const sO4s = toScreen(result.O4.x, result.O4.y);
+
+      return (
+          <g>
+              {result.isValid && spec.poses.map((pose, idx) => {
+                  const a = toScreen(result.pivotsA[idx].x, result.pivotsA[idx].y);
+                  const b = toScreen(result.pivotsB[idx].x, result.pivotsB[idx].y);
+                  const p = toScreen(pose.position.x, pose.position.y);
+                  return (
+                      <g key={idx} opacity="0.5" strokeDasharray="4 3" strokeWidth="1.5" fill="none">
+                          <line x1={sO2s.x} y1={sO2s.y} x2={a.x} y2={a.y} stroke="#ef4444" />
+                          <line x1={sO4s.x} y1={sO4s.y} x2={b.x} y2={b.y} stroke="#3b82f6" />
+                          <polygon points={`${a.x},${a.y} ${b.x},${b.y} ${p.x},${p.y}`} stroke="#22c55e" fill="#22c55e" fillOpacity="0.08" />
+                          <circle cx={a.x} cy={a.y} r="4" fill="#ef4444" stroke="none" />
+                          <circle cx={b.x} cy={b.y} r="4" fill="#3b82f6" stroke="none" />
+                      </g>
+                  );
+              })}
+              {result.isValid && [sO2s, sO4s].map((sp, idx) => (
+                  <rect key={idx} x={sp.x - 6} y={sp.y - 6} width="12" height="12" transform={`rotate(45 ${sp.x} ${sp.y})`}
+                      fill="white" stroke={POSE_COLOR} strokeWidth="2" />
+              ))}
+              {spec.poses.map((pose, idx) => {
+                  const p = toScreen(pose.position.x, pose.position.y);
+                  const h = toScreen(
+                      pose.position.x + handleLen * Math.cos(pose.angle),
+                      pose.position.y + handleLen * Math.sin(pose.angle)
+                  );
+                  return (
+                      <g key={idx}>
+                          <line x1={p.x} y1={p.y} x2={h.x} y2={h.y} stroke={POSE_COLOR} strokeWidth="3" />
+                          <circle
+                              cx={h.x} cy={h.y} r="6" fill="white" stroke={POSE_COLOR} strokeWidth="2"
+                              className="cursor-grab" onPointerDown={handlePointerDown({ pose: idx, handle: 'angle' })}
+                          />
+                          <circle
+                              cx={p.x} cy={p.y} r="8" fill={POSE_COLOR} stroke="white" strokeWidth="2"
+                              className="cursor-grab" onPointerDown={handlePointerDown({ pose: idx, handle: 'position' })}
+                          />
+                          <text x={p.x - 18} y={p.y + 20} fontSize="12" fontWeight="bold" fill={POSE_COLOR}>{idx + 1}</text>
+                      </g>
+                  );
+              })}
+          </g>
+      );
+  };
+
+  // Render the instant centers: construction lines to I13 and I24, markers and labels,
+  // and a note for any center at infinity
+  const renderInstantCenters = () => {
+      if (!showInstantCenters) return null;
+      const centers = findInstantCenters(config, state);
+      if (centers.length === 0) return null;
+      const byLabel = new Map(centers.map(c => [c.label, c]));
+      const remote = centers.filter(c => !c.point);
+
+      return (
+          <g>
+              {centers.filter(c => c.point && !c.isPrimary).map(c => {
+                  const p = toScreen(c.point!.x, c.point!.y);
+                  return (
+                      <g key={`lines-${c.label}`} stroke={IC_COLOR} strokeWidth="1" strokeDasharray="6 4" opacity="0.5">
+                          {c.construction.map(label => {
+                              const from = byLabel.get(label)?.point;
+                              if (!from) return null;
+                              const f = toScreen(from.x, from.y);
+                              return <line key={label} x1={f.x} y1={f.y} x2={p.x} y2={p.y} />;
+                          })}
+                      </g>
+                  );
+              })}
+              {centers.filter(c => c.point).map(c => {
+                  const p = toScreen(c.point!.x, c.point!.y);
+                  return (
+                      <g key={c.label}>
+                          {!c.isPrimary && (
+                              <rect x={p.x - 5} y={p.y - 5} width="10" height="10" transform={`rotate(45 ${p.x} ${p.y})`}
+                                  fill={IC_COLOR} stroke="white" strokeWidth="1.5" />
+                          )}
+                          <text x={p.x + 10} y={p.y + 18} fontSize="11" fontWeight="bold" fill={IC_COLOR}>{c.label}</text>
+                      </g>
+                  );
+              })}
+              {remote.length > 0 && (
+                  <text x={16} y="100%" dy={-16} fontSize="11" fill={IC_COLOR}>
+                      {remote.map(c => `${c.label} ${c.direction ? `at ∞ (${toDegrees(Math.atan2(c.direction.y, c.direction.x)).toFixed(0)}°)` : 'undetermined'}`).join(' · ')}
+                  </text>
+              )}
+          </g>
+      );
+  };
+
+  // Render the fixed centrode, and the moving one carried along with the coupler
+  const renderCentrodes = () => {
+      if (!centrodes || !state.isValid) return null;
+      return (
+          <g fill="none" strokeWidth="2" opacity="0.7">
+              {centrodes.fixed.map((segment, idx) => (
+                  <polyline key={`fixed-${idx}`} points={toPolyline(segment)} stroke={FIXED_CENTRODE_COLOR} />
+              ))}
+              {centrodes.moving.map((segment, idx) => (
+                  <polyline
+                      key={`moving-${idx}`}
+                      points={toPolyline(segment.map(p => calculateCouplerPoint(state.A, state.theta3, p)))}
+                      stroke={MOVING_CENTRODE_COLOR}
+                      strokeDasharray="6 3"
+                  />
+              ))}
+          </g>
+      );
+  };
+
+  // Render the area each link sweeps as one filled path per link, and the box around all of them
+  const renderEnvelope = () => {
+      if (!envelope || envelope.links.length === 0) return null;
+      const topLeft = toScreen(envelope.minX, envelope.maxY);
+      const bottomRight = toScreen(envelope.maxX, envelope.minY);
+      return (
+          <g>
+              {envelope.links.map(({ link, triangles }) => (
+                  <path
+                      key={link}
+                      d={triangles.map(triangle => `M ${triangle.map(p => {
+                          const sp = toScreen(p.x, p.y);
+                          return `${sp.x} ${sp.y}`;
+                      }).join(' L ')} Z`).join(' ')}
+                      fill={ENVELOPE_COLORS[link]}
+                      fillOpacity="0.12"
+                      fillRule="nonzero"
+                  />
+              ))}
+              <rect
+                  x={topLeft.x} y={topLeft.y}
+                  width={bottomRight.x - topLeft.x} height={bottomRight.y - topLeft.y}
+                  fill="none" stroke="#475569" strokeWidth="1" strokeDasharray="6 4"
+              />
+              <text x={topLeft.x} y={topLeft.y - 6} fontSize="11" fill="#475569" fontFamily="monospace">
+                  {formatLength(envelope.maxX - envelope.minX, units.length, false)} × {formatLength(envelope.maxY - envelope.minY, units.length)}
+              </text>
+          </g>
+      );
+  };
+
+  // Render a six-bar's second loop: the host link as a ternary plate, links 5 and 6, and link 6's swing
+  const renderDyad = () => {
+      const dyad = state.dyad;
+      if (!config.dyad || !dyad || !state.isValid) return null;
+      const sC = toScreen(dyad.C.x, dyad.C.y);
+      const sD = toScreen(dyad.D.x, dyad.D.y);
+      const sO6 = toScreen(dyad.O6.x, dyad.O6.y);
+      const [host1, hostColor] = config.dyad.attachment === 'coupler' ? [sA, '#22c55e'] : [sO4, '#3b82f6'];
+
+      let swingPath = '';
+      const minD = dyadLimits?.limitStateMin?.dyad?.D;
+      const maxD = dyadLimits?.limitStateMax?.dyad?.D;
+      if (dyadLimits?.hasOutputLimits && minD && maxD) {
+          const p1 = toScreen(minD.x, minD.y);
+          const p2 = toScreen(maxD.x, maxD.y);
+          const r = config.dyad.r6 * zoom;
+          const largeArc = dyadLimits.outputMax - dyadLimits.outputMin > 180 ? 1 : 0;
+          // Swept counter-clockwise in the world, the negative SVG direction
+          swingPath = `M ${p1.x} ${p1.y} A ${r} ${r} 0 ${largeArc} 0 ${p2.x} ${p2.y}`;
+      }
+
+      return (
+          <g strokeLinecap="round" strokeLinejoin="round">
+              <polygon
+                  points={`${host1.x},${host1.y} ${sB.x},${sB.y} ${sC.x},${sC.y}`}
+                  fill={hostColor} fillOpacity="0.15" stroke={hostColor} strokeWidth="2"
+              />
+              {swingPath && (
+                  <path d={swingPath} fill="none" stroke="#9333ea" strokeWidth="2" strokeDasharray="4 4" opacity="0.4" />
+              )}
+              {dyad.isValid && (
+                  <>
+                      <line x1={sC.x} y1={sC.y} x2={sD.x} y2={sD.y} stroke={DYAD_LINK_COLOR} strokeWidth="8" />
+                      <line x1={sO6.x} y1={sO6.y} x2={sD.x} y2={sD.y} stroke={DYAD_OUTPUT_COLOR} strokeWidth="8" />
+                      <circle cx={sD.x} cy={sD.y} r="8" fill={DYAD_OUTPUT_COLOR} stroke="white" strokeWidth="3" />
+                      <text x={sD.x + 12} y={sD.y - 12} fontSize="12" fontWeight="bold" fill="#64748b">D</text>
+                  </>
+              )}
+              <circle cx={sC.x} cy={sC.y} r="6" fill={dyad.isValid ? DYAD_LINK_COLOR : '#ef4444'} stroke="white" strokeWidth="2" />
+              <text x={sC.x + 10} y={sC.y - 10} fontSize="12" fontWeight="bold" fill="#64748b">C</text>
+
+              {/* O6 Fixed (draggable to relocate the pivot) */}
+              <g onPointerDown={handlePointerDown('O6')} className="cursor-grab active:cursor-grabbing">
+                  <circle cx={sO6.x} cy={sO6.y} r="8" fill="white" stroke="#334155" strokeWidth="3" />
+                  <path d={`M ${sO6.x-10} ${sO6.y+10} L ${sO6.x+10} ${sO6.y+10} L ${sO6.x} ${sO6.y-5} Z`} fill="#cbd5e1" opacity="0.5" transform={`translate(0, 10)`} />
+              </g>
+              <text x={sO6.x - 20} y={sO6.y + 25} className="text-sm font-bold fill-gray-600">O₆</text>
+          </g>
+      );
+  };
+
   // Calculate Rocker Limit Arc
   let arcPath = "";
   if (limits.hasRockerLimits && limits.limitStateMin && limits.limitStateMax) {
-      // Draw arc between B_min and B_max centered at O4
-      const p1 = toScreen(limits.limitStateMin.B.x, limits.limitStateMin.B.y);
-      const p2 = toScreen(limits.limitStateMax.B.x, limits.limitStateMax.B.y);
+      // Draw arc between B_min and B_max centered at O4; a guide's block slides, so use the guide's tip
+      const p1 = isInvertedSlider
+          ? guideEnd(limits.limitStateMin, config.r4)
+          : toScreen(limits.limitStateMin.B.x, limits.limitStateMin.B.y);
+      const p2 = isInvertedSlider
+          ? guideEnd(limits.limitStateMax, config.r4)
+          : toScreen(limits.limitStateMax.B.x, limits.limitStateMax.B.y);
       const r = config.r4 * zoom;
-      // Determine sweep flag. Usually the rocker moves in the upper area (smaller arc)
-      // but geometry can be tricky. We just draw a simple path for now.
-      arcPath = `M ${p1.x} ${p1.y} A ${r} ${r} 0 0 0 ${p2.x} ${p2.y}`;
+      const largeArc = limits.rockerMax - limits.rockerMin > 180 ? 1 : 0;
+      // Swept counter-clockwise in the world from the min to the max limit, the negative SVG direction
+      arcPath = `M ${p1.x} ${p1.y} A ${r} ${r} 0 ${largeArc} 0 ${p2.x} ${p2.y}`;
   }
 
+  // Calculate Crank Limit Arc (swept counter-clockwise from crankMin to crankMax)
+  let crankArcPath = "";
+  if (limits.hasCrankLimits && limits.crankLimitStateMin && limits.crankLimitStateMax) {
+      const p1 = toScreen(limits.crankLimitStateMin.A.x, limits.crankLimitStateMin.A.y);
+      const p2 = toScreen(limits.crankLimitStateMax.A.x, limits.crankLimitStateMax.A.y);
+      const r = config.r2 * zoom;
+      const largeArc = limits.crankMax - limits.crankMin > 180 ? 1 : 0;
+      // World CCW is screen CCW after the Y flip, which is SVG's negative sweep direction
+      crankArcPath = `M ${p1.x} ${p1.y} A ${r} ${r} 0 ${largeArc} 0 ${p2.x} ${p2.y}`;
+  }
+
+  // Shade the crank arcs for the forward (extended -> folded) and return strokes of a quick-return linkage
+  const crankSector = (fromDeg: number, sweepDeg: number) => {
+      const r = config.r2 * zoom * 0.6;
+      const from = toRadians(fromDeg);
+      const to = toRadians(fromDeg + sweepDeg);
+      const p1 = { x: sO2.x + r * Math.cos(from), y: sO2.y - r * Math.sin(from) };
+      const p2 = { x: sO2.x + r * Math.cos(to), y: sO2.y - r * Math.sin(to) };
+      return `M ${sO2.x} ${sO2.y} L ${p1.x} ${p1.y} A ${r} ${r} 0 ${sweepDeg > 180 ? 1 : 0} 0 ${p2.x} ${p2.y} Z`;
+  };
+
   return (
-    <div className="flex-1 bg-white relative overflow-hidden cursor-move touch-none">
+    <div className={`flex-1 bg-white relative overflow-hidden touch-none ${measuring ? 'cursor-crosshair' : 'cursor-move'}`}>
       <svg
         ref={svgRef}
         className="w-full h-full block"
+        onPointerDown={handleCanvasPointerDown}
         onPointerMove={handlePointerMove}
         onPointerUp={handlePointerUp}
         onPointerLeave={handlePointerUp}
-        onWheel={handleWheel}
       >
         <defs>
             <pattern id="grid" width="40" height="40" patternUnits="userSpaceOnUse">
                 <path d="M 40 0 L 0 0 0 40" fill="none" stroke="#f0f0f0" strokeWidth="1"/>
             </pattern>
+            {['#b91c1c', '#1d4ed8', LOAD_COLOR].map(color => (
+                <marker
+                    key={color}
+                    id={`arrow-${color.slice(1)}`}
+                    viewBox="0 0 10 10" refX="9" refY="5"
+                    markerWidth="6" markerHeight="6" orient="auto-start-reverse"
+                >
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                </marker>
+            ))}
         </defs>
         <rect width="100%" height="100%" fill="url(#grid)" />
 
@@ -134,40 +715,139 @@ const MechanismCanvas: React.FC<MechanismCanvasProps> = ({ config, state, limits
              <line x1={pan.x} y1={0} x2={pan.x} y2="100%" stroke="black" />
         </g>
         
+        {/* Swept Envelope */}
+        {renderEnvelope()}
+
         {/* Limit States (Ghosts) */}
         {limits.limitStateMin && renderGhostMechanism(limits.limitStateMin, "#9333ea")}
         {limits.limitStateMax && renderGhostMechanism(limits.limitStateMax, "#9333ea")}
 
+        {/* Coupler Curves */}
+        <g fill="none" strokeWidth="2" opacity="0.6">
+            {couplerCurves.map((segments, idx) => segments.map((segment, sIdx) => (
+                <polyline
+                    key={`${idx}-${sIdx}`}
+                    points={toPolyline(segment)}
+                    stroke={COUPLER_POINT_COLORS[idx % COUPLER_POINT_COLORS.length]}
+                />
+            )))}
+        </g>
+
+        {/* Centrodes */}
+        {renderCentrodes()}
+
+        {/* Pinned Snapshots (Ghosts) */}
+        {snapshots.map(renderSnapshot)}
+
+        {/* Crank Limit States (Ghosts) */}
+        {limits.crankLimitStateMin && renderGhostMechanism(limits.crankLimitStateMin, "#ea580c")}
+        {limits.crankLimitStateMax && renderGhostMechanism(limits.crankLimitStateMax, "#ea580c")}
+
+        {/* Quick-Return Crank Sweeps */}
+        {limits.hasTimeRatio && (
+            <g stroke="none">
+                <path d={crankSector(limits.crankAtExtended, limits.forwardSweep)} fill="#0d9488" fillOpacity="0.15" />
+                <path d={crankSector(limits.crankAtFolded, limits.returnSweep)} fill="#e11d48" fillOpacity="0.12" />
+            </g>
+        )}
+
         {/* Limit Arc */}
         {limits.hasRockerLimits && (
              <path d={arcPath} fill="none" stroke="#9333ea" strokeWidth="2" strokeDasharray="4 4" opacity="0.4" />
         )}
+        {limits.hasStrokeLimits && limits.limitStateMin && limits.limitStateMax && (() => {
+             const p1 = toScreen(limits.limitStateMin.B.x, limits.limitStateMin.B.y);
+             const p2 = toScreen(limits.limitStateMax.B.x, limits.limitStateMax.B.y);
+             return <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke="#9333ea" strokeWidth="4" strokeDasharray="4 4" opacity="0.4" />;
+        })()}
+        {limits.hasCrankLimits && (
+             <path d={crankArcPath} fill="none" stroke="#ea580c" strokeWidth="2" strokeDasharray="4 4" opacity="0.5" />
+        )}
 
         {/* Links */}
         <g strokeLinecap="round" strokeLinejoin="round">
             {/* Ground (Fixed) */}
-            <line x1={sO2.x} y1={sO2.y} x2={sO4.x} y2={sO4.y} stroke="#334155" strokeWidth="6" />
-            <line x1={sO2.x} y1={sO2.y} x2={sO4.x} y2={sO4.y} stroke="#94a3b8" strokeWidth="2" strokeDasharray="5,5"/>
+            {isSliderCrank ? renderSliderRail() : (
+                <g>
+                    <line x1={sO2.x} y1={sO2.y} x2={sO4.x} y2={sO4.y} stroke="#334155" strokeWidth="6" />
+                    <line x1={sO2.x} y1={sO2.y} x2={sO4.x} y2={sO4.y} stroke="#94a3b8" strokeWidth="2" strokeDasharray="5,5"/>
+                </g>
+            )}
             
             {/* Crank (Input) */}
             <line x1={sO2.x} y1={sO2.y} x2={sA.x} y2={sA.y} stroke="#ef4444" strokeWidth="8" className="transition-all duration-75" />
             
-            {/* Rocker (Output) */}
-            <line x1={sO4.x} y1={sO4.y} x2={sB.x} y2={sB.y} stroke="#3b82f6" strokeWidth="8" className="transition-all duration-75" />
+            {/* Rocker, Slider or Guide (Output) */}
+            {mechanismType === 'four-bar' && (
+                <line x1={sO4.x} y1={sO4.y} x2={sB.x} y2={sB.y} stroke="#3b82f6" strokeWidth="8" className="transition-all duration-75" />
+            )}
+            {isSliderCrank && state.isValid && renderSliderBlock(state.B, state.theta4, '#3b82f6')}
+            {isInvertedSlider && state.isValid && (() => {
+                const end = guideEnd(state, Math.max(config.r4, Math.abs(state.sliderPosition ?? 0)));
+                return <line x1={sO4.x} y1={sO4.y} x2={end.x} y2={end.y} stroke="#3b82f6" strokeWidth="8" className="transition-all duration-75" />;
+            })()}
+            {isInvertedSlider && state.isValid && renderSliderBlock(state.B, state.theta4, '#22c55e')}
             
             {/* Coupler */}
+            {state.isValid && state.couplerPoints.map((p, idx) => {
+                const sP = toScreen(p.x, p.y);
+                return (
+                    <polygon
+                        key={idx}
+                        points={`${sA.x},${sA.y} ${sB.x},${sB.y} ${sP.x},${sP.y}`}
+                        fill="#22c55e"
+                        fillOpacity="0.15"
+                        stroke="#22c55e"
+                        strokeWidth="2"
+                    />
+                );
+            })}
             <line x1={sA.x} y1={sA.y} x2={sB.x} y2={sB.y} stroke="#22c55e" strokeWidth="8" className="transition-all duration-75" />
         </g>
 
+        {/* Six-Bar Second Loop */}
+        {renderDyad()}
+
+        {/* Velocity Vectors */}
+        {motion.isValid && (
+            <g opacity="0.8">
+                {renderVelocityArrow(state.A, motion.vA, '#b91c1c')}
+                {renderVelocityArrow(state.B, motion.vB, '#1d4ed8')}
+            </g>
+        )}
+
+        {/* External Load */}
+        {renderLoadArrow()}
+
+        {/* Coupler Points */}
+        {state.isValid && state.couplerPoints.map((p, idx) => {
+            const sP = toScreen(p.x, p.y);
+            const color = COUPLER_POINT_COLORS[idx % COUPLER_POINT_COLORS.length];
+            return (
+                <g key={idx}>
+                    <circle cx={sP.x} cy={sP.y} r="6" fill={color} stroke="white" strokeWidth="2" />
+                    <text x={sP.x + 10} y={sP.y - 10} fontSize="12" fontWeight="bold" fill={color}>
+                        P{idx + 1}
+                    </text>
+                </g>
+            );
+        })}
+
         {/* Joints */}
         <g>
-            {/* O2 Fixed */}
-            <circle cx={sO2.x} cy={sO2.y} r="8" fill="white" stroke="#334155" strokeWidth="3" />
-            <path d={`M ${sO2.x-10} ${sO2.y+10} L ${sO2.x+10} ${sO2.y+10} L ${sO2.x} ${sO2.y-5} Z`} fill="#cbd5e1" opacity="0.5" transform={`translate(0, 10)`} />
+            {/* O2 Fixed (draggable to relocate the pivot) */}
+            <g onPointerDown={handlePointerDown('O2')} className="cursor-grab active:cursor-grabbing">
+                <circle cx={sO2.x} cy={sO2.y} r="8" fill="white" stroke="#334155" strokeWidth="3" />
+                <path d={`M ${sO2.x-10} ${sO2.y+10} L ${sO2.x+10} ${sO2.y+10} L ${sO2.x} ${sO2.y-5} Z`} fill="#cbd5e1" opacity="0.5" transform={`translate(0, 10)`} />
+            </g>
 
-            {/* O4 Fixed */}
-            <circle cx={sO4.x} cy={sO4.y} r="8" fill="white" stroke="#334155" strokeWidth="3" />
-            <path d={`M ${sO4.x-10} ${sO4.y+10} L ${sO4.x+10} ${sO4.y+10} L ${sO4.x} ${sO4.y-5} Z`} fill="#cbd5e1" opacity="0.5" transform={`translate(0, 10)`} />
+            {/* O4 Fixed (draggable to relocate the pivot) */}
+            {!isSliderCrank && (
+                <g onPointerDown={handlePointerDown('O4')} className="cursor-grab active:cursor-grabbing">
+                    <circle cx={sO4.x} cy={sO4.y} r="8" fill="white" stroke="#334155" strokeWidth="3" />
+                    <path d={`M ${sO4.x-10} ${sO4.y+10} L ${sO4.x+10} ${sO4.y+10} L ${sO4.x} ${sO4.y-5} Z`} fill="#cbd5e1" opacity="0.5" transform={`translate(0, 10)`} />
+                </g>
+            )}
 
             {/* Joint A (Interactive) */}
             <g 
@@ -207,16 +887,69 @@ const MechanismCanvas: React.FC<MechanismCanvasProps> = ({ config, state, limits
             </g>
         </g>
         
+        {/* Instant Centers */}
+        {renderInstantCenters()}
+
+        {/* Synthesis Poses */}
+        {renderSynthesisOverlay()}
+
+        {/* Measurement */}
+        {renderMeasurement()}
+
         {/* Labels */}
         <text x={sO2.x - 20} y={sO2.y + 25} className="text-sm font-bold fill-gray-600">O₂</text>
-        <text x={sO4.x - 20} y={sO4.y + 25} className="text-sm font-bold fill-gray-600">O₄</text>
+        {!isSliderCrank && <text x={sO4.x - 20} y={sO4.y + 25} className="text-sm font-bold fill-gray-600">O₄</text>}
         <text x={sA.x - 15} y={sA.y - 15} className="text-sm font-bold fill-red-600">A</text>
 
       </svg>
+
+      {/* Scale Bar */}
+      <div className="absolute top-4 right-4 pointer-events-none select-none flex flex-col items-center text-xs text-gray-500">
+        <div className="border-x-2 border-b-2 border-gray-400 h-2" style={{ width: barPx }} />
+        <span className="mt-0.5 font-mono">{barLength} {LENGTH_UNITS[units.length].label}</span>
+      </div>
       
+      {/* View Tools */}
+      <div className="absolute bottom-4 left-4 flex flex-col items-start gap-2 select-none">
+        {measuring && (
+          <div className="bg-white/90 border border-gray-200 rounded-lg shadow-sm px-2 py-1 text-xs font-mono text-gray-700">
+            {picked.length === 0 && <span className="font-sans text-gray-400">Click joints or coupler points to measure</span>}
+            {picked.length === 1 && <span className="font-sans text-gray-400">From {picked[0].name}: pick a second point</span>}
+            {measureLines.map(({ from, to, length, angle }) => (
+              <div key={`${from.name}-${to.name}`}>{from.name}–{to.name}: {formatLength(length, units.length)} at {angle.toFixed(1)}°</div>
+            ))}
+            {measureAngle !== null && <div>∠{picked.map(m => m.name).join('')} = {measureAngle.toFixed(1)}°</div>}
+          </div>
+        )}
+        <div className="flex items-center gap-1 bg-white/90 border border-gray-200 rounded-lg shadow-sm p-1 text-xs text-gray-700">
+          <button onClick={fitToView} title="Frame the full motion" className="px-2 py-1 rounded hover:bg-gray-100">Fit</button>
+          <button onClick={() => zoomAboutCenter(1 / BUTTON_ZOOM_FACTOR)} title="Zoom out" className="px-2 py-1 rounded hover:bg-gray-100">−</button>
+          <button onClick={() => zoomAboutCenter(BUTTON_ZOOM_FACTOR)} title="Zoom in" className="px-2 py-1 rounded hover:bg-gray-100">+</button>
+          <button
+            onClick={() => {
+              setMeasuring(!measuring);
+              setMeasured([]);
+            }}
+            className={`px-2 py-1 rounded ${measuring ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-100'}`}
+          >
+            Measure
+          </button>
+          <label className="flex items-center gap-1 px-1 text-gray-500">
+            Snap
+            <select
+              value={snapStep}
+              onChange={(e) => setSnapStep(parseFloat(e.target.value))}
+              className="text-xs text-gray-800 border border-gray-200 rounded px-1 py-0.5"
+            >
+              {SNAP_STEPS.map(step => <option key={step} value={step}>{step === 0 ? 'Off' : `${step}°`}</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
       {/* Overlay Instructions for Interaction */}
       <div className="absolute top-4 left-4 pointer-events-none opacity-50 text-xs text-gray-400 select-none">
-        Drag joints to move • Scroll + Ctrl to Zoom • Purple = Limit Positions
+        Drag joints to move, pivots to relocate, empty space to pan • Scroll to zoom at the cursor • Shift overrides angle snapping • Purple = Output Limits • Orange = Crank Limits • Teal / Rose = Forward / Return Crank Sweep • Colored traces = Coupler Curves • Teal / Indigo = Six-Bar Dyad • Arrows = Joint Velocities • Brown ◆ = Instant Centers • Amber / Pink = Fixed / Moving Centrodes • Black Arrow = External Force • Dashed colored linkages = Compared Snapshots • Shaded areas = Swept Envelope
       </div>
     </div>
   );
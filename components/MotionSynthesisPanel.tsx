@@ -0,0 +1,85 @@
+import React from 'react';
+import { MotionSynthesisSpec, MotionSynthesisResult, CouplerPose, Point } from '../types';
+import { getGrashofType, toDegrees, toRadians } from '../services/kinematics';
+import NumberField from './NumberField';
+
+interface MotionSynthesisPanelProps {
+  spec: MotionSynthesisSpec;
+  result: MotionSynthesisResult;
+  onChange: (spec: MotionSynthesisSpec) => void;
+  onApply: (result: MotionSynthesisResult) => void;
+  onClose: () => void;
+}
+
+const MotionSynthesisPanel: React.FC<MotionSynthesisPanelProps> = ({ spec, result, onChange, onApply, onClose }) => {
+  const updatePose = (index: number, pose: CouplerPose) => {
+    onChange({ ...spec, poses: spec.poses.map((p, i) => (i === index ? pose : p)) });
+  };
+
+  const updatePivot = (key: 'movingA' | 'movingB', value: Point) => {
+    onChange({ ...spec, [key]: value });
+  };
+
+  return (
+    <div className="bg-white/95 backdrop-blur-md p-4 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-xs font-bold text-gray-400 uppercase">Three-Position Synthesis</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-700">Close</button>
+      </div>
+
+      <p className="text-xs text-gray-400 mb-3">
+        Drag the cyan poses on the canvas (dot = position, handle = orientation) or type them in.
+      </p>
+
+      {spec.poses.map((pose, idx) => (
+        <div key={idx} className="grid grid-cols-4 gap-2 items-end mb-2">
+          <span className="text-sm font-semibold text-cyan-700 pb-1">Pose {idx + 1}</span>
+          <NumberField label="x" value={pose.position.x} onChange={(v) => updatePose(idx, { ...pose, position: { ...pose.position, x: v } })} />
+          <NumberField label="y" value={pose.position.y} onChange={(v) => updatePose(idx, { ...pose, position: { ...pose.position, y: v } })} />
+          <NumberField label="angle°" value={toDegrees(pose.angle)} onChange={(v) => updatePose(idx, { ...pose, angle: toRadians(v) })} />
+        </div>
+      ))}
+
+      <h4 className="text-xs font-bold text-gray-400 uppercase mt-4 mb-2">Moving Pivots (Coupler Frame)</h4>
+      <div className="grid grid-cols-4 gap-2 items-end mb-2">
+        <span className="text-sm font-semibold text-red-600 pb-1">A</span>
+        <NumberField label="x" value={spec.movingA.x} onChange={(v) => updatePivot('movingA', { ...spec.movingA, x: v })} />
+        <NumberField label="y" value={spec.movingA.y} onChange={(v) => updatePivot('movingA', { ...spec.movingA, y: v })} />
+      </div>
+      <div className="grid grid-cols-4 gap-2 items-end mb-3">
+        <span className="text-sm font-semibold text-blue-600 pb-1">B</span>
+        <NumberField label="x" value={spec.movingB.x} onChange={(v) => updatePivot('movingB', { ...spec.movingB, x: v })} />
+        <NumberField label="y" value={spec.movingB.y} onChange={(v) => updatePivot('movingB', { ...spec.movingB, y: v })} />
+      </div>
+
+      <div className="pt-3 border-t border-gray-100">
+        {result.isValid && result.config ? (
+          <>
+            <div className="grid grid-cols-2 gap-x-4 text-xs font-mono text-gray-600 mb-2">
+              <span>r1 = {result.config.r1.toFixed(1)}</span>
+              <span>r2 = {result.config.r2.toFixed(1)}</span>
+              <span>r3 = {result.config.r3.toFixed(1)}</span>
+              <span>r4 = {result.config.r4.toFixed(1)}</span>
+            </div>
+            <div className="text-sm font-bold text-indigo-600 mb-2">{getGrashofType(result.config)}</div>
+            {result.warnings.map(w => (
+              <div key={w} className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 mb-2">⚠️ {w}</div>
+            ))}
+            <button
+              onClick={() => onApply(result)}
+              className="w-full py-2 px-4 rounded font-semibold bg-blue-600 text-white hover:bg-blue-700 shadow-md"
+            >
+              Load Into Analysis
+            </button>
+          </>
+        ) : (
+          <div className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100">
+            ⚠️ {result.error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MotionSynthesisPanel;
@@ -0,0 +1,30 @@
+import React from 'react';
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (val: number) => void;
+  step?: number;
+  digits?: number; // Decimals shown (default 2)
+}
+
+/**
+ * Compact labelled numeric input that ignores unparsable entries
+ */
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, step, digits = 2 }) => (
+  <label className="flex flex-col text-xs text-gray-500">
+    {label}
+    <input
+      type="number"
+      value={Number(value.toFixed(digits))}
+      step={step}
+      onChange={(e) => {
+        const v = parseFloat(e.target.value);
+        if (!isNaN(v)) onChange(v);
+      }}
+      className="mt-0.5 w-full text-sm font-mono text-gray-800 border border-gray-200 rounded px-1.5 py-0.5"
+    />
+  </label>
+);
+
+export default NumberField;
@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+import { OptimizationSpec, OptimizationResult } from '../types';
+import { optimizeTransmission } from '../services/optimizer';
+import NumberField from './NumberField';
+import LineChart, { formatTick } from './LineChart';
+
+interface OptimizerPanelProps {
+  spec: OptimizationSpec;
+  onChange: (spec: OptimizationSpec) => void;
+  onApply: (result: OptimizationResult) => void;
+  onClose: () => void;
+}
+
+const OptimizerPanel: React.FC<OptimizerPanelProps> = ({ spec, onChange, onApply, onClose }) => {
+  const result: OptimizationResult = useMemo(() => optimizeTransmission(spec), [spec]);
+
+  const update = (key: keyof OptimizationSpec, value: number) => {
+    onChange({ ...spec, [key]: value });
+  };
+
+  // Generations before the first feasible design have no μ-min to plot
+  const convergence = [result.history
+    .filter(step => step.bestTransmission !== null)
+    .map(step => ({ x: step.generation, y: step.bestTransmission as number }))];
+  const feasibility = [result.history.map(step => ({ x: step.generation, y: step.feasibleFraction * 100 }))];
+
+  return (
+    <div className="bg-white/95 backdrop-blur-md p-4 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-xs font-bold text-gray-400 uppercase">Transmission Optimizer</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-700">Close</button>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-2">
+        Maximizes μ min over Grashof crank-rockers with the given rocker swing.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <NumberField label="Ground r1" value={spec.r1} onChange={(v) => update('r1', v)} />
+        <NumberField label="Swing (°)" value={spec.targetSwing} onChange={(v) => update('targetSwing', v)} />
+        <NumberField label="Swing tol. (±°)" value={spec.swingTolerance} step={0.1} onChange={(v) => update('swingTolerance', Math.max(0, v))} />
+        <NumberField label="Seed" value={spec.seed} step={1} onChange={(v) => update('seed', Math.round(v))} />
+        <NumberField label="Ratio min" value={spec.ratioMin} step={0.05} onChange={(v) => update('ratioMin', v)} />
+        <NumberField label="Ratio max" value={spec.ratioMax} step={0.05} onChange={(v) => update('ratioMax', v)} />
+        <NumberField label="Population" value={spec.populationSize} step={1} onChange={(v) => update('populationSize', Math.max(4, Math.round(v)))} />
+        <NumberField label="Generations" value={spec.generations} step={10} onChange={(v) => update('generations', Math.max(1, Math.min(1000, Math.round(v))))} />
+      </div>
+
+      <div className="text-xs text-gray-400 mb-3">
+        Ratio bounds apply to r2/r1, r3/r1 and r4/r1.
+      </div>
+
+      <div className="pt-3 border-t border-gray-100">
+        <LineChart
+          title="Best μ min"
+          series={[{ label: 'μ min', color: '#22c55e', segments: convergence }]}
+          xDomain={[0, spec.generations]}
+          xTickStep={Math.max(1, Math.round(spec.generations / 4))}
+          xTickFormat={formatTick}
+          unit="°"
+        />
+        <div className="mt-2">
+          <LineChart
+            title="Feasible Share"
+            series={[{ label: 'feasible', color: '#3b82f6', segments: feasibility }]}
+            xDomain={[0, spec.generations]}
+            yDomain={[0, 100]}
+            xTickStep={Math.max(1, Math.round(spec.generations / 4))}
+            xTickFormat={formatTick}
+            unit="%"
+          />
+        </div>
+
+        {result.isValid && result.config ? (
+          <>
+            <div className="grid grid-cols-2 gap-x-4 text-xs font-mono text-gray-600 my-2">
+              <span>r1 = {result.config.r1.toFixed(1)}</span>
+              <span>r2 = {result.config.r2.toFixed(1)}</span>
+              <span>r3 = {result.config.r3.toFixed(1)}</span>
+              <span>r4 = {result.config.r4.toFixed(1)}</span>
+              <span>μ min = {result.transmissionMin.toFixed(2)}°</span>
+              <span>swing = {result.swing.toFixed(2)}°</span>
+            </div>
+            <div className="text-xs text-gray-400 mb-2">{result.evaluations} designs evaluated</div>
+
+            <button
+              onClick={() => onApply(result)}
+              className="w-full py-2 px-4 rounded font-semibold bg-blue-600 text-white hover:bg-blue-700 shadow-md"
+            >
+              Load Into Analysis
+            </button>
+          </>
+        ) : (
+          <div className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100 mt-2">
+            ⚠️ {result.error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OptimizerPanel;
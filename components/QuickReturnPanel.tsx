@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import { QuickReturnSpec, QuickReturnResult } from '../types';
+import { synthesizeQuickReturn } from '../services/synthesis';
+import NumberField from './NumberField';
+
+interface QuickReturnPanelProps {
+  spec: QuickReturnSpec;
+  onChange: (spec: QuickReturnSpec) => void;
+  onApply: (result: QuickReturnResult) => void;
+  onClose: () => void;
+}
+
+const QuickReturnPanel: React.FC<QuickReturnPanelProps> = ({ spec, onChange, onApply, onClose }) => {
+  const result: QuickReturnResult = useMemo(() => synthesizeQuickReturn(spec), [spec]);
+
+  const update = (key: keyof QuickReturnSpec, value: number) => {
+    onChange({ ...spec, [key]: value });
+  };
+
+  const imbalance = (180 * (spec.timeRatio - 1)) / (spec.timeRatio + 1);
+
+  return (
+    <div className="bg-white/95 backdrop-blur-md p-4 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-xs font-bold text-gray-400 uppercase">Quick-Return Synthesis</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-700">Close</button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        <NumberField label="Time ratio Q" value={spec.timeRatio} step={0.05} onChange={(v) => update('timeRatio', v)} />
+        <NumberField label="Swing (°)" value={spec.swing} onChange={(v) => update('swing', v)} />
+        <NumberField label="Rocker r4" value={spec.r4} onChange={(v) => update('r4', v)} />
+      </div>
+
+      <div className="text-xs text-gray-400 mb-3">
+        Imbalance δ = 180°(Q − 1)/(Q + 1) = {isFinite(imbalance) ? imbalance.toFixed(2) : '—'}°.
+        The crank pivot is placed for the transmission angle closest to 90°.
+      </div>
+
+      <div className="pt-3 border-t border-gray-100">
+        {result.isValid && result.config ? (
+          <>
+            <div className="grid grid-cols-2 gap-x-4 text-xs font-mono text-gray-600 mb-2">
+              <span>r1 = {result.config.r1.toFixed(1)}</span>
+              <span>r2 = {result.config.r2.toFixed(1)}</span>
+              <span>r3 = {result.config.r3.toFixed(1)}</span>
+              <span>r4 = {result.config.r4.toFixed(1)}</span>
+              <span>Q = {result.timeRatio.toFixed(3)}</span>
+              <span>swing = {result.swing.toFixed(2)}°</span>
+              <span>μ min = {result.transmissionMin.toFixed(1)}°</span>
+              <span>μ max = {result.transmissionMax.toFixed(1)}°</span>
+            </div>
+
+            {(result.transmissionMin < 30 || result.transmissionMax > 150) && (
+              <div className="text-xs text-amber-700 bg-amber-50 p-2 rounded border border-amber-100 mb-2">
+                ⚠️ The transmission angle leaves 30°–150°; reduce Q or the swing.
+              </div>
+            )}
+
+            <button
+              onClick={() => onApply(result)}
+              className="w-full py-2 px-4 rounded font-semibold bg-blue-600 text-white hover:bg-blue-700 shadow-md"
+            >
+              Load Into Analysis
+            </button>
+          </>
+        ) : (
+          <div className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100">
+            ⚠️ {result.error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuickReturnPanel;
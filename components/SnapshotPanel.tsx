@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { DesignSnapshot, UnitSettings } from '../types';
+import { getMechanism } from '../services/mechanisms';
+import { LENGTH_UNITS, formatLength } from '../services/units';
+
+interface SnapshotPanelProps {
+  snapshots: DesignSnapshot[];
+  units: UnitSettings;
+  onPin: (name: string) => void; // Snapshot the current design
+  onChange: (snapshots: DesignSnapshot[]) => void;
+  onRestore: (snapshot: DesignSnapshot) => void;
+  onClose: () => void;
+}
+
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ snapshots, units, onPin, onChange, onRestore, onClose }) => {
+  const [name, setName] = useState('');
+
+  const update = (id: number, changes: Partial<DesignSnapshot>) => {
+    onChange(snapshots.map(s => (s.id === id ? { ...s, ...changes } : s)));
+  };
+
+  const pin = () => {
+    onPin(name);
+    setName('');
+  };
+
+  return (
+    <div className="bg-white/95 backdrop-blur-md p-4 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-xs font-bold text-gray-400 uppercase">Design Snapshots</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-700">Close</button>
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={name}
+          placeholder={`Snapshot ${snapshots.reduce((max, s) => Math.max(max, s.id), 0) + 1}`}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') pin(); }}
+          className="flex-1 min-w-0 text-sm border border-gray-200 rounded px-1.5 py-0.5"
+        />
+        <button onClick={pin} className="text-xs bg-gray-100 border border-gray-300 px-3 py-1 rounded hover:bg-gray-200">
+          Pin Current
+        </button>
+      </div>
+
+      {snapshots.length === 0 ? (
+        <p className="text-xs text-gray-400 italic">
+          Pin the current design to keep it for comparison. Compared snapshots are drawn as ghosts at the current crank angle
+          and their limits are diffed in the info panel.
+        </p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {snapshots.map(snapshot => (
+            <div key={snapshot.id} className="pl-2 border-l-4" style={{ borderColor: snapshot.color }}>
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={snapshot.compare}
+                  title="Compare"
+                  onChange={(e) => update(snapshot.id, { compare: e.target.checked })}
+                />
+                <input
+                  type="text"
+                  value={snapshot.name}
+                  onChange={(e) => update(snapshot.id, { name: e.target.value })}
+                  className="flex-1 min-w-0 text-sm text-gray-800 border border-transparent hover:border-gray-200 rounded px-1"
+                />
+                <button onClick={() => onRestore(snapshot)} className="text-xs text-blue-600 hover:text-blue-800">
+                  Restore
+                </button>
+                <button
+                  onClick={() => onChange(snapshots.filter(s => s.id !== snapshot.id))}
+                  className="text-xs text-gray-400 hover:text-red-500"
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="text-xs font-mono text-gray-400 pl-6">
+                {getMechanism(snapshot.config).label} · r = {[snapshot.config.r1, snapshot.config.r2, snapshot.config.r3, snapshot.config.r4]
+                  .map(r => formatLength(r, units.length, false)).join(' / ')} {LENGTH_UNITS[units.length].label}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotPanel;
@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MechanismConfig, ToleranceSpec, ToleranceResult, ToleranceMetric, ToleranceParameter, UnitSettings } from '../types';
+import { analyzeTolerances, TOLERANCE_METRICS, MAX_TOLERANCE_TRIALS } from '../services/tolerance';
+import { LENGTH_UNITS, toDisplayLength, fromDisplayLength } from '../services/units';
+import NumberField from './NumberField';
+
+interface TolerancePanelProps {
+  config: MechanismConfig;
+  units: UnitSettings;
+  spec: ToleranceSpec;
+  onChange: (spec: ToleranceSpec) => void;
+  onClose: () => void;
+}
+
+const METRIC_LABELS: Record<ToleranceMetric, string> = {
+  rockerMin: 'Rocker min',
+  rockerMax: 'Rocker max',
+  transmissionMin: 'μ min',
+  outputError: 'θ4 error'
+};
+
+const PARAMETER_LABELS: Record<ToleranceParameter, string> = {
+  r1: 'r1', r2: 'r2', r3: 'r3', r4: 'r4',
+  O2x: 'O₂ x', O2y: 'O₂ y', O4x: 'O₄ x', O4y: 'O₄ y'
+};
+
+const HISTOGRAM_BINS = 20;
+
+// The trials rerun once edits pause, not on every slider tick or pivot drag event
+const ANALYSIS_DELAY_MS = 300;
+
+const deg = (v: number) => (isFinite(v) ? v.toFixed(2) : '—');
+
+/**
+ * Counts of the values in equal-width bins across their range
+ */
+const histogram = (values: number[]): { counts: number[]; min: number; max: number } => {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const counts = new Array(HISTOGRAM_BINS).fill(0);
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  values.forEach(v => { counts[Math.min(HISTOGRAM_BINS - 1, Math.floor((v - min) / width))]++; });
+  return { counts, min, max };
+};
+
+const TolerancePanel: React.FC<TolerancePanelProps> = ({ config, units, spec, onChange, onClose }) => {
+  const [analyzed, setAnalyzed] = useState({ config, spec });
+  useEffect(() => {
+    const handle = window.setTimeout(() => setAnalyzed({ config, spec }), ANALYSIS_DELAY_MS);
+    return () => window.clearTimeout(handle);
+  }, [config, spec]);
+  const result: ToleranceResult = useMemo(() => analyzeTolerances(analyzed.config, analyzed.spec), [analyzed]);
+  const stale = analyzed.config !== config || analyzed.spec !== spec;
+
+  const update = <K extends keyof ToleranceSpec>(key: K, value: ToleranceSpec[K]) => {
+    onChange({ ...spec, [key]: value });
+  };
+
+  const unit = LENGTH_UNITS[units.length];
+  // Tolerances are a few hundredths of the step used for whole lengths
+  const toleranceStep = unit.step / 50;
+  const bins = result.transmissionSamples.length > 0 ? histogram(result.transmissionSamples) : null;
+  const peak = bins ? Math.max(...bins.counts) : 0;
+
+  return (
+    <div className="bg-white/95 backdrop-blur-md p-4 rounded-xl shadow-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-xs font-bold text-gray-400 uppercase">
+          Tolerance Analysis{stale && <span className="ml-2 normal-case font-normal italic">updating…</span>}
+        </h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-700">Close</button>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-2">
+        Perturbs the link lengths and ground pivots of the current four-bar within their tolerances.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <NumberField
+          label={`Links (±${unit.label})`}
+          value={toDisplayLength(spec.linkTolerance, units.length)}
+          step={toleranceStep}
+          digits={unit.digits + 2}
+          onChange={(v) => update('linkTolerance', Math.max(0, fromDisplayLength(v, units.length)))}
+        />
+        <NumberField
+          label={`Pivots (±${unit.label})`}
+          value={toDisplayLength(spec.pivotTolerance, units.length)}
+          step={toleranceStep}
+          digits={unit.digits + 2}
+          onChange={(v) => update('pivotTolerance', Math.max(0, fromDisplayLength(v, units.length)))}
+        />
+        <label className="flex flex-col text-xs text-gray-500">
+          Distribution
+          <select
+            value={spec.distribution}
+            onChange={(e) => update('distribution', e.target.value as ToleranceSpec['distribution'])}
+            className="mt-0.5 text-sm text-gray-800 border border-gray-200 rounded px-1.5 py-0.5"
+          >
+            <option value="normal">Normal (±3σ)</option>
+            <option value="uniform">Uniform</option>
+          </select>
+        </label>
+        <NumberField label="Min μ (°)" value={spec.minTransmission} step={1} onChange={(v) => update('minTransmission', v)} />
+        <NumberField label="Trials" value={spec.samples} step={100} onChange={(v) => update('samples', Math.max(1, Math.min(MAX_TOLERANCE_TRIALS, Math.round(v))))} />
+        <NumberField label="Seed" value={spec.seed} step={1} onChange={(v) => update('seed', Math.round(v))} />
+      </div>
+
+      {!result.isValid || !result.metrics ? (
+        <div className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-100 mt-2">
+          ⚠️ {result.error}
+        </div>
+      ) : (
+        <div className="pt-3 border-t border-gray-100">
+          <table className="w-full text-xs font-mono text-gray-600 mb-2">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="font-normal">°</th>
+                <th className="font-normal">Nominal</th>
+                <th className="font-normal">Worst case</th>
+                <th className="font-normal">Mean ± σ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {TOLERANCE_METRICS.map(metric => {
+                const m = result.metrics![metric];
+                return (
+                  <tr key={metric}>
+                    <td className="text-gray-500 font-sans">{METRIC_LABELS[metric]}</td>
+                    <td>{deg(m.nominal)}</td>
+                    <td>{deg(m.worstLow)}–{deg(m.worstHigh)}</td>
+                    <td>{deg(m.mean)} ± {deg(m.std)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className={`text-xs p-2 rounded border mb-2 ${
+            result.yield < 0.99 ? 'text-amber-700 bg-amber-50 border-amber-100' : 'text-green-700 bg-green-50 border-green-100'
+          }`}>
+            Yield {(result.yield * 100).toFixed(1)}% · {result.assembledTrials} of {result.trials} trials assemble
+            {result.assembledTrials > 0 && <> · μ min {deg(result.metrics.transmissionMin.min)}° at worst</>}
+          </div>
+          {result.breaking.length > 0 && (
+            <div className="text-xs text-amber-700 mb-2">
+              The worst case is undefined:
+              {result.breaking.map(({ parameter, reason }) => (
+                <div key={parameter}>
+                  {PARAMETER_LABELS[parameter]} at its tolerance limit {reason === 'assembly'
+                    ? 'stops the linkage assembling over its input range'
+                    : 'lets the rocker turn fully'}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {bins && (
+            <div className="mb-3">
+              <div className="text-xs text-gray-500 mb-1">μ min distribution</div>
+              <div className="flex items-end gap-px h-12">
+                {bins.counts.map((count, i) => (
+                  <div
+                    key={i}
+                    className={bins.min + ((i + 0.5) / HISTOGRAM_BINS) * (bins.max - bins.min) < spec.minTransmission ? 'flex-1 bg-red-400' : 'flex-1 bg-blue-400'}
+                    style={{ height: `${(count / peak) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs font-mono text-gray-400">
+                <span>{deg(bins.min)}°</span>
+                <span>{deg(bins.max)}°</span>
+              </div>
+            </div>
+          )}
+
+          <div className="text-xs text-gray-500 mb-1">Effect of each tolerance (°)</div>
+          <table className="w-full text-xs font-mono text-gray-600">
+            <thead>
+              <tr className="text-gray-400 text-left">
+                <th className="font-normal"></th>
+                <th className="font-normal">Rocker min</th>
+                <th className="font-normal">μ min</th>
+                <th className="font-normal">θ4</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.sensitivities.map(({ parameter, effects }) => (
+                <tr key={parameter}>
+                  <td className="text-gray-500 font-sans">{PARAMETER_LABELS[parameter]}</td>
+                  <td>{deg(effects.rockerMin)}</td>
+                  <td>{deg(effects.transmissionMin)}</td>
+                  <td>{deg(effects.outputError)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {config.dyad && <div className="text-xs text-gray-400 mt-2">The six-bar's second loop is not included.</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TolerancePanel;
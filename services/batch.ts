@@ -0,0 +1,288 @@
+import { DesignReport, LimitSummary, MechanismClass, MechanismConfig, SweepRow } from '../types';
+import { toDegrees, getMechanismType } from './kinematics';
+import { classifyMechanism, calculateMechanismLimits, solveMechanism, findSpecialGeometry } from './mechanisms';
+import { validateMechanismConfig } from './designIO';
+
+export type BatchFormat = 'json' | 'csv';
+
+export interface BatchInput {
+  name: string;
+  config: MechanismConfig | null;
+  errors: string[];
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+/**
+ * Picks the file format from an explicit flag or the file extension
+ */
+export const detectFormat = (fileName: string, explicit?: string): BatchFormat | null => {
+  const format = (explicit ?? fileName.split('.').pop() ?? '').toLowerCase();
+  return format === 'json' || format === 'csv' ? format : null;
+};
+
+/**
+ * Splits CSV text into rows of fields, honouring double-quoted fields with "" escapes
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no design
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+};
+
+// Config field paths a CSV column may name; anything else would be dropped by validation
+const CONFIG_COLUMN = new RegExp('^(' + [
+  'type', 'r[1-4]', 'assemblyMode', 'sliderOffset', 'groundAngle', 'O2\\.[xy]',
+  'couplerPoints\\.\\d+\\.(along|offset)',
+  'massProperties\\.(crank|coupler|rocker)\\.(mass|inertia|centroid\\.(along|offset))',
+  'dyad\\.(attachment|r5|r6|assemblyMode|point\\.(along|offset)|O6\\.[xy])',
+  'tolerances\\.(length|singularity|nearSingular)'
+].join('|') + ')$');
+
+// Path segments that would reach an object's prototype
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Sets a value at a dotted path such as "couplerPoints.0.along", creating arrays for numeric segments
+ */
+const setPath = (target: Record<string, unknown>, path: string, value: unknown) => {
+  const keys = path.split('.');
+  if (keys.some(key => UNSAFE_KEYS.includes(key))) throw new Error(`Column "${path}" is not a config field`);
+  let node: Record<string, unknown> = target;
+  keys.forEach((key, i) => {
+    if (i === keys.length - 1) {
+      node[key] = value;
+      return;
+    }
+    if (node[key] === undefined) node[key] = /^\d+$/.test(keys[i + 1]) ? [] : {};
+    node = node[key] as Record<string, unknown>;
+  });
+};
+
+/**
+ * Validates one raw design, filling in the optional assembly mode and coupler points
+ */
+const toBatchInput = (raw: unknown, name: string, path: string): BatchInput => {
+  const errors: string[] = [];
+  const filled = isObject(raw) ? { assemblyMode: 1, couplerPoints: [], ...raw } : raw;
+  if (isObject(filled) && Array.isArray(filled.couplerPoints)) {
+    // Sparse CSV columns leave holes in the array
+    filled.couplerPoints = filled.couplerPoints.filter(p => p !== undefined);
+  }
+  const config = validateMechanismConfig(filled, path, errors);
+  return { name, config, errors };
+};
+
+/**
+ * Reads designs from a JSON array (or { designs: [...] }) of configs with optional `name` fields
+ */
+const parseJsonDesigns = (text: string): BatchInput[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Not valid JSON: ${(e as Error).message}`);
+  }
+  const list = isObject(raw) && Array.isArray(raw.designs) ? raw.designs : raw;
+  if (!Array.isArray(list)) throw new Error('Expected a JSON array of designs or an object with a "designs" array');
+
+  return list.map((entry, i) => {
+    const name = isObject(entry) && typeof entry.name === 'string' ? entry.name : `design-${i + 1}`;
+    return toBatchInput(entry, name, `designs[${i}]`);
+  });
+};
+
+/**
+ * Reads designs from CSV with one design per row. Headers are config field paths
+ * (type, r1, r2, r3, r4, assemblyMode, O2.x, O2.y, groundAngle, sliderOffset, couplerPoints.0.along, ...)
+ * plus an optional name.
+ */
+const parseCsvDesigns = (text: string): BatchInput[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('CSV file is empty');
+  const columns = header.map(h => h.trim());
+
+  return rows.map((row, i) => {
+    const raw: Record<string, unknown> = {};
+    const unknown: string[] = [];
+    let name = `design-${i + 1}`;
+    columns.forEach((column, c) => {
+      const cell = (row[c] ?? '').trim();
+      if (cell === '') return;
+      if (column === 'name') {
+        name = cell;
+        return;
+      }
+      // A mistyped header would otherwise leave the field at its default without a word
+      if (!CONFIG_COLUMN.test(column)) {
+        unknown.push(column);
+        return;
+      }
+      const value = Number(cell);
+      setPath(raw, column, isNaN(value) ? cell : value);
+    });
+    // Report problems against the spreadsheet row (header is row 1)
+    const path = `row ${i + 2}`;
+    const input = toBatchInput(raw, name, path);
+    if (unknown.length === 0) return input;
+    return { name, config: null, errors: [...unknown.map(column => `${path}: unknown column "${column}"`), ...input.errors] };
+  });
+};
+
+/**
+ * Parses a design list. Throws on a malformed file; per-design problems are reported in each entry.
+ */
+export const parseDesignList = (text: string, format: BatchFormat): BatchInput[] =>
+  format === 'json' ? parseJsonDesigns(text) : parseCsvDesigns(text);
+
+/**
+ * Mechanism class, limit positions and a full-cycle position sweep for one design of any mechanism type
+ */
+export const analyzeDesign = (input: BatchInput, samples = 360, includeSweep = false): DesignReport => {
+  const { name, config, errors } = input;
+  if (!config) {
+    return {
+      name, isValid: false, errors, config: null, grashofType: null, specialGeometry: null, limits: null,
+      samples: 0, assembledSamples: 0, fullRotation: false,
+      sweepTransmissionMin: null, sweepTransmissionMax: null
+    };
+  }
+
+  const grashofType: MechanismClass = classifyMechanism(config);
+  const { limitStateMin, limitStateMax, crankLimitStateMin, crankLimitStateMax, ...limits } = calculateMechanismLimits(config);
+  const summary: LimitSummary = limits;
+
+  // World-frame angles, matching the limit angles
+  const sweep: SweepRow[] = [];
+  for (let i = 0; i < samples; i++) {
+    const theta2 = (i / samples) * 2 * Math.PI;
+    const state = solveMechanism(config, theta2);
+    sweep.push({
+      theta2: toDegrees(theta2),
+      isValid: state.isValid,
+      theta3: state.isValid ? toDegrees(state.theta3) : NaN,
+      theta4: state.isValid ? toDegrees(state.theta4) : NaN,
+      transmissionAngle: state.isValid ? toDegrees(state.transmissionAngle) : NaN,
+      sliderPosition: state.isValid && state.sliderPosition !== undefined ? state.sliderPosition : NaN,
+      condition: state.condition ?? (state.isValid ? 'regular' : 'unassembled')
+    });
+  }
+
+  const assembled = sweep.filter(r => r.isValid);
+  const transmission = assembled.map(r => r.transmissionAngle);
+  return {
+    name,
+    isValid: true,
+    errors: [],
+    config,
+    grashofType,
+    specialGeometry: findSpecialGeometry(config),
+    limits: summary,
+    samples,
+    assembledSamples: assembled.length,
+    fullRotation: assembled.length === samples,
+    sweepTransmissionMin: transmission.length > 0 ? Math.min(...transmission) : null,
+    sweepTransmissionMax: transmission.length > 0 ? Math.max(...transmission) : null,
+    ...(includeSweep ? { sweep } : {})
+  };
+};
+
+/**
+ * JSON output; NaN sweep values (unassembled positions) become null
+ */
+export const formatReportsJson = (reports: DesignReport[]): string =>
+  JSON.stringify(reports, (_, v) => (typeof v === 'number' && !isFinite(v) ? null : v), 2);
+
+const csvField = (v: unknown): string => {
+  if (v === null || v === undefined || (typeof v === 'number' && !isFinite(v))) return '';
+  const s = typeof v === 'number' ? String(Number(v.toFixed(6))) : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+
+const SUMMARY_COLUMNS: [string, (r: DesignReport) => unknown][] = [
+  ['name', r => r.name],
+  ['isValid', r => r.isValid],
+  ['errors', r => r.errors.join('; ')],
+  ['r1', r => r.config?.r1],
+  ['r2', r => r.config?.r2],
+  ['r3', r => r.config?.r3],
+  ['r4', r => r.config?.r4],
+  ['type', r => (r.config ? getMechanismType(r.config) : null)],
+  ['assemblyMode', r => r.config?.assemblyMode],
+  ['sliderOffset', r => r.config?.sliderOffset],
+  ['grashofType', r => r.grashofType],
+  ['specialGeometry', r => r.specialGeometry],
+  ['hasRockerLimits', r => r.limits?.hasRockerLimits],
+  ['rockerMin', r => (r.limits?.hasRockerLimits ? r.limits.rockerMin : null)],
+  ['rockerMax', r => (r.limits?.hasRockerLimits ? r.limits.rockerMax : null)],
+  ['hasCrankLimits', r => r.limits?.hasCrankLimits],
+  ['crankMin', r => (r.limits?.hasCrankLimits ? r.limits.crankMin : null)],
+  ['crankMax', r => (r.limits?.hasCrankLimits ? r.limits.crankMax : null)],
+  ['hasStrokeLimits', r => r.limits?.hasStrokeLimits],
+  ['strokeMin', r => (r.limits?.hasStrokeLimits ? r.limits.strokeMin : null)],
+  ['strokeMax', r => (r.limits?.hasStrokeLimits ? r.limits.strokeMax : null)],
+  ['transmissionMin', r => r.limits?.transmissionMin],
+  ['transmissionMax', r => r.limits?.transmissionMax],
+  ['timeRatio', r => (r.limits?.hasTimeRatio ? r.limits.timeRatio : null)],
+  ['forwardSweep', r => (r.limits?.hasTimeRatio ? r.limits.forwardSweep : null)],
+  ['returnSweep', r => (r.limits?.hasTimeRatio ? r.limits.returnSweep : null)],
+  ['samples', r => r.samples],
+  ['assembledSamples', r => r.assembledSamples],
+  ['fullRotation', r => r.fullRotation],
+  ['sweepTransmissionMin', r => r.sweepTransmissionMin],
+  ['sweepTransmissionMax', r => r.sweepTransmissionMax]
+];
+
+/**
+ * One CSV row per design
+ */
+export const formatReportsCsv = (reports: DesignReport[]): string =>
+  toCsv(SUMMARY_COLUMNS.map(([h]) => h), reports.map(r => SUMMARY_COLUMNS.map(([, get]) => get(r))));
+
+/**
+ * Long-format CSV with one row per design and crank angle
+ */
+export const formatSweepCsv = (reports: DesignReport[]): string =>
+  toCsv(
+    ['name', 'theta2', 'isValid', 'theta3', 'theta4', 'transmissionAngle', 'sliderPosition', 'condition'],
+    reports.flatMap(r => (r.sweep ?? []).map(s => [
+      r.name, s.theta2, s.isValid, s.theta3, s.theta4, s.transmissionAngle, s.sliderPosition, s.condition
+    ]))
+  );
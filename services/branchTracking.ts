@@ -0,0 +1,104 @@
+import { MechanismConfig, MechanismState, LimitAnalysis, BranchEvent, BranchEventType, CircuitAnalysis, Point } from '../types';
+import { distance } from './kinematics';
+import { solveMechanism, getMechanism } from './mechanisms';
+
+// After an unassemblable gap, a B displacement beyond this fraction of the output's scale counts as a jump
+const JUMP_FRACTION = 0.1;
+
+export interface TrackedSolution {
+  state: MechanismState;
+  lastEvent: BranchEvent | null; // Most recent defect since the tracker was reset
+  branchDefects: number; // Toggle positions passed through since the last reset
+  circuitDefects: number; // Disassembly jumps since the last reset
+}
+
+export interface BranchTracker {
+  solve: (config: MechanismConfig, theta2: number) => TrackedSolution;
+  reset: () => void;
+}
+
+/**
+ * Creates a stateful solver that keeps the linkage on a continuous path.
+ * Instead of always using config.assemblyMode, each solve picks the branch whose B is closest
+ * to where B was heading (extrapolated from the last two valid solutions), so the output
+ * follows the physical motion through toggle positions. Branch switches are reported as branch
+ * defects; reappearing far from the last valid pose after an unassemblable region is reported
+ * as a circuit defect.
+ */
+export const createBranchTracker = (): BranchTracker => {
+  let history: MechanismState[] = []; // Last two valid states, oldest first
+  let crossedGap = false; // An unassemblable position was hit since the last valid state
+  let lastConfig: MechanismConfig | null = null;
+  let lastTheta2: number | null = null;
+  let lastSolution: TrackedSolution | null = null;
+  let lastEvent: BranchEvent | null = null;
+  let branchDefects = 0;
+  let circuitDefects = 0;
+
+  const reset = () => {
+    history = [];
+    crossedGap = false;
+    lastConfig = null;
+    lastTheta2 = null;
+    lastSolution = null;
+    lastEvent = null;
+    branchDefects = 0;
+    circuitDefects = 0;
+  };
+
+  const solve = (config: MechanismConfig, theta2: number): TrackedSolution => {
+    // Repeated solves of the same input (e.g. re-renders) must not advance the history
+    if (lastSolution && config === lastConfig && theta2 === lastTheta2) return lastSolution;
+    lastConfig = config;
+    lastTheta2 = theta2;
+
+    const open = solveMechanism(config, theta2, 1);
+    const crossed = solveMechanism(config, theta2, -1);
+
+    let state: MechanismState;
+    if (!open.isValid) {
+      state = solveMechanism(config, theta2);
+      crossedGap = history.length > 0;
+    } else if (history.length === 0) {
+      state = config.assemblyMode === 1 ? open : crossed;
+    } else {
+      const prev = history[history.length - 1];
+      // Continue B along its current direction of travel when we have two samples to go on
+      const predicted: Point = history.length === 2 && !crossedGap
+        ? { x: 2 * prev.B.x - history[0].B.x, y: 2 * prev.B.y - history[0].B.y }
+        : prev.B;
+      state = distance(open.B, predicted) <= distance(crossed.B, predicted) ? open : crossed;
+
+      if (crossedGap && distance(state.B, prev.B) > JUMP_FRACTION * getMechanism(config).outputScale(config)) {
+        circuitDefects++;
+        lastEvent = { type: BranchEventType.CIRCUIT_DEFECT, theta2 };
+      } else if (state.branch !== prev.branch) {
+        branchDefects++;
+        lastEvent = { type: BranchEventType.BRANCH_DEFECT, theta2 };
+      }
+      crossedGap = false;
+    }
+
+    if (state.isValid) {
+      history = [...history.slice(-1), state];
+    }
+
+    lastSolution = { state, lastEvent, branchDefects, circuitDefects };
+    return lastSolution;
+  };
+
+  return { solve, reset };
+};
+
+/**
+ * Counts circuits and branches for input-driven motion. The circuit count depends on the
+ * mechanism type (see MechanismDefinition.countCircuits). Whenever the input has toggle
+ * positions (crank limits), each circuit splits into two branches there.
+ */
+export const analyzeCircuits = (config: MechanismConfig, limits: LimitAnalysis): CircuitAnalysis => {
+  return {
+    circuits: getMechanism(config).countCircuits(config, limits),
+    branchesPerCircuit: limits.hasCrankLimits ? 2 : 1,
+    toggleAngles: limits.hasCrankLimits ? [limits.crankMin, limits.crankMax] : []
+  };
+};
@@ -0,0 +1,112 @@
+import { MechanismConfig, LinkConstraints, LinkEditResult, LinkKey } from '../types';
+import { getGrashofType, getMechanismType, lengthTolerance } from './kinematics';
+import { getMechanism, calculateMechanismLimits } from './mechanisms';
+
+export const LINK_KEYS: LinkKey[] = ['r1', 'r2', 'r3', 'r4'];
+
+export const NO_CONSTRAINTS: LinkConstraints = { locked: [], ratio: null, grashofMargin: null };
+
+// Links moved to hold the Grashof margin, in order of preference: the coupler is rarely the dimension a drawing fixes
+const GRASHOF_ADJUST_ORDER: LinkKey[] = ['r3', 'r4', 'r1', 'r2'];
+
+type LinkLengths = Record<LinkKey, number>;
+
+const fail = (error: string): LinkEditResult => ({ isValid: false, error, config: null, adjusted: [] });
+
+/**
+ * (p + q) - (s + l) of a four-bar's lengths: positive for Grashof linkages, zero at a change point
+ */
+export const grashofMargin = (lengths: LinkLengths): number => {
+  const [s, p, q, l] = LINK_KEYS.map(k => lengths[k]).sort((a, b) => a - b);
+  return p + q - (s + l);
+};
+
+/**
+ * Length of one link that gives the others the wanted Grashof margin, nearest its current
+ * length. The margin is piecewise linear in the link: it falls while the link is the shortest
+ * or longest and rises while it is one of the middle two, so there are up to three candidates.
+ */
+const solveGrashofLink = (lengths: LinkLengths, key: LinkKey, margin: number): number | null => {
+  const [a, b, c] = LINK_KEYS.filter(k => k !== key).map(k => lengths[k]).sort((x, y) => x - y);
+  const candidates = [
+    { x: a + b - c - margin, valid: (x: number) => x <= a }, // Shortest
+    { x: margin + a + c - b, valid: (x: number) => x >= a && x <= c }, // p or q
+    { x: b + c - a - margin, valid: (x: number) => x >= c } // Longest
+  ].filter(({ x, valid }) => x > 0 && valid(x)).map(({ x }) => x);
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, x) => (Math.abs(x - lengths[key]) < Math.abs(best - lengths[key]) ? x : best));
+};
+
+/**
+ * Sets one link length and moves the others as the constraints require: the ratio partner
+ * follows the edited link, then a free link takes up the Grashof margin. Constraints on links
+ * the mechanism type does not use are ignored.
+ */
+export const applyLinkEdit = (
+  config: MechanismConfig,
+  key: LinkKey,
+  value: number,
+  constraints: LinkConstraints
+): LinkEditResult => {
+  if (!isFinite(value) || value <= 0) return fail(`${key} must be a positive length`);
+  if (constraints.locked.includes(key)) return fail(`${key} is locked`);
+
+  const mechanism = getMechanism(config);
+  const eps = lengthTolerance(config);
+  const lengths: LinkLengths = { r1: config.r1, r2: config.r2, r3: config.r3, r4: config.r4, [key]: value };
+  const adjusted: LinkKey[] = [];
+
+  const ratio = constraints.ratio && mechanism.links[constraints.ratio.numerator] && mechanism.links[constraints.ratio.denominator]
+    ? constraints.ratio
+    : null;
+  if (ratio && (key === ratio.numerator || key === ratio.denominator)) {
+    const partner = key === ratio.numerator ? ratio.denominator : ratio.numerator;
+    const length = key === ratio.numerator ? value / ratio.value : value * ratio.value;
+    if (Math.abs(length - lengths[partner]) > eps) {
+      if (constraints.locked.includes(partner)) {
+        return fail(`Holding ${ratio.numerator}/${ratio.denominator} would move ${partner}, which is locked`);
+      }
+      lengths[partner] = length;
+      adjusted.push(partner);
+    }
+  }
+
+  if (constraints.grashofMargin !== null && getMechanismType(config) === 'four-bar') {
+    const held = new Set<LinkKey>([key, ...constraints.locked, ...(ratio ? [ratio.numerator, ratio.denominator] : [])]);
+    const free = GRASHOF_ADJUST_ORDER.filter(k => !held.has(k));
+    if (Math.abs(grashofMargin(lengths) - constraints.grashofMargin) > eps) {
+      if (free.length === 0) return fail('No free link is left to hold the Grashof sum');
+      const solutions = free.map(k => ({ link: k, length: solveGrashofLink(lengths, k, constraints.grashofMargin!) }));
+      const solution = solutions.find(s => s.length !== null);
+      if (!solution) return fail(`No length of ${free.join(', ')} holds the Grashof sum at this ${key}`);
+      lengths[solution.link] = solution.length!;
+      adjusted.push(solution.link);
+    }
+  }
+
+  return { isValid: true, config: { ...config, ...lengths }, adjusted };
+};
+
+/**
+ * Holds a new ratio value by moving the numerator, or the denominator when the numerator is locked
+ */
+export const applyRatioValue = (config: MechanismConfig, constraints: LinkConstraints, value: number): LinkEditResult => {
+  if (!constraints.ratio) return fail('No ratio is held');
+  if (!isFinite(value) || value <= 0) return fail('The ratio must be positive');
+  const { numerator, denominator } = constraints.ratio;
+  const next: LinkConstraints = { ...constraints, ratio: { numerator, denominator, value } };
+  return constraints.locked.includes(numerator)
+    ? applyLinkEdit(config, denominator, config[numerator] / value, next)
+    : applyLinkEdit(config, numerator, config[denominator] * value, next);
+};
+
+/**
+ * Why a config cannot be assembled at any input angle, or null if it can
+ */
+export const assemblyWarning = (config: MechanismConfig): string | null => {
+  if (!isNaN(calculateMechanismLimits(config).transmissionMin)) return null;
+  if (getMechanismType(config) !== 'four-bar') return 'The links cannot close at any crank angle';
+  // An unassemblable four-bar is a triple-rocker whose longest link outreaches the other three
+  const longest = LINK_KEYS.reduce((best, k) => (config[k] > config[best] ? k : best));
+  return `${getGrashofType(config)}: ${getMechanism(config).links[longest]} is longer than the other three links together`;
+};
@@ -0,0 +1,160 @@
+import { MechanismConfig, MechanismState, CycleSample, LimitAnalysis, Point, SweptEnvelope, SweptLinkId } from '../types';
+import { advanceCrank, getMechanismType, toRadians } from './kinematics';
+import { solveMechanism, solveMechanismMotion } from './mechanisms';
+
+/**
+ * Sweeps the crank over one revolution and solves position and velocity ratios at each step.
+ * Only assembled samples are returned. If part of the revolution is unreachable (non-Grashof
+ * or rocker-input linkages), the sweep starts inside the unreachable region so that each valid
+ * range comes out as one contiguous run of increasing theta2.
+ */
+export const sweepCycle = (config: MechanismConfig, samples: number = 360): CycleSample[] => {
+  const step = (2 * Math.PI) / samples;
+
+  // Find an input angle where the linkage cannot be assembled to start from
+  let start = 0;
+  for (let i = 0; i < samples; i++) {
+    if (!solveMechanism(config, i * step).isValid) {
+      start = i * step;
+      break;
+    }
+  }
+
+  const result: CycleSample[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const theta2 = start + i * step;
+    const state = solveMechanism(config, theta2);
+    if (!state.isValid) continue;
+    result.push({ theta2, state, motion: solveMechanismMotion(config, state, 1, 0) });
+  }
+  return result;
+};
+
+/**
+ * Traces the coupler curve of every coupler point over a full crank revolution.
+ * Result is indexed [point][segment][sample]; the curve is split into separate
+ * segments wherever the linkage cannot be assembled.
+ */
+export const traceCouplerCurves = (config: MechanismConfig, samples: number = 360): Point[][][] => {
+  const curves: Point[][][] = config.couplerPoints.map(() => []);
+  let wasValid = false;
+
+  for (let i = 0; i <= samples; i++) {
+    const state = solveMechanism(config, (i / samples) * 2 * Math.PI);
+    if (!state.isValid) {
+      wasValid = false;
+      continue;
+    }
+    state.couplerPoints.forEach((p, idx) => {
+      if (!wasValid) curves[idx].push([]);
+      const segments = curves[idx];
+      segments[segments.length - 1].push(p);
+    });
+    wasValid = true;
+  }
+
+  return curves;
+};
+
+/**
+ * Maps an angle into the unwrapped window [start, start + 2PI) used by a sweep
+ */
+export const unwrapToWindow = (angle: number, start: number): number => {
+  let a = angle;
+  while (a < start) a += 2 * Math.PI;
+  while (a >= start + 2 * Math.PI) a -= 2 * Math.PI;
+  return a;
+};
+
+/**
+ * Crank angles for one animation cycle of `frames` evenly spaced frames, stepped exactly as the
+ * live animation does: a full turn from startTheta2, or there and back between the crank limits.
+ */
+export const animationCycleAngles = (limits: LimitAnalysis, frames: number, startTheta2: number): number[] => {
+  const span = limits.hasCrankLimits
+    ? 2 * toRadians(limits.crankMax - limits.crankMin)
+    : 2 * Math.PI;
+  const step = span / frames;
+
+  // A zero step still pulls the start angle inside the limits
+  let { theta2, direction } = advanceCrank(limits.hasCrankLimits ? toRadians(limits.crankMin) : startTheta2, 0, 1, limits);
+  const angles: number[] = [];
+  for (let i = 0; i < frames; i++) {
+    angles.push(theta2);
+    ({ theta2, direction } = advanceCrank(theta2, step, direction, limits));
+  }
+  return angles;
+};
+
+/**
+ * Pieces of each moving link at one position: segments for bars and triangles for plates, so
+ * that their union is the link's outline. The inverted slider-crank's guide is as long as drawn.
+ */
+const linkShapes = (config: MechanismConfig, state: MechanismState): Record<SweptLinkId, Point[][]> => {
+  const { A, B, O4 } = state;
+  const type = getMechanismType(config);
+  const dyad = config.dyad && state.dyad?.isValid ? state.dyad : null;
+  const shapes: Record<SweptLinkId, Point[][]> = { crank: [[state.O2, A]], coupler: [[A, B]], output: [], link5: [], link6: [] };
+
+  state.couplerPoints.forEach(p => shapes.coupler.push([A, B, p]));
+  if (type === 'four-bar') shapes.output.push([O4, B]);
+  if (type === 'inverted-slider-crank') {
+    const length = state.branch * Math.max(config.r4, Math.abs(state.sliderPosition ?? 0));
+    shapes.output.push([O4, { x: O4.x + length * Math.cos(state.theta4), y: O4.y + length * Math.sin(state.theta4) }]);
+  }
+  if (dyad) {
+    if (config.dyad!.attachment === 'coupler') shapes.coupler.push([A, B, dyad.C]);
+    else shapes.output.push([O4, B, dyad.C]);
+    shapes.link5.push([dyad.C, dyad.D]);
+    shapes.link6.push([dyad.O6, dyad.D]);
+  }
+  return shapes;
+};
+
+// The triangle turned counter-clockwise, so overlapping triangles never cancel under a nonzero fill
+const counterClockwise = (a: Point, b: Point, c: Point): Point[] =>
+  (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x) < 0 ? [a, c, b] : [a, b, c];
+
+/**
+ * Area each moving link passes over during one animation cycle, for checking clearance against
+ * the machine frame. Between consecutive positions every edge of a link sweeps a quadrilateral,
+ * which together with the link's own plates at each position covers the swept area.
+ */
+export const traceSweptEnvelope = (config: MechanismConfig, limits: LimitAnalysis, samples: number = 120): SweptEnvelope => {
+  const angles = animationCycleAngles(limits, samples, 0);
+  // A full turn closes back on its first position
+  if (!limits.hasCrankLimits) angles.push(angles[0] + 2 * Math.PI);
+  const positions = angles.map(theta2 => solveMechanism(config, theta2)).map(state => (state.isValid ? linkShapes(config, state) : null));
+
+  const ids: SweptLinkId[] = ['crank', 'coupler', 'output', 'link5', 'link6'];
+  const links = ids.map(link => {
+    const triangles: Point[][] = [];
+    positions.forEach((shapes, i) => {
+      if (!shapes) return;
+      shapes[link].forEach(shape => {
+        if (shape.length === 3) triangles.push(counterClockwise(shape[0], shape[1], shape[2]));
+      });
+      const next = positions[i + 1];
+      // Shapes only match up when the link has the same pieces at both positions (the dyad may fail to close)
+      if (!next || next[link].length !== shapes[link].length) return;
+      shapes[link].forEach((shape, s) => {
+        const moved = next[link][s];
+        shape.forEach((p, k) => {
+          if (shape.length === 2 && k === 1) return;
+          const j = (k + 1) % shape.length;
+          triangles.push(counterClockwise(p, shape[j], moved[j]), counterClockwise(p, moved[j], moved[k]));
+        });
+      });
+    });
+    return { link, triangles };
+  }).filter(({ triangles }) => triangles.length > 0);
+
+  const envelope: SweptEnvelope = { links, minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  links.forEach(({ triangles }) => triangles.forEach(triangle => triangle.forEach(p => {
+    envelope.minX = Math.min(envelope.minX, p.x);
+    envelope.minY = Math.min(envelope.minY, p.y);
+    envelope.maxX = Math.max(envelope.maxX, p.x);
+    envelope.maxY = Math.max(envelope.maxY, p.y);
+  })));
+  return links.length > 0 ? envelope : { links, minX: NaN, minY: NaN, maxX: NaN, maxY: NaN };
+};
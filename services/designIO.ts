@@ -0,0 +1,318 @@
+import {
+  DesignDocument, DesignParseResult, MechanismConfig, MechanismType, MassProperties, LinkMassProperties, Point, ViewState, DyadConfig,
+  Tolerances, UnitSettings, LengthUnit
+} from '../types';
+import { MECHANISM_TYPES } from './mechanisms';
+import { LENGTH_UNITS } from './units';
+
+export const DESIGN_SCHEMA_VERSION = 1;
+
+// Key used in the URL hash, e.g. #design=<base64url JSON>
+const HASH_KEY = 'design';
+
+const LINKS: (keyof MassProperties)[] = ['crank', 'coupler', 'rocker'];
+
+const TOLERANCE_KEYS: (keyof Tolerances)[] = ['length', 'singularity', 'nearSingular'];
+
+const copyLinkMass = (raw: Record<string, unknown>): LinkMassProperties => {
+  const centroid = raw.centroid as Record<string, number>;
+  return {
+    mass: raw.mass as number,
+    centroid: { along: centroid.along, offset: centroid.offset },
+    inertia: raw.inertia as number
+  };
+};
+
+const copyDyad = (raw: Record<string, unknown>): DyadConfig => {
+  const point = raw.point as Record<string, number>;
+  const O6 = raw.O6 as Point;
+  return {
+    attachment: raw.attachment as DyadConfig['attachment'],
+    point: { along: point.along, offset: point.offset },
+    r5: raw.r5 as number,
+    r6: raw.r6 as number,
+    O6: { x: O6.x, y: O6.y },
+    assemblyMode: raw.assemblyMode as 1 | -1
+  };
+};
+
+// Only the overrides present in the file are kept, so the rest follow DEFAULT_TOLERANCES
+const copyTolerances = (raw: Record<string, unknown>): Partial<Tolerances> =>
+  Object.fromEntries(TOLERANCE_KEYS.filter(key => raw[key] !== undefined).map(key => [key, raw[key] as number]));
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && isFinite(v);
+
+/**
+ * Field checkers that append a path-prefixed message to `errors` for each problem
+ */
+const createCheckers = (errors: string[]) => {
+  const number = (obj: Record<string, unknown>, key: string, path: string, opts: { positive?: boolean; nonNegative?: boolean; optional?: boolean } = {}) => {
+    const v = obj[key];
+    if (v === undefined && opts.optional) return;
+    if (!isFiniteNumber(v)) errors.push(`${path}.${key} must be a finite number`);
+    else if (opts.positive && v <= 0) errors.push(`${path}.${key} must be greater than 0`);
+    else if (opts.nonNegative && v < 0) errors.push(`${path}.${key} must not be negative`);
+  };
+
+  const point = (obj: Record<string, unknown>, key: string, path: string, optional = false) => {
+    const v = obj[key];
+    if (v === undefined && optional) return;
+    if (!isObject(v)) {
+      errors.push(`${path}.${key} must be an object with x and y`);
+      return;
+    }
+    number(v, 'x', `${path}.${key}`);
+    number(v, 'y', `${path}.${key}`);
+  };
+
+  return { number, point };
+};
+
+/**
+ * Validates a mechanism configuration, appending problems to `errors`.
+ * Returns a copy holding only the known fields, or null if anything was wrong.
+ */
+export const validateMechanismConfig = (config: unknown, path: string, errors: string[]): MechanismConfig | null => {
+  const before = errors.length;
+  const { number, point } = createCheckers(errors);
+
+  if (!isObject(config)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  if (config.type !== undefined && !MECHANISM_TYPES.includes(config.type as MechanismType)) {
+    errors.push(`${path}.type must be one of ${MECHANISM_TYPES.join(', ')}`);
+  }
+  ['r1', 'r2', 'r3', 'r4'].forEach(key => number(config, key, path, { positive: true }));
+  if (config.assemblyMode !== 1 && config.assemblyMode !== -1) {
+    errors.push(`${path}.assemblyMode must be 1 (open) or -1 (crossed)`);
+  }
+  if (!Array.isArray(config.couplerPoints)) {
+    errors.push(`${path}.couplerPoints must be an array`);
+  } else {
+    config.couplerPoints.forEach((p, i) => {
+      const pointPath = `${path}.couplerPoints[${i}]`;
+      if (!isObject(p)) {
+        errors.push(`${pointPath} must be an object with along and offset`);
+        return;
+      }
+      number(p, 'along', pointPath);
+      number(p, 'offset', pointPath);
+    });
+  }
+  point(config, 'O2', path, true);
+  number(config, 'groundAngle', path, { optional: true });
+  number(config, 'sliderOffset', path, { optional: true });
+  if (config.massProperties !== undefined) {
+    const mass = config.massProperties;
+    if (!isObject(mass)) {
+      errors.push(`${path}.massProperties must be an object with crank, coupler and rocker`);
+    } else {
+      LINKS.forEach(link => {
+        const linkPath = `${path}.massProperties.${link}`;
+        const props = mass[link];
+        if (!isObject(props)) {
+          errors.push(`${linkPath} must be an object with mass, centroid and inertia`);
+          return;
+        }
+        number(props, 'mass', linkPath, { nonNegative: true });
+        number(props, 'inertia', linkPath, { nonNegative: true });
+        if (!isObject(props.centroid)) {
+          errors.push(`${linkPath}.centroid must be an object with along and offset`);
+        } else {
+          number(props.centroid, 'along', `${linkPath}.centroid`);
+          number(props.centroid, 'offset', `${linkPath}.centroid`);
+        }
+      });
+    }
+  }
+
+  if (config.dyad !== undefined) {
+    const dyad = config.dyad;
+    const dyadPath = `${path}.dyad`;
+    if (!isObject(dyad)) {
+      errors.push(`${dyadPath} must be an object with attachment, point, r5, r6, O6 and assemblyMode`);
+    } else {
+      if (dyad.attachment !== 'coupler' && dyad.attachment !== 'rocker') {
+        errors.push(`${dyadPath}.attachment must be "coupler" or "rocker"`);
+      }
+      if (!isObject(dyad.point)) {
+        errors.push(`${dyadPath}.point must be an object with along and offset`);
+      } else {
+        number(dyad.point, 'along', `${dyadPath}.point`);
+        number(dyad.point, 'offset', `${dyadPath}.point`);
+      }
+      number(dyad, 'r5', dyadPath, { positive: true });
+      number(dyad, 'r6', dyadPath, { positive: true });
+      point(dyad, 'O6', dyadPath);
+      if (dyad.assemblyMode !== 1 && dyad.assemblyMode !== -1) {
+        errors.push(`${dyadPath}.assemblyMode must be 1 (open) or -1 (crossed)`);
+      }
+    }
+  }
+
+  if (config.tolerances !== undefined) {
+    const tolerances = config.tolerances;
+    if (!isObject(tolerances)) {
+      errors.push(`${path}.tolerances must be an object with any of ${TOLERANCE_KEYS.join(', ')}`);
+    } else {
+      TOLERANCE_KEYS.forEach(key => number(tolerances, key, `${path}.tolerances`, { positive: true, optional: true }));
+    }
+  }
+
+  if (errors.length > before) return null;
+
+  // Copy only the known fields so stray keys don't leak into app state
+  const c = config;
+  const mass = c.massProperties as Record<string, Record<string, unknown>> | undefined;
+  return {
+    ...(c.type !== undefined ? { type: c.type as MechanismType } : {}),
+    r1: c.r1 as number,
+    r2: c.r2 as number,
+    r3: c.r3 as number,
+    r4: c.r4 as number,
+    assemblyMode: c.assemblyMode as 1 | -1,
+    couplerPoints: (c.couplerPoints as Record<string, number>[]).map(p => ({ along: p.along, offset: p.offset })),
+    ...(c.O2 !== undefined ? { O2: { x: (c.O2 as Point).x, y: (c.O2 as Point).y } } : {}),
+    ...(c.groundAngle !== undefined ? { groundAngle: c.groundAngle as number } : {}),
+    ...(c.sliderOffset !== undefined ? { sliderOffset: c.sliderOffset as number } : {}),
+    ...(mass !== undefined ? {
+      massProperties: {
+        crank: copyLinkMass(mass.crank),
+        coupler: copyLinkMass(mass.coupler),
+        rocker: copyLinkMass(mass.rocker)
+      }
+    } : {}),
+    ...(c.dyad !== undefined ? { dyad: copyDyad(c.dyad as Record<string, unknown>) } : {}),
+    ...(c.tolerances !== undefined ? { tolerances: copyTolerances(c.tolerances as Record<string, unknown>) } : {})
+  };
+};
+
+/**
+ * Validates a value against the design schema, collecting every problem rather than stopping at the first
+ */
+const validateDesign = (raw: unknown): DesignParseResult => {
+  const errors: string[] = [];
+  const { number, point } = createCheckers(errors);
+
+  if (!isObject(raw)) {
+    return { isValid: false, document: null, errors: ['Design must be a JSON object'] };
+  }
+
+  if (raw.version === undefined) {
+    errors.push('version is missing');
+  } else if (raw.version !== DESIGN_SCHEMA_VERSION) {
+    errors.push(`version ${JSON.stringify(raw.version)} is not supported (expected ${DESIGN_SCHEMA_VERSION})`);
+  }
+
+  const config = validateMechanismConfig(raw.config, 'config', errors);
+
+  if (!isFiniteNumber(raw.theta2)) errors.push('theta2 must be a finite number');
+  if (!isFiniteNumber(raw.speed) || raw.speed <= 0) errors.push('speed must be a number greater than 0');
+
+  const view = raw.view;
+  if (!isObject(view)) {
+    errors.push('view must be an object with pan and zoom');
+  } else {
+    point(view, 'pan', 'view');
+    number(view, 'zoom', 'view', { positive: true });
+  }
+
+  const units = raw.units;
+  if (units !== undefined) {
+    if (!isObject(units)) {
+      errors.push('units must be an object with length and scale');
+    } else {
+      if (!Object.keys(LENGTH_UNITS).includes(units.length as string)) {
+        errors.push(`units.length must be one of ${Object.keys(LENGTH_UNITS).join(', ')}`);
+      }
+      number(units, 'scale', 'units', { positive: true });
+    }
+  }
+
+  if (errors.length > 0 || !config) return { isValid: false, document: null, errors };
+
+  const v = view as Record<string, unknown>;
+  const document: DesignDocument = {
+    version: DESIGN_SCHEMA_VERSION,
+    config,
+    theta2: raw.theta2 as number,
+    speed: raw.speed as number,
+    view: {
+      pan: { x: (v.pan as Point).x, y: (v.pan as Point).y },
+      zoom: v.zoom as number
+    },
+    ...(isObject(units) ? { units: { length: units.length as LengthUnit, scale: units.scale as number } } : {})
+  };
+  return { isValid: true, document, errors: [] };
+};
+
+/**
+ * Builds a versioned design document from the app's state
+ */
+export const createDesignDocument = (
+  config: MechanismConfig,
+  theta2: number,
+  speed: number,
+  view: ViewState,
+  units: UnitSettings
+): DesignDocument => ({
+  version: DESIGN_SCHEMA_VERSION,
+  config,
+  theta2,
+  speed,
+  view,
+  units
+});
+
+/**
+ * Serializes a design document as pretty-printed JSON for saving to a file
+ */
+export const serializeDesign = (doc: DesignDocument): string => JSON.stringify(doc, null, 2);
+
+/**
+ * Parses and validates a design from JSON text
+ */
+export const parseDesign = (text: string): DesignParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { isValid: false, document: null, errors: [`Not valid JSON: ${(e as Error).message}`] };
+  }
+  return validateDesign(raw);
+};
+
+/**
+ * Encodes a design as a URL hash fragment (#design=<base64url JSON>)
+ */
+export const encodeDesignHash = (doc: DesignDocument): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(doc));
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  const base64 = btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `#${HASH_KEY}=${base64}`;
+};
+
+/**
+ * Decodes a design from a URL hash fragment. Returns null if the hash holds no design.
+ */
+export const decodeDesignHash = (hash: string): DesignParseResult | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(HASH_KEY);
+  if (!encoded) return null;
+
+  let text: string;
+  try {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    text = new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+  } catch {
+    return { isValid: false, document: null, errors: ['The design link is corrupted and could not be decoded'] };
+  }
+  return parseDesign(text);
+};
@@ -0,0 +1,61 @@
+import { MechanismConfig, DesignSpaceSpec, DesignSpaceMap, DesignSpaceCell, RatioLink, GrashofType } from '../types';
+import { getGrashofType, calculateLimits } from './kinematics';
+
+export const RATIO_LINKS: RatioLink[] = ['r2', 'r3', 'r4'];
+
+/**
+ * The link ratio left fixed when the other two are on the axes
+ */
+export const getFixedLink = (xLink: RatioLink, yLink: RatioLink): RatioLink =>
+  RATIO_LINKS.find(l => l !== xLink && l !== yLink) ?? 'r4';
+
+/**
+ * A closed loop needs the longest link to be shorter than the other three combined
+ */
+const canAssemble = ({ r1, r2, r3, r4 }: MechanismConfig) =>
+  r2 > 0 && r3 > 0 && r4 > 0 && 2 * Math.max(r1, r2, r3, r4) < r1 + r2 + r3 + r4;
+
+/**
+ * The current design with two links set from ratios to its ground length
+ */
+export const configAtRatios = (
+  config: MechanismConfig,
+  xLink: RatioLink,
+  xRatio: number,
+  yLink: RatioLink,
+  yRatio: number
+): MechanismConfig => ({
+  ...config,
+  type: 'four-bar',
+  [xLink]: xRatio * config.r1,
+  [yLink]: yRatio * config.r1
+});
+
+/**
+ * Classifies a grid of designs over two link ratios, holding r1 and the third link at the current design's values
+ */
+export const exploreDesignSpace = (config: MechanismConfig, spec: DesignSpaceSpec): DesignSpaceMap => {
+  const { xLink, yLink, xRange, yRange, resolution } = spec;
+  const fixedLink = getFixedLink(xLink, yLink);
+  const cellCenter = (range: [number, number], i: number) =>
+    range[0] + ((i + 0.5) / resolution) * (range[1] - range[0]);
+
+  const cells: DesignSpaceCell[][] = [];
+  for (let j = 0; j < resolution; j++) {
+    const row: DesignSpaceCell[] = [];
+    const yRatio = cellCenter(yRange, j);
+    for (let i = 0; i < resolution; i++) {
+      const xRatio = cellCenter(xRange, i);
+      const candidate = configAtRatios(config, xLink, xRatio, yLink, yRatio);
+      row.push({
+        xRatio,
+        yRatio,
+        grashofType: canAssemble(candidate) ? getGrashofType(candidate) : GrashofType.INVALID,
+        transmissionMin: canAssemble(candidate) ? calculateLimits(candidate).transmissionMin : null
+      });
+    }
+    cells.push(row);
+  }
+
+  return { cells, fixedLink, fixedRatio: config[fixedLink] / config.r1 };
+};
@@ -0,0 +1,131 @@
+import {
+  MechanismConfig, MechanismState, ExternalLoad, LinkMassProperties, MassProperties,
+  DynamicState, DynamicsCycle, Point
+} from '../types';
+import { calculateCouplerPoint, getMechanismType } from './kinematics';
+import { solveMotion, rotationalAcceleration, add, sub } from './motion';
+import { solveJointForces, LinkLoads, FOUR_BAR_ONLY } from './forces';
+import { sweepCycle } from './cycle';
+
+// Default linear density for links without explicit mass properties (about a 10 mm steel bar)
+const DEFAULT_LINEAR_DENSITY = 0.0008; // kg/mm
+// Lengths are in mm, so m·a (kg·mm/s²) and I·α (kg·mm²/s²) need scaling to N and N·mm
+const MM_TO_M = 1e-3;
+
+const ZERO: Point = { x: 0, y: 0 };
+
+/**
+ * Mass properties of a uniform slender bar of the given length
+ */
+export const uniformBar = (length: number): LinkMassProperties => {
+  const mass = DEFAULT_LINEAR_DENSITY * length;
+  return {
+    mass,
+    centroid: { along: length / 2, offset: 0 },
+    inertia: (mass * length * length) / 12
+  };
+};
+
+/**
+ * The configured mass properties, falling back to uniform bars
+ */
+export const getMassProperties = (config: MechanismConfig): MassProperties =>
+  config.massProperties ?? {
+    crank: uniformBar(config.r2),
+    coupler: uniformBar(config.r3),
+    rocker: uniformBar(config.r4)
+  };
+
+const invalidDynamics = (error: string): DynamicState => ({
+  isValid: false,
+  error,
+  pinForces: { O2: ZERO, A: ZERO, B: ZERO, O4: ZERO },
+  drivingTorque: 0,
+  shakingForce: ZERO,
+  shakingMoment: 0
+});
+
+/**
+ * Inverse dynamics at one position: the driving torque and frame reactions needed for the
+ * crank to move at omega2 / alpha2 against the link inertias and an optional external load.
+ * Inertia is applied as d'Alembert loads (-m aG at the centroid, -I α on the link); gravity is ignored.
+ */
+export const solveDynamics = (
+  config: MechanismConfig,
+  state: MechanismState,
+  omega2: number,
+  alpha2: number,
+  load?: ExternalLoad
+): DynamicState => {
+  if (getMechanismType(config) !== 'four-bar') return invalidDynamics(FOUR_BAR_ONLY);
+  if (!state.isValid) return invalidDynamics('Mechanism cannot be assembled at this position');
+  const motion = solveMotion(config, state, omega2, alpha2);
+  if (!motion.isValid) return invalidDynamics('Dead point: accelerations are undefined in the toggle position');
+
+  const mass = getMassProperties(config);
+  const G2 = calculateCouplerPoint(state.O2, state.theta2, mass.crank.centroid);
+  const G3 = calculateCouplerPoint(state.A, state.theta3, mass.coupler.centroid);
+  const G4 = calculateCouplerPoint(state.O4, state.theta4, mass.rocker.centroid);
+
+  const aG2 = rotationalAcceleration(omega2, alpha2, sub(G2, state.O2));
+  const aG3 = add(motion.aA, rotationalAcceleration(motion.omega3, motion.alpha3, sub(G3, state.A)));
+  const aG4 = rotationalAcceleration(motion.omega4, motion.alpha4, sub(G4, state.O4));
+
+  const inertial = (link: LinkMassProperties, G: Point, aG: Point, alpha: number) => ({
+    force: { x: -link.mass * aG.x * MM_TO_M, y: -link.mass * aG.y * MM_TO_M },
+    point: G,
+    torque: -link.inertia * alpha * MM_TO_M
+  });
+
+  const loads: LinkLoads = {
+    crank: [inertial(mass.crank, G2, aG2, alpha2)],
+    coupler: [inertial(mass.coupler, G3, aG3, motion.alpha3)],
+    rocker: [inertial(mass.rocker, G4, aG4, motion.alpha4)]
+  };
+  if (load?.target === 'rocker') {
+    loads.rocker.push({ force: load.force, point: state.B, torque: load.torque });
+  } else if (load?.target === 'coupler') {
+    const point = config.couplerPoints[load.couplerPointIndex];
+    if (point) {
+      loads.coupler.push({ force: load.force, point: calculateCouplerPoint(state.A, state.theta3, point), torque: load.torque });
+    }
+  }
+
+  const forces = solveJointForces(state, loads);
+  if (!forces.isValid) return invalidDynamics(forces.error ?? 'Joint forces could not be solved');
+
+  // The frame carries the reactions to the ground pins and to the driving torque
+  const { O2: F12, O4: F14 } = forces.pinForces;
+  const r14 = sub(state.O4, state.O2);
+  return {
+    isValid: true,
+    pinForces: forces.pinForces,
+    drivingTorque: forces.inputTorque,
+    shakingForce: { x: -(F12.x + F14.x), y: -(F12.y + F14.y) },
+    shakingMoment: -forces.inputTorque - (r14.x * F14.y - r14.y * F14.x)
+  };
+};
+
+/**
+ * Inverse dynamics over a full cycle at constant crank speed, with peak and RMS summaries
+ */
+export const analyzeDynamicsCycle = (
+  config: MechanismConfig,
+  omega2: number,
+  load?: ExternalLoad,
+  samples = 360
+): DynamicsCycle => {
+  const results = sweepCycle(config, samples)
+    .map(s => ({ theta2: s.theta2, dynamics: solveDynamics(config, s.state, omega2, 0, load) }));
+
+  const valid = results.filter(s => s.dynamics.isValid).map(s => s.dynamics);
+  const n = valid.length || 1;
+  return {
+    samples: results,
+    peakTorque: valid.reduce((m, d) => Math.max(m, Math.abs(d.drivingTorque)), 0),
+    rmsTorque: Math.sqrt(valid.reduce((sum, d) => sum + d.drivingTorque * d.drivingTorque, 0) / n),
+    meanTorque: valid.reduce((sum, d) => sum + d.drivingTorque, 0) / n,
+    peakShakingForce: valid.reduce((m, d) => Math.max(m, Math.hypot(d.shakingForce.x, d.shakingForce.y)), 0),
+    peakShakingMoment: valid.reduce((m, d) => Math.max(m, Math.abs(d.shakingMoment)), 0)
+  };
+};
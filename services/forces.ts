@@ -0,0 +1,117 @@
+import { MechanismConfig, MechanismState, ExternalLoad, ForceAnalysis, Point } from '../types';
+import { calculateCouplerPoint, getMechanismType } from './kinematics';
+import { solveLinearSystem } from './linearAlgebra';
+
+/**
+ * A force acting at a point on a link, plus a pure moment on that link
+ */
+export interface LinkLoad {
+  force: Point;
+  point: Point;
+  torque: number;
+}
+
+export interface LinkLoads {
+  crank: LinkLoad[];
+  coupler: LinkLoad[];
+  rocker: LinkLoad[];
+}
+
+const ZERO: Point = { x: 0, y: 0 };
+
+const cross = (r: Point, f: Point) => r.x * f.y - r.y * f.x;
+
+// The joint equations assume four pin joints; slider joints would need their own
+export const FOUR_BAR_ONLY = 'Force analysis is only available for four-bar linkages';
+
+const invalidForces = (error: string): ForceAnalysis => ({
+  isValid: false,
+  error,
+  pinForces: { O2: ZERO, A: ZERO, B: ZERO, O4: ZERO },
+  inputTorque: 0
+});
+
+/**
+ * Net force and net moment about `about` of a set of loads
+ */
+const resultant = (loads: LinkLoad[], about: Point) => loads.reduce(
+  (acc, l) => ({
+    fx: acc.fx + l.force.x,
+    fy: acc.fy + l.force.y,
+    m: acc.m + l.torque + cross({ x: l.point.x - about.x, y: l.point.y - about.y }, l.force)
+  }),
+  { fx: 0, fy: 0, m: 0 }
+);
+
+/**
+ * Solves the pin reactions and driving torque that hold every link in equilibrium
+ * under the given loads (frictionless pins, no gravity unless supplied as a load).
+ * Unknowns are F12 (O2), F23 (A), F34 (B), F14 (O4) and the crank torque T:
+ *   crank:   F12 - F23 = -ΣF2,  (A - O2) x (-F23) + T = -ΣM2
+ *   coupler: F23 - F34 = -ΣF3,  (B - A) x (-F34) = -ΣM3
+ *   rocker:  F34 + F14 = -ΣF4,  (B - O4) x F34 = -ΣM4
+ * The system is singular at a dead point, where the coupler cannot turn the crank.
+ */
+export const solveJointForces = (state: MechanismState, loads: LinkLoads): ForceAnalysis => {
+  if (!state.isValid) return invalidForces('Mechanism cannot be assembled at this position');
+
+  const { O2, A, B, O4 } = state;
+  const rA = { x: A.x - O2.x, y: A.y - O2.y };
+  const rAB = { x: B.x - A.x, y: B.y - A.y };
+  const rB = { x: B.x - O4.x, y: B.y - O4.y };
+
+  const l2 = resultant(loads.crank, O2);
+  const l3 = resultant(loads.coupler, A);
+  const l4 = resultant(loads.rocker, O4);
+
+  // Unknown order: F12x, F12y, F23x, F23y, F34x, F34y, F14x, F14y, T
+  const M = [
+    [1, 0, -1, 0, 0, 0, 0, 0, 0],
+    [0, 1, 0, -1, 0, 0, 0, 0, 0],
+    [0, 0, rA.y, -rA.x, 0, 0, 0, 0, 1],
+    [0, 0, 1, 0, -1, 0, 0, 0, 0],
+    [0, 0, 0, 1, 0, -1, 0, 0, 0],
+    [0, 0, 0, 0, rAB.y, -rAB.x, 0, 0, 0],
+    [0, 0, 0, 0, 1, 0, 1, 0, 0],
+    [0, 0, 0, 0, 0, 1, 0, 1, 0],
+    [0, 0, 0, 0, -rB.y, rB.x, 0, 0, 0]
+  ];
+  const rhs = [-l2.fx, -l2.fy, -l2.m, -l3.fx, -l3.fy, -l3.m, -l4.fx, -l4.fy, -l4.m];
+
+  const x = solveLinearSystem(M, rhs);
+  if (!x) return invalidForces('Dead point: the coupler is in line with the rocker and cannot drive it');
+
+  return {
+    isValid: true,
+    pinForces: {
+      O2: { x: x[0], y: x[1] },
+      A: { x: x[2], y: x[3] },
+      B: { x: x[4], y: x[5] },
+      O4: { x: x[6], y: x[7] }
+    },
+    inputTorque: x[8]
+  };
+};
+
+/**
+ * Static force analysis for a single external load on the rocker or at a coupler point
+ */
+export const solveStaticForces = (
+  config: MechanismConfig,
+  state: MechanismState,
+  load: ExternalLoad
+): ForceAnalysis => {
+  if (getMechanismType(config) !== 'four-bar') return invalidForces(FOUR_BAR_ONLY);
+  if (!state.isValid) return invalidForces('Mechanism cannot be assembled at this position');
+
+  const loads: LinkLoads = { crank: [], coupler: [], rocker: [] };
+  if (load.target === 'rocker') {
+    loads.rocker.push({ force: load.force, point: state.B, torque: load.torque });
+  } else {
+    const point = config.couplerPoints[load.couplerPointIndex];
+    if (!point) return invalidForces('The loaded coupler point does not exist');
+    const P = calculateCouplerPoint(state.A, state.theta3, point);
+    loads.coupler.push({ force: load.force, point: P, torque: load.torque });
+  }
+  return solveJointForces(state, loads);
+};
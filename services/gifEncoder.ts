@@ -0,0 +1,206 @@
+// GIF89a writer for animations of RGBA frames, using a fixed 256-color palette:
+// a 6x6x6 color cube plus a 40-step gray ramp, which suits flat line drawings well.
+
+const CUBE_LEVELS = 6;
+const GRAY_LEVELS = 40;
+const GRAY_OFFSET = CUBE_LEVELS * CUBE_LEVELS * CUBE_LEVELS;
+// Pixels whose channels differ by less than this are drawn from the gray ramp
+const GRAY_TOLERANCE = 12;
+
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+
+const buildPalette = (): Uint8Array => {
+  const palette = new Uint8Array(256 * 3);
+  for (let r = 0; r < CUBE_LEVELS; r++) {
+    for (let g = 0; g < CUBE_LEVELS; g++) {
+      for (let b = 0; b < CUBE_LEVELS; b++) {
+        const i = (r * 36 + g * 6 + b) * 3;
+        palette[i] = r * 51;
+        palette[i + 1] = g * 51;
+        palette[i + 2] = b * 51;
+      }
+    }
+  }
+  for (let k = 0; k < GRAY_LEVELS; k++) {
+    const v = Math.round((k / (GRAY_LEVELS - 1)) * 255);
+    palette.set([v, v, v], (GRAY_OFFSET + k) * 3);
+  }
+  return palette;
+};
+
+/**
+ * Maps RGBA pixels (composited over white) to palette indices
+ */
+const quantize = (rgba: Uint8ClampedArray): Uint8Array => {
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let p = 0; p < indices.length; p++) {
+    const a = rgba[p * 4 + 3] / 255;
+    const r = rgba[p * 4] * a + 255 * (1 - a);
+    const g = rgba[p * 4 + 1] * a + 255 * (1 - a);
+    const b = rgba[p * 4 + 2] * a + 255 * (1 - a);
+    if (Math.max(r, g, b) - Math.min(r, g, b) < GRAY_TOLERANCE) {
+      indices[p] = GRAY_OFFSET + Math.round(((r + g + b) / 3 / 255) * (GRAY_LEVELS - 1));
+    } else {
+      indices[p] = Math.round(r / 51) * 36 + Math.round(g / 51) * 6 + Math.round(b / 51);
+    }
+  }
+  return indices;
+};
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(v: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = v;
+  }
+
+  word(v: number) {
+    this.byte(v & 0xff);
+    this.byte((v >> 8) & 0xff);
+  }
+
+  ascii(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+
+  array(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Variable-width LZW compression of palette indices, written as GIF data sub-blocks
+ */
+const writeLzw = (out: ByteWriter, indices: Uint8Array) => {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const eoiCode = clearCode + 1;
+
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+
+  // Codes are packed least significant bit first, then cut into blocks of up to 255 bytes
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let block: number[] = [];
+  const flushBlock = () => {
+    if (block.length === 0) return;
+    out.byte(block.length);
+    out.array(block);
+    block = [];
+  };
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bitBuffer & 0xff);
+      if (block.length === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  out.byte(MIN_CODE_SIZE);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      // Table full: start over
+      emit(clearCode);
+      table = new Map();
+      nextCode = eoiCode + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(eoiCode);
+  if (bitCount > 0) block.push(bitBuffer & 0xff);
+  flushBlock();
+  out.byte(0); // Block terminator
+};
+
+export interface GifEncoder {
+  addFrame: (rgba: Uint8ClampedArray) => void;
+  finish: () => Uint8Array;
+}
+
+/**
+ * Streams RGBA frames of equal size into a looping animated GIF.
+ * Frames are compressed as they arrive so a long animation never holds raw pixels for every frame.
+ */
+export const createGifEncoder = (width: number, height: number, fps: number): GifEncoder => {
+  const out = new ByteWriter();
+  const delay = Math.max(2, Math.round(100 / fps)); // Hundredths of a second; browsers clamp lower values
+
+  out.ascii('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0xf7); // Global color table of 256 entries
+  out.byte(0); // Background color index
+  out.byte(0); // Square pixels
+  out.array(buildPalette());
+
+  // Loop forever
+  out.byte(0x21);
+  out.byte(0xff);
+  out.byte(11);
+  out.ascii('NETSCAPE2.0');
+  out.byte(3);
+  out.byte(1);
+  out.word(0);
+  out.byte(0);
+
+  const addFrame = (rgba: Uint8ClampedArray) => {
+    // Graphic control extension: frame delay, no transparency
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte(0);
+    out.word(delay);
+    out.byte(0);
+    out.byte(0);
+
+    // Full-size image using the global palette
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0);
+    writeLzw(out, quantize(rgba));
+  };
+
+  const finish = () => {
+    out.byte(0x3b);
+    return out.result();
+  };
+
+  return { addFrame, finish };
+};
@@ -0,0 +1,61 @@
+import { ConfigHistory, DesignSnapshot, MechanismConfig } from '../types';
+
+export const HISTORY_LIMIT = 200;
+
+// Continuous edits (slider and pivot drags) closer together than this undo as one step
+const MERGE_MS = 500;
+
+export const SNAPSHOT_COLORS = ['#0e7490', '#c026d3', '#65a30d', '#e11d48', '#475569', '#ca8a04'];
+
+export const EMPTY_HISTORY: ConfigHistory = { past: [], future: [], lastEdit: 0 };
+
+/**
+ * History after an edit away from `previous`. A continuous edit soon after the last one
+ * extends that step instead of starting a new one; any edit clears the redo stack.
+ */
+export const recordEdit = (
+  history: ConfigHistory,
+  previous: MechanismConfig,
+  continuous: boolean,
+  time: number
+): ConfigHistory => {
+  const merge = continuous && history.past.length > 0 && time - history.lastEdit < MERGE_MS;
+  return {
+    past: merge ? history.past : [...history.past, previous].slice(-HISTORY_LIMIT),
+    future: [],
+    lastEdit: continuous ? time : 0
+  };
+};
+
+/**
+ * The config undo returns to and the history after it, or null with nothing to undo
+ */
+export const undoEdit = (history: ConfigHistory, current: MechanismConfig): { history: ConfigHistory; config: MechanismConfig } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future], lastEdit: 0 },
+    config: history.past[history.past.length - 1]
+  };
+};
+
+export const redoEdit = (history: ConfigHistory, current: MechanismConfig): { history: ConfigHistory; config: MechanismConfig } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1), lastEdit: 0 },
+    config: history.future[0]
+  };
+};
+
+/**
+ * A new snapshot of the config, compared from the start. Blank names are numbered.
+ */
+export const createSnapshot = (snapshots: DesignSnapshot[], name: string, config: MechanismConfig): DesignSnapshot => {
+  const id = snapshots.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+  return {
+    id,
+    name: name.trim() || `Snapshot ${id}`,
+    config,
+    color: SNAPSHOT_COLORS[(id - 1) % SNAPSHOT_COLORS.length],
+    compare: true
+  };
+};
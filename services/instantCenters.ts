@@ -0,0 +1,130 @@
+import { MechanismConfig, MechanismState, InstantCenter, Centrodes, CouplerPoint, Point } from '../types';
+import { getMechanismType } from './kinematics';
+import { sweepCycle } from './cycle';
+
+// Lines whose directions differ by less than this (sine of the angle) are parallel
+const PARALLEL_EPS = 1e-9;
+// Centrode points farther than this many linkage sizes from O2 count as gone to infinity
+const CENTRODE_REACH = 20;
+
+interface Line {
+  origin: Point;
+  direction: Point; // Unit vector
+}
+
+// A center is a point, a direction to infinity, or neither when it is undetermined
+type Center = Pick<InstantCenter, 'point' | 'direction'>;
+
+const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+
+const finite = (point: Point): Center => ({ point, direction: null });
+
+const atInfinity = (direction: Point): Center => {
+  const len = Math.hypot(direction.x, direction.y);
+  return { point: null, direction: { x: direction.x / len, y: direction.y / len } };
+};
+
+/**
+ * Line through two instant centers; a center at infinity contributes its direction.
+ * Null when both are at infinity, or the two coincide and so fix no line.
+ */
+const lineThrough = (a: Center, b: Center): Line | null => {
+  if (a.point && b.point) {
+    const dx = b.point.x - a.point.x;
+    const dy = b.point.y - a.point.y;
+    const len = Math.hypot(dx, dy);
+    return len > 0 ? { origin: a.point, direction: { x: dx / len, y: dy / len } } : null;
+  }
+  if (a.point && b.direction) return { origin: a.point, direction: b.direction };
+  if (b.point && a.direction) return { origin: b.point, direction: a.direction };
+  return null;
+};
+
+/**
+ * Where two lines of centers meet, or the point at infinity along them when they are parallel
+ */
+const intersect = (l1: Line | null, l2: Line | null): Center => {
+  if (!l1 || !l2) return { point: null, direction: null };
+  const denom = cross(l1.direction, l2.direction);
+  if (Math.abs(denom) < PARALLEL_EPS) return atInfinity(l1.direction);
+  const t = cross({ x: l2.origin.x - l1.origin.x, y: l2.origin.y - l1.origin.y }, l2.direction) / denom;
+  return finite({ x: l1.origin.x + l1.direction.x * t, y: l1.origin.y + l1.direction.y * t });
+};
+
+/**
+ * The four centers found by inspection: pins are centers, and a slide puts its center at
+ * infinity square to the slide
+ */
+const primaryCenters = (config: MechanismConfig, state: MechanismState): Record<'I12' | 'I14' | 'I23' | 'I34', Center> => {
+  const slideNormal = { x: -Math.sin(state.theta4), y: Math.cos(state.theta4) };
+  const type = getMechanismType(config);
+  return {
+    I12: finite(state.O2),
+    I23: finite(state.A),
+    // The slider-crank's block slides on the ground; the inversion's block slides on the guide
+    I14: type === 'slider-crank' ? atInfinity(slideNormal) : finite(state.O4),
+    I34: type === 'inverted-slider-crank' ? atInfinity(slideNormal) : finite(state.B)
+  };
+};
+
+/**
+ * All six instant centers at a position, I13 and I24 by Kennedy's theorem (any three centers
+ * of three links lie on one line). Empty when the mechanism is not assembled.
+ */
+export const findInstantCenters = (config: MechanismConfig, state: MechanismState): InstantCenter[] => {
+  if (!state.isValid) return [];
+  const { I12, I14, I23, I34 } = primaryCenters(config, state);
+
+  // I13 lies on I12-I23 and on I14-I34; I24 on I12-I14 and on I23-I34
+  const I13 = intersect(lineThrough(I12, I23), lineThrough(I14, I34));
+  const I24 = intersect(lineThrough(I12, I14), lineThrough(I23, I34));
+
+  const primary = (label: string, c: Center): InstantCenter => ({ label, ...c, isPrimary: true, construction: [] });
+  const secondary = (label: string, c: Center, construction: string[]): InstantCenter => ({ label, ...c, isPrimary: false, construction });
+  return [
+    primary('I12', I12),
+    secondary('I13', I13, ['I12', 'I23', 'I14', 'I34']),
+    primary('I14', I14),
+    primary('I23', I23),
+    secondary('I24', I24, ['I12', 'I14', 'I23', 'I34']),
+    primary('I34', I34)
+  ];
+};
+
+/**
+ * Fixed and moving centrodes of the coupler: the path of I13 over the cycle, seen from the ground
+ * and from the coupler. The coupler's motion is the moving centrode rolling without slip on the fixed one.
+ */
+export const traceCentrodes = (config: MechanismConfig, samples: number = 360): Centrodes => {
+  const maxGap = (1.5 * 2 * Math.PI) / samples;
+  const reach = CENTRODE_REACH * Math.max(config.r1, config.r2, config.r3, config.r4);
+  const fixed: Point[][] = [];
+  const moving: CouplerPoint[][] = [];
+
+  let open = false;
+  let previousTheta2 = 0;
+  sweepCycle(config, samples).forEach(({ theta2, state }) => {
+    const I13 = findInstantCenters(config, state)[1].point;
+    const inReach = I13 !== null && Math.hypot(I13.x - state.O2.x, I13.y - state.O2.y) < reach;
+    if (!inReach) {
+      open = false;
+      return;
+    }
+    if (!open || theta2 - previousTheta2 > maxGap) {
+      fixed.push([]);
+      moving.push([]);
+    }
+    open = true;
+    previousTheta2 = theta2;
+
+    // The same point in the coupler's frame, measured like a coupler point
+    const dx = I13.x - state.A.x;
+    const dy = I13.y - state.A.y;
+    const c = Math.cos(state.theta3);
+    const s = Math.sin(state.theta3);
+    fixed[fixed.length - 1].push(I13);
+    moving[moving.length - 1].push({ along: dx * c + dy * s, offset: -dx * s + dy * c });
+  });
+
+  return { fixed, moving };
+};
@@ -1,12 +1,51 @@
-import { MechanismConfig, MechanismState, Point, GrashofType, LimitAnalysis } from '../types';
+import {
+  MechanismConfig, MechanismState, MechanismType, Point, GrashofType, LimitAnalysis, CouplerPoint,
+  Tolerances, PositionCondition, SpecialGeometry
+} from '../types';
 
 /**
  * Calculates the position of joint A (Crank Tip)
  */
-export const calculateA = (r2: number, theta2: number): Point => {
+export const calculateA = (r2: number, theta2: number, O2: Point = { x: 0, y: 0 }): Point => {
   return {
-    x: r2 * Math.cos(theta2),
-    y: r2 * Math.sin(theta2)
+    x: O2.x + r2 * Math.cos(theta2),
+    y: O2.y + r2 * Math.sin(theta2)
+  };
+};
+
+export const getMechanismType = (config: MechanismConfig): MechanismType => config.type ?? 'four-bar';
+
+/**
+ * Resolves the ground pivots of a configuration.
+ * O2 defaults to the origin and the ground link to the +x direction.
+ */
+export const getGroundPivots = (config: MechanismConfig): { O2: Point; O4: Point } => {
+  const O2 = config.O2 ?? { x: 0, y: 0 };
+  const angle = config.groundAngle ?? 0;
+  return {
+    O2,
+    O4: { x: O2.x + config.r1 * Math.cos(angle), y: O2.y + config.r1 * Math.sin(angle) }
+  };
+};
+
+/**
+ * Ground link parameters that place the pivots at O2 and O4
+ */
+export const groundFromPivots = (O2: Point, O4: Point): Pick<MechanismConfig, 'r1' | 'O2' | 'groundAngle'> => ({
+  r1: distance(O2, O4),
+  O2,
+  groundAngle: Math.atan2(O4.y - O2.y, O4.x - O2.x)
+});
+
+/**
+ * Calculates the world position of a coupler point given joint A and the coupler angle theta3
+ */
+export const calculateCouplerPoint = (A: Point, theta3: number, point: CouplerPoint): Point => {
+  const c = Math.cos(theta3);
+  const s = Math.sin(theta3);
+  return {
+    x: A.x + point.along * c - point.offset * s,
+    y: A.y + point.along * s + point.offset * c
   };
 };
 
@@ -26,6 +65,30 @@ export const normalizeAngle = (angle: number): number => {
   return a;
 };
 
+/**
+ * Smallest absolute difference between two angles, in [0, PI]
+ */
+export const angularDistance = (a: number, b: number): number => {
+  const d = normalizeAngle(a - b);
+  return d > Math.PI ? 2 * Math.PI - d : d;
+};
+
+// Angle (rad) wrapped into [-PI, PI)
+const signedAngle = (angle: number): number => normalizeAngle(angle + Math.PI) - Math.PI;
+
+/**
+ * An output's swing between its two limit angles (rad) as a start in [0, 2PI) and a
+ * counter-clockwise span. Of the two arcs joining the limits, the swing is the one that
+ * avoids `excluded`, a direction the output never points in. fromFirst tells whether the
+ * swing starts at `a`.
+ */
+export const oscillationArc = (a: number, b: number, excluded: number): { start: number; span: number; fromFirst: boolean } => {
+  const ccw = normalizeAngle(b - a);
+  return normalizeAngle(excluded - a) < ccw
+    ? { start: normalizeAngle(b), span: 2 * Math.PI - ccw, fromFirst: false }
+    : { start: normalizeAngle(a), span: ccw, fromFirst: true };
+};
+
 /**
  * Converts radians to degrees
  */
@@ -40,25 +103,64 @@ export const toRadians = (deg: number): number => {
   return (deg * Math.PI) / 180;
 };
 
+export const DEFAULT_TOLERANCES: Tolerances = {
+  length: 1e-6,
+  singularity: 1e-9,
+  nearSingular: 1
+};
+
+/**
+ * Tolerances for a configuration: DEFAULT_TOLERANCES with the config's overrides applied
+ */
+export const getTolerances = (config: MechanismConfig): Tolerances => ({ ...DEFAULT_TOLERANCES, ...config.tolerances });
+
 /**
- * Solves the Four-Bar mechanism for a given input angle theta2
+ * Absolute length tolerance (mm) for a configuration, scaled by its longest link so that
+ * rounding in derived lengths (e.g. r1 from dragged pivots) cannot flip a classification
  */
-export const solveFourBar = (config: MechanismConfig, theta2: number): MechanismState => {
-  const { r1, r2, r3, r4, assemblyMode } = config;
+export const lengthTolerance = (config: MechanismConfig): number => {
+  const { r1, r2, r3, r4 } = config;
+  return getTolerances(config).length * Math.max(r1, r2, r3, r4, Math.abs(config.sliderOffset ?? 0));
+};
 
-  const O2: Point = { x: 0, y: 0 };
-  const O4: Point = { x: r1, y: 0 };
-  const A = calculateA(r2, theta2);
+/**
+ * Condition of an assembled position from its transmission angle, which is 0° or 180° at a toggle
+ */
+export const classifyPosition = (config: MechanismConfig, transmissionAngle: number): PositionCondition =>
+  Math.min(transmissionAngle, Math.PI - transmissionAngle) < toRadians(getTolerances(config).nearSingular)
+    ? 'near-singular'
+    : 'regular';
+
+/**
+ * Solves the Four-Bar mechanism for a given input angle theta2.
+ * The branch defaults to the config's assembly mode; pass it explicitly to pick the other solution.
+ */
+export const solveFourBar = (
+  config: MechanismConfig,
+  theta2: number,
+  branch: 1 | -1 = config.assemblyMode
+): MechanismState => {
+  const { r1, r2, r3, r4 } = config;
+
+  const { O2, O4 } = getGroundPivots(config);
+  const A = calculateA(r2, theta2, O2);
 
   // Distance from A to O4
   const dist_AO4 = distance(A, O4);
 
-  // Check triangle inequality for the triangle formed by r3, r4, and dist_AO4
-  if (dist_AO4 > r3 + r4 || dist_AO4 < Math.abs(r3 - r4) || dist_AO4 === 0) {
+  // Check triangle inequality for the triangle formed by r3, r4, and dist_AO4. Within the
+  // length tolerance of a toggle the position is snapped onto it rather than rejected.
+  // With A on O4 the rocker's direction is undefined: indeterminate if r3 = r4, unreachable otherwise.
+  const eps = lengthTolerance(config);
+  const onPivot = dist_AO4 <= eps;
+  if (onPivot || dist_AO4 > r3 + r4 + eps || dist_AO4 < Math.abs(r3 - r4) - eps) {
     return {
       A, B: { x: 0, y: 0 }, O2, O4,
       theta2, theta3: 0, theta4: 0, transmissionAngle: 0,
-      isValid: false
+      couplerPoints: [],
+      branch,
+      isValid: false,
+      condition: onPivot && Math.abs(r3 - r4) <= eps ? 'indeterminate' : 'unassembled'
     };
   }
 
@@ -81,8 +183,8 @@ export const solveFourBar = (config: MechanismConfig, theta2: number): Mechanism
     y: y2 + h * (O4.x - A.x) / dist_AO4
   };
 
-  // Assembly Mode 1 = Open (B2), -1 = Crossed (B1)
-  const B = assemblyMode === 1 ? B2 : B1;
+  // Branch 1 = Open (B2), -1 = Crossed (B1)
+  const B = branch === 1 ? B2 : B1;
 
   const theta3 = Math.atan2(B.y - A.y, B.x - A.x);
   const theta4 = Math.atan2(B.y - O4.y, B.x - O4.x);
@@ -92,30 +194,41 @@ export const solveFourBar = (config: MechanismConfig, theta2: number): Mechanism
   const clampedVal = Math.max(-1, Math.min(1, val));
   const transmissionAngle = Math.acos(clampedVal);
 
+  const couplerPoints = config.couplerPoints.map(p => calculateCouplerPoint(A, theta3, p));
+
   return {
     A, B, O2, O4,
     theta2, theta3, theta4,
     transmissionAngle,
-    isValid: true
+    couplerPoints,
+    branch,
+    isValid: true,
+    condition: classifyPosition(config, transmissionAngle)
   };
 };
 
 /**
- * Inverse Kinematics: Calculate theta2 given a desired theta4.
+ * Crank angle that puts joint A at distance `reach` from `target`, i.e. where circle(O2, r2)
+ * meets circle(target, reach). With previousTheta2 the closer of the two solutions is returned.
  */
-export const solveInverseTheta2 = (config: MechanismConfig, targetTheta4: number): number | null => {
-  const { r1, r2, r3, r4 } = config;
-  
-  const Bx = r1 + r4 * Math.cos(targetTheta4);
-  const By = r4 * Math.sin(targetTheta4);
+export const solveCrankToReach = (
+  O2: Point,
+  r2: number,
+  target: Point,
+  reach: number,
+  previousTheta2?: number
+): number | null => {
+  // Target relative to O2
+  const Bx = target.x - O2.x;
+  const By = target.y - O2.y;
 
   const dist_O2B = Math.sqrt(Bx*Bx + By*By);
 
-  if (dist_O2B > r2 + r3 || dist_O2B < Math.abs(r2 - r3)) {
+  if (dist_O2B > r2 + reach || dist_O2B < Math.abs(r2 - reach)) {
     return null;
   }
 
-  const a_dist = (r2 * r2 - r3 * r3 + dist_O2B * dist_O2B) / (2 * dist_O2B);
+  const a_dist = (r2 * r2 - reach * reach + dist_O2B * dist_O2B) / (2 * dist_O2B);
   const h = Math.sqrt(Math.max(0, r2 * r2 - a_dist * a_dist));
   
   const x2 = 0 + a_dist * (Bx - 0) / dist_O2B;
@@ -123,17 +236,78 @@ export const solveInverseTheta2 = (config: MechanismConfig, targetTheta4: number
 
   // We need to pick A1 or A2.
   // Generally, A1 corresponds to "up" intersection relative to O2-B vector.
-  // This is context dependent, but for dragging B, we can just return one valid A.
+  // Without a previous angle to stay close to, A1 is returned.
   const A1 = {
     x: x2 + h * (By - 0) / dist_O2B,
     y: y2 - h * (Bx - 0) / dist_O2B
   };
+  const A2 = {
+    x: x2 - h * (By - 0) / dist_O2B,
+    y: y2 + h * (Bx - 0) / dist_O2B
+  };
+  
+  const t1 = Math.atan2(A1.y, A1.x);
+  if (previousTheta2 === undefined) return t1;
   
-  return Math.atan2(A1.y, A1.x);
+  const t2 = Math.atan2(A2.y, A2.x);
+  return angularDistance(t1, previousTheta2) <= angularDistance(t2, previousTheta2) ? t1 : t2;
+};
+
+/**
+ * Inverse Kinematics: Calculate theta2 given a desired theta4.
+ * When previousTheta2 is given, the solution closest to it is returned so that
+ * dragging the rocker follows the circuit the linkage is already on.
+ */
+export const solveInverseTheta2 = (
+  config: MechanismConfig,
+  targetTheta4: number,
+  previousTheta2?: number
+): number | null => {
+  const { r2, r3, r4 } = config;
+  const { O2, O4 } = getGroundPivots(config);
+  const B = { x: O4.x + r4 * Math.cos(targetTheta4), y: O4.y + r4 * Math.sin(targetTheta4) };
+  return solveCrankToReach(O2, r2, B, r3, previousTheta2);
+};
+
+/**
+ * Advances the crank angle by delta for animation. Inputs that can rotate fully simply wrap;
+ * inputs with crank limits rock back and forth between them, reversing direction at each limit.
+ */
+export const advanceCrank = (
+  theta2: number,
+  delta: number,
+  direction: 1 | -1,
+  limits: LimitAnalysis
+): { theta2: number; direction: 1 | -1 } => {
+  if (!limits.hasCrankLimits) {
+    return { theta2: normalizeAngle(theta2 + delta * direction), direction };
+  }
+
+  // Stay a hair inside the toggle positions so the solver never lands just past them
+  const inset = 1e-6;
+  const lo = toRadians(limits.crankMin) + inset;
+  const hi = toRadians(limits.crankMax) - inset;
+
+  // Express theta2 within [lo, lo + 2PI) and pull it back into range if it started outside
+  let t = normalizeAngle(theta2 - lo) + lo;
+  if (t > hi) t = t - hi < lo + 2 * Math.PI - t ? hi : lo;
+
+  let next = t + delta * direction;
+  let nextDirection = direction;
+  if (next > hi) {
+    next = Math.max(lo, 2 * hi - next);
+    nextDirection = -1;
+  } else if (next < lo) {
+    next = Math.min(hi, 2 * lo - next);
+    nextDirection = 1;
+  }
+
+  return { theta2: normalizeAngle(next), direction: nextDirection };
 };
 
 /**
- * Identify Grashof Type
+ * Identify Grashof Type. Lengths within lengthTolerance count as equal, so a change-point
+ * linkage stays one even when its lengths come out of floating-point arithmetic.
  */
 export const getGrashofType = (config: MechanismConfig): GrashofType => {
   const { r1, r2, r3, r4 } = config;
@@ -143,24 +317,80 @@ export const getGrashofType = (config: MechanismConfig): GrashofType => {
   const p = links[1];
   const q = links[2];
 
-  const grashof = s + l <= p + q;
+  const eps = lengthTolerance(config);
+  const margin = p + q - (s + l);
 
-  if (!grashof) return GrashofType.TRIPLE_ROCKER;
-  if (s + l === p + q) return GrashofType.CHANGE_POINT;
+  if (margin < -eps) return GrashofType.TRIPLE_ROCKER;
+  if (margin <= eps) return GrashofType.CHANGE_POINT;
 
-  if (r2 === s) return GrashofType.CRANK_ROCKER;
-  if (r1 === s) return GrashofType.DOUBLE_CRANK;
-  if (r3 === s) return GrashofType.DOUBLE_ROCKER;
-  if (r4 === s) return GrashofType.DOUBLE_ROCKER;
+  if (r2 - s <= eps) return GrashofType.CRANK_ROCKER;
+  if (r1 - s <= eps) return GrashofType.DOUBLE_CRANK;
 
   return GrashofType.DOUBLE_ROCKER;
 };
 
+/**
+ * Names the change-point family a four-bar belongs to, or null if it is not a change-point.
+ * Opposite links equal give a parallelogram or antiparallelogram, depending on the circuit the
+ * given position is on (the configured branch above the ground line when no state is given);
+ * adjacent links equal give a deltoid (kite).
+ */
+export const getSpecialGeometry = (config: MechanismConfig, state?: MechanismState): SpecialGeometry | null => {
+  if (getGrashofType(config) !== GrashofType.CHANGE_POINT) return null;
+
+  const { r1, r2, r3, r4 } = config;
+  const eps = lengthTolerance(config);
+  const equal = (a: number, b: number) => Math.abs(a - b) <= eps;
+
+  if (equal(r1, r3) && equal(r2, r4)) {
+    const position = state?.isValid ? state : solveFourBar(config, (config.groundAngle ?? 0) + Math.PI / 2);
+    // On the parallelogram circuit the coupler stays parallel to, and as long as, the ground
+    const { O2, O4, A, B } = position;
+    const skew = distance({ x: B.x - A.x, y: B.y - A.y }, { x: O4.x - O2.x, y: O4.y - O2.y });
+    return position.isValid && skew <= eps ? 'parallelogram' : 'antiparallelogram';
+  }
+  if ((equal(r1, r2) && equal(r3, r4)) || (equal(r1, r4) && equal(r2, r3))) return 'deltoid';
+  return 'change-point';
+};
+
+type TimeRatio = Pick<LimitAnalysis,
+  'hasTimeRatio' | 'crankAtExtended' | 'crankAtFolded' | 'forwardSweep' | 'returnSweep' | 'timeRatio' | 'imbalanceAngle'>;
+
+export const NO_TIME_RATIO: TimeRatio = {
+  hasTimeRatio: false,
+  crankAtExtended: 0,
+  crankAtFolded: 0,
+  forwardSweep: 180,
+  returnSweep: 180,
+  timeRatio: 1,
+  imbalanceAngle: 0
+};
+
+/**
+ * Quick-return figures for a fully rotating crank whose output reverses at the two given states.
+ * With the crank turning CCW, the forward stroke takes the output from the extended limit to the folded one.
+ */
+export const calculateTimeRatio = (extended: MechanismState, folded: MechanismState): TimeRatio => {
+  const forward = toDegrees(normalizeAngle(folded.theta2 - extended.theta2));
+  return {
+    hasTimeRatio: true,
+    crankAtExtended: toDegrees(normalizeAngle(extended.theta2)),
+    crankAtFolded: toDegrees(normalizeAngle(folded.theta2)),
+    forwardSweep: forward,
+    returnSweep: 360 - forward,
+    timeRatio: Math.max(forward, 360 - forward) / Math.min(forward, 360 - forward),
+    imbalanceAngle: Math.abs(forward - 180)
+  };
+};
+
 /**
  * Calculate the motion limits and transmission limits
  */
 export const calculateLimits = (config: MechanismConfig): LimitAnalysis => {
     const { r1, r2, r3, r4, assemblyMode } = config;
+    const { O2, O4 } = getGroundPivots(config);
+    const groundAngle = config.groundAngle ?? 0;
+    const eps = lengthTolerance(config);
     
     // --- Rocker Limits ---
     // Occur when Crank (r2) and Coupler (r3) are collinear.
@@ -174,31 +404,31 @@ export const calculateLimits = (config: MechanismConfig): LimitAnalysis => {
     let stateMax: MechanismState | null = null;
     
     // Helper to solve for MechanismState at a specific Rocker-O2 distance (collinear condition)
-    const calcLimitState = (distO2B: number): MechanismState | null => {
+    const calcLimitState = (distO2B: number, isExtended: boolean): MechanismState | null => {
+         // If unreachable, allowing for the length tolerance either side of the triangle (r1, r4, distO2B)
+         if (distO2B > r1 + r4 + eps || distO2B < Math.abs(r1 - r4) - eps) return null;
+         // Folded with r2 = r3 puts B on O2, where the crank's direction is undefined
+         if (!isExtended && distO2B <= eps) return null;
+         
          // Find angle gamma at O4 inside triangle(r1, r4, distO2B)
          // distO2B^2 = r1^2 + r4^2 - 2*r1*r4*cos(gamma)
          const cosGamma = (r1*r1 + r4*r4 - distO2B*distO2B) / (2*r1*r4);
-         
-         // If unreachable
-         if (Math.abs(cosGamma) > 1.0) return null; 
-         
-         const gamma = Math.acos(cosGamma);
+         const gamma = Math.acos(Math.max(-1, Math.min(1, cosGamma)));
          
          // Determine theta4.
          // Standard: t4 = PI - gamma (Angle at O4 relative to O4->O2 vector being 180)
-         // O4 is at (r1, 0). O2 is at (0,0).
-         // Vector O4->O2 is angle 180 (PI).
+         // measured from the ground line, which points from O2 towards O4 at groundAngle.
+         // Vector O4->O2 is angle 180 (PI) relative to the ground line.
          // Gamma is internal angle of triangle.
-         // If assemblyMode is 1 (Open), B is typically y>0, so t4 in [0, PI].
-         // If assemblyMode is -1 (Crossed), B is typically y<0, so t4 in [PI, 2PI].
+         // If assemblyMode is 1 (Open), B is typically left of O2->O4, so t4 in [0, PI] relative.
+         // If assemblyMode is -1 (Crossed), B is typically right of it, so t4 in [PI, 2PI] relative.
          
-         let t4 = Math.PI - gamma;
+         let t4 = groundAngle + Math.PI - gamma;
          if (assemblyMode === -1) {
-             t4 = Math.PI + gamma;
+             t4 = groundAngle + Math.PI + gamma;
          }
          
          // Calculate Point B
-         const O4 = {x: r1, y: 0};
          const B = {
              x: O4.x + r4 * Math.cos(t4),
              y: O4.y + r4 * Math.sin(t4)
@@ -206,7 +436,6 @@ export const calculateLimits = (config: MechanismConfig): LimitAnalysis => {
          
          // Calculate Point A
          // A, B, O2 are collinear.
-         const isExtended = Math.abs(distO2B - (r2 + r3)) < 0.001;
          let scale = 0;
          
          if (isExtended) {
@@ -218,39 +447,157 @@ export const calculateLimits = (config: MechanismConfig): LimitAnalysis => {
              else scale = -r2 / (r3 - r2);
          }
          
-         const A = { x: B.x * scale, y: B.y * scale };
-         const t2 = Math.atan2(A.y, A.x);
+         const A = { x: O2.x + (B.x - O2.x) * scale, y: O2.y + (B.y - O2.y) * scale };
+         const t2 = Math.atan2(A.y - O2.y, A.x - O2.x);
+         const t3 = Math.atan2(B.y - A.y, B.x - A.x);
          
          return {
-             A, B, O2: {x:0, y:0}, O4,
-             theta2: t2, theta3: 0, theta4: t4, transmissionAngle: 0, isValid: true
+             A, B, O2, O4,
+             theta2: t2, theta3: t3, theta4: t4, transmissionAngle: 0,
+             couplerPoints: config.couplerPoints.map(p => calculateCouplerPoint(A, t3, p)),
+             branch: assemblyMode,
+             isValid: true
          };
     };
     
     const distExt = r2 + r3;
     const distRet = Math.abs(r2 - r3);
     
-    const s1 = calcLimitState(distExt);
-    const s2 = calcLimitState(distRet);
+    const s1 = calcLimitState(distExt, true);
+    const s2 = calcLimitState(distRet, false);
     
-    if (s1 && s2) {
-        hasRockerLimits = true;
-        let ang1 = toDegrees(normalizeAngle(s1.theta4));
-        let ang2 = toDegrees(normalizeAngle(s2.theta4));
+ 
+    // --- Crank (Input) Limits ---
+    // Occur when Coupler (r3) and Rocker (r4) are collinear, i.e. dist A->O4 = r3 + r4 or |r3 - r4|.
+    // dist(A,O4)^2 = r1^2 + r2^2 - 2*r1*r2*cos(theta2 - groundAngle), so each limit is a pair of
+    // crank angles mirrored about the ground line. A limit only binds if the crank could otherwise reach past it.
+    
+    // Crank angle relative to the ground line
+    const crankAngleAt = (dAO4: number): number => {
+        const cosT2 = (r1*r1 + r2*r2 - dAO4*dAO4) / (2*r1*r2);
+        return Math.acos(Math.max(-1, Math.min(1, cosT2)));
+    };
+    
+    // Helper to solve for MechanismState with Coupler and Rocker collinear at a crank angle
+    const calcCrankLimitState = (t2: number, isExtended: boolean): MechanismState => {
+        const A = calculateA(r2, t2, O2);
+        const dAO4 = distance(A, O4);
+        const ux = (O4.x - A.x) / dAO4;
+        const uy = (O4.y - A.y) / dAO4;
+        
+        // Extended: B lies between A and O4. Folded: B lies beyond O4 if the coupler is
+        // the longer link, otherwise on the far side of A.
+        const dir = isExtended || r3 > r4 ? 1 : -1;
+        const B = { x: A.x + dir * r3 * ux, y: A.y + dir * r3 * uy };
+        const t3 = Math.atan2(B.y - A.y, B.x - A.x);
         
-        // Handle wrapping for min/max logic so we get the correct arc
-        // e.g. 350 and 10. We want the range to be small.
-        // But for generic min/max display, just values are enough.
+        return {
+            A, B, O2, O4,
+            theta2: t2, theta3: t3, theta4: Math.atan2(B.y - O4.y, B.x - O4.x),
+            transmissionAngle: isExtended ? Math.PI : 0,
+            couplerPoints: config.couplerPoints.map(p => calculateCouplerPoint(A, t3, p)),
+            branch: assemblyMode,
+            isValid: true
+        };
+    };
+    
+    let hasCrankLimits = false;
+    let crankMin = 0;
+    let crankMax = 360;
+    let crankStateMin: MechanismState | null = null;
+    let crankStateMax: MechanismState | null = null;
+    
+    // At a change-point the toggle is reached exactly and passed through, so it does not bind
+    const extendedBinds = r3 + r4 < r1 + r2 - eps;
+    const foldedBinds = Math.abs(r3 - r4) > Math.abs(r1 - r2) + eps;
+    const assemblable = Math.max(Math.abs(r1 - r2), Math.abs(r3 - r4)) <= Math.min(r1 + r2, r3 + r4) + eps;
+    
+    if (assemblable && (extendedBinds || foldedBinds)) {
+        hasCrankLimits = true;
+        const tExt = crankAngleAt(r3 + r4);
+        const tFold = crankAngleAt(Math.abs(r3 - r4));
         
-        rockerMin = Math.min(ang1, ang2);
-        rockerMax = Math.max(ang1, ang2);
+        let tMin: number;
+        let tMax: number;
+        if (extendedBinds && foldedBinds) {
+            // Crank rocks between the two toggles without crossing the ground line.
+            // The mirror image range below the ground line is equally valid.
+            tMin = tFold;
+            tMax = tExt;
+        } else if (extendedBinds) {
+            // Crank rocks through theta2 = 0 (pointing towards O4)
+            tMin = -tExt;
+            tMax = tExt;
+        } else {
+            // Crank rocks through theta2 = 180 (pointing away from O4)
+            tMin = tFold;
+            tMax = 2 * Math.PI - tFold;
+        }
         
-        // For drawing, we want the state associated with the min/max numerical values if we were plotting,
-        // but for visualizer, we just need the two endpoints.
-        stateMin = ang1 < ang2 ? s1 : s2;
-        stateMax = ang1 < ang2 ? s2 : s1;
+        crankMin = toDegrees(groundAngle + tMin);
+        crankMax = toDegrees(groundAngle + tMax);
+        crankStateMin = calcCrankLimitState(groundAngle + tMin, !foldedBinds);
+        crankStateMax = calcCrankLimitState(groundAngle + tMax, extendedBinds);
     }
  
+    // --- Rocker Swing ---
+    // The rocker turns back where the crank and coupler are collinear, or where the crank itself
+    // turns back. Of the collinear positions (two mirrored about the ground line for each of
+    // |O2B| = r2 + r3 and |r2 - r3|) only those the crank reaches on this circuit count.
+    const collinearTol = 1e-6 * (r1 + r2 + r3 + r4);
+    const crankLo = hasCrankLimits ? toRadians(crankMin) : 0;
+    const crankHi = hasCrankLimits ? toRadians(crankMax) : 2 * Math.PI;
+    const stops: { theta2: number; state: MechanismState }[] = [];
+    [distExt, distRet].forEach((dist, i) => {
+        if (dist <= eps) return;
+        const cosPhi = (r1*r1 + dist*dist - r4*r4) / (2*r1*dist);
+        if (Math.abs(cosPhi) > 1) return;
+        const phi = Math.acos(cosPhi);
+        // Folded with the coupler longer than the crank, B lies behind O2 as seen along the crank
+        const behind = i === 1 && r3 > r2 ? Math.PI : 0;
+        [phi, -phi].forEach(side => {
+            const theta2 = crankLo + normalizeAngle(groundAngle + side + behind - crankLo);
+            if (theta2 >= crankHi) return;
+            const state = solveFourBar(config, theta2);
+            if (state.isValid && Math.abs(distance(state.B, O2) - dist) <= collinearTol) stops.push({ theta2, state });
+        });
+    });
+    if (crankStateMin && crankStateMax) {
+        stops.push({ theta2: crankLo, state: crankStateMin }, { theta2: crankHi, state: crankStateMax });
+    }
+    stops.sort((a, b) => a.theta2 - b.theta2);
+
+    // The rocker is monotonic between consecutive stops, turning the way it does halfway between
+    // them, so its angle can be unwrapped stop by stop; the swing runs from the lowest to the highest
+    if ((hasCrankLimits || (s1 && s2)) && stops.length >= 2) {
+        const unwrapped = [stops[0].state.theta4];
+        for (let i = 1; i < stops.length; i++) {
+            const from = stops[i - 1];
+            const to = stops[i];
+            const mid = (from.theta2 + to.theta2) / 2;
+            const step = (to.theta2 - from.theta2) / 1000;
+            const turn = signedAngle(solveFourBar(config, mid + step).theta4 - solveFourBar(config, mid - step).theta4);
+            const change = turn >= 0
+                ? normalizeAngle(to.state.theta4 - from.state.theta4)
+                : -normalizeAngle(from.state.theta4 - to.state.theta4);
+            unwrapped.push(unwrapped[i - 1] + change);
+        }
+        const lowest = unwrapped.indexOf(Math.min(...unwrapped));
+        const highest = unwrapped.indexOf(Math.max(...unwrapped));
+        const swing = unwrapped[highest] - unwrapped[lowest];
+        if (swing < 2 * Math.PI - 1e-9) {
+            hasRockerLimits = true;
+            rockerMin = toDegrees(normalizeAngle(unwrapped[lowest]));
+            rockerMax = rockerMin + toDegrees(swing);
+            stateMin = stops[lowest].state;
+            stateMax = stops[highest].state;
+        }
+    }
+
+    // --- Time Ratio (Quick Return) ---
+    // Only meaningful when the crank turns fully while the rocker oscillates between its limits.
+    const timeRatio = hasRockerLimits && !hasCrankLimits && s1 && s2 ? calculateTimeRatio(s1, s2) : NO_TIME_RATIO;
+
     // --- Transmission Angle Limits ---
     // The transmission angle mu depends on distance d = dist(A, O4).
     // Formula: cos(mu) = (r3^2 + r4^2 - d^2) / (2*r3*r4)
@@ -280,8 +627,8 @@ export const calculateLimits = (config: MechanismConfig): LimitAnalysis => {
         return toDegrees(Math.acos(clamped));
     };
     
-    if (dMin <= dMax) {
-        transmissionMin = calcMu(dMin);
+    if (dMin <= dMax + eps) {
+        transmissionMin = calcMu(Math.min(dMin, dMax));
         transmissionMax = calcMu(dMax);
     } else {
         // Impossible geometry
@@ -294,6 +641,14 @@ export const calculateLimits = (config: MechanismConfig): LimitAnalysis => {
         rockerMin, rockerMax,
         transmissionMin, transmissionMax,
         limitStateMin: stateMin,
-        limitStateMax: stateMax
+        limitStateMax: stateMax,
+        hasStrokeLimits: false,
+        strokeMin: 0,
+        strokeMax: 0,
+        hasCrankLimits,
+        crankMin, crankMax,
+        crankLimitStateMin: crankStateMin,
+        crankLimitStateMax: crankStateMax,
+        ...timeRatio
     };
  };
\ No newline at end of file
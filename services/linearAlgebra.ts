@@ -0,0 +1,38 @@
+/**
+ * Solves the square linear system A x = b by Gaussian elimination with partial pivoting.
+ * Returns null if the matrix is singular (to within a relative tolerance).
+ */
+export const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  // Work on an augmented copy so the caller's arrays are untouched
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  let scale = 0;
+  M.forEach(row => row.forEach((v, j) => { if (j < n) scale = Math.max(scale, Math.abs(v)); }));
+  const eps = 1e-12 * (scale || 1);
+
+  for (let col = 0; col < n; col++) {
+    // Pivot on the largest remaining entry in this column
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < eps) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / M[col][col];
+      if (f === 0) continue;
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+
+  // Back substitution
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+};
@@ -0,0 +1,139 @@
+import {
+  MechanismConfig, MechanismState, MechanismType, MotionState, LimitAnalysis, MechanismClass, Point,
+  GrashofType, SliderCrankType, SpecialGeometry, LinkKey
+} from '../types';
+import {
+  calculateLimits, getGrashofType, getSpecialGeometry, solveInverseTheta2, getMechanismType
+} from './kinematics';
+import { solveSixBar } from './sixBar';
+import { solveMotion } from './motion';
+import {
+  solveSliderCrank, calculateSliderCrankLimits, classifySliderCrank, countSliderCrankCircuits,
+  solveSliderCrankMotion, dragSliderCrank,
+  solveInvertedSliderCrank, calculateInvertedSliderLimits, classifyInvertedSlider, countInvertedSliderCircuits,
+  solveInvertedSliderMotion, dragInvertedSlider
+} from './sliderCrank';
+
+/**
+ * Everything the app needs to analyse and draw one kind of mechanism. All types share
+ * MechanismConfig and MechanismState; each gives the link lengths and B its own meaning.
+ */
+export interface MechanismDefinition {
+  label: string;
+  links: Record<LinkKey, string | null>; // Control labels; null where the type has no such link
+  usesSliderOffset: boolean;
+  output: 'angle' | 'slide'; // What the output link does: turn about O4 (theta4) or translate (sliderPosition)
+  outputLink: string; // Name of the output link in explanations
+  solve: (config: MechanismConfig, theta2: number, branch: 1 | -1) => MechanismState;
+  solveMotion: (config: MechanismConfig, state: MechanismState, omega2: number, alpha2: number) => MotionState;
+  calculateLimits: (config: MechanismConfig) => LimitAnalysis;
+  classify: (config: MechanismConfig) => MechanismClass;
+  // Change-point family the proportions fall in, if any; the state picks the circuit where that matters
+  specialGeometry: (config: MechanismConfig, state?: MechanismState) => SpecialGeometry | null;
+  countCircuits: (config: MechanismConfig, limits: LimitAnalysis) => number;
+  // Crank angle that moves B towards a dragged position, staying near the current pose
+  dragOutput: (config: MechanismConfig, state: MechanismState, target: Point) => number | null;
+  // Typical travel of B, which scales what counts as a jump between solutions
+  outputScale: (config: MechanismConfig) => number;
+}
+
+/**
+ * Grashof linkages have two circuits (open and crossed) that can never be reached from one
+ * another without disassembly; non-Grashof linkages have a single circuit.
+ */
+const countFourBarCircuits = (config: MechanismConfig): number =>
+  getGrashofType(config) === GrashofType.TRIPLE_ROCKER ? 1 : 2;
+
+// The slider types have a single change-point family
+const sliderSpecialGeometry = (classify: (config: MechanismConfig) => SliderCrankType) =>
+  (config: MechanismConfig): SpecialGeometry | null =>
+    classify(config) === SliderCrankType.CHANGE_POINT ? 'change-point' : null;
+
+export const MECHANISMS: Record<MechanismType, MechanismDefinition> = {
+  'four-bar': {
+    label: 'Four-Bar',
+    links: { r1: 'Ground (r1)', r2: 'Crank (r2)', r3: 'Coupler (r3)', r4: 'Rocker (r4)' },
+    usesSliderOffset: false,
+    output: 'angle',
+    outputLink: 'rocker',
+    solve: solveSixBar, // Plain four-bar unless a dyad closes a second loop
+    solveMotion,
+    calculateLimits,
+    classify: getGrashofType,
+    specialGeometry: getSpecialGeometry,
+    countCircuits: countFourBarCircuits,
+    dragOutput: (config, state, target) =>
+      solveInverseTheta2(config, Math.atan2(target.y - state.O4.y, target.x - state.O4.x), state.theta2),
+    outputScale: config => config.r4
+  },
+  'slider-crank': {
+    label: 'Slider-Crank',
+    links: { r1: null, r2: 'Crank (r2)', r3: 'Connecting Rod (r3)', r4: null },
+    usesSliderOffset: true,
+    output: 'slide',
+    outputLink: 'slider',
+    solve: solveSliderCrank,
+    solveMotion: solveSliderCrankMotion,
+    calculateLimits: calculateSliderCrankLimits,
+    classify: classifySliderCrank,
+    specialGeometry: sliderSpecialGeometry(classifySliderCrank),
+    countCircuits: countSliderCrankCircuits,
+    dragOutput: dragSliderCrank,
+    outputScale: config => config.r2
+  },
+  'inverted-slider-crank': {
+    label: 'Inverted Slider-Crank',
+    links: { r1: 'Ground (r1)', r2: 'Crank (r2)', r3: null, r4: 'Guide (r4)' },
+    usesSliderOffset: true,
+    output: 'angle',
+    outputLink: 'guide',
+    solve: solveInvertedSliderCrank,
+    solveMotion: solveInvertedSliderMotion,
+    calculateLimits: calculateInvertedSliderLimits,
+    classify: classifyInvertedSlider,
+    specialGeometry: sliderSpecialGeometry(classifyInvertedSlider),
+    countCircuits: countInvertedSliderCircuits,
+    dragOutput: dragInvertedSlider,
+    outputScale: config => config.r1 + config.r2
+  }
+};
+
+export const MECHANISM_TYPES = Object.keys(MECHANISMS) as MechanismType[];
+
+export const getMechanism = (config: MechanismConfig): MechanismDefinition => MECHANISMS[getMechanismType(config)];
+
+/**
+ * Position analysis for any mechanism type. The branch defaults to the config's assembly mode.
+ */
+export const solveMechanism = (
+  config: MechanismConfig,
+  theta2: number,
+  branch: 1 | -1 = config.assemblyMode
+): MechanismState => getMechanism(config).solve(config, theta2, branch);
+
+export const solveMechanismMotion = (
+  config: MechanismConfig,
+  state: MechanismState,
+  omega2: number,
+  alpha2: number
+): MotionState => getMechanism(config).solveMotion(config, state, omega2, alpha2);
+
+export const calculateMechanismLimits = (config: MechanismConfig): LimitAnalysis => getMechanism(config).calculateLimits(config);
+
+export const classifyMechanism = (config: MechanismConfig): MechanismClass => getMechanism(config).classify(config);
+
+export const findSpecialGeometry = (config: MechanismConfig, state?: MechanismState): SpecialGeometry | null =>
+  getMechanism(config).specialGeometry(config, state);
+
+/**
+ * Converts a config to another mechanism type, keeping the crank, placement and coupler points.
+ * Links the new type needs but the old one ignored are given workable lengths.
+ */
+export const convertMechanism = (config: MechanismConfig, type: MechanismType): MechanismConfig => {
+  const { r2 } = config;
+  if (type === 'four-bar') return { ...config, type };
+  if (type === 'slider-crank') return { ...config, type, r3: Math.max(config.r3, 3 * r2) };
+  // The guide pivot must sit beyond the crank for a crank-shaper; the guide reaches past the crank circle
+  const r1 = Math.max(config.r1, 2 * r2);
+  return { ...config, type, r1, r4: Math.max(config.r4, r1 + 1.5 * r2) };
+};
@@ -0,0 +1,130 @@
+import { MechanismConfig, MechanismState, LimitAnalysis, ExportSpec } from '../types';
+import { createBranchTracker } from './branchTracking';
+import { animationCycleAngles } from './cycle';
+import { computeSceneBounds, renderMechanismSvg, RenderOptions } from './svgRenderer';
+import { createGifEncoder } from './gifEncoder';
+
+// Container formats tried in order when recording video
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export type ProgressCallback = (fraction: number) => void;
+
+const toRenderOptions = (spec: ExportSpec): RenderOptions => ({
+  width: spec.width,
+  height: spec.height,
+  showCouplerCurves: spec.showCouplerCurves,
+  showLimitGhosts: spec.showLimitGhosts
+});
+
+/**
+ * SVG of the mechanism at its current position, framed around that position
+ */
+export const renderFrameSvg = (
+  config: MechanismConfig,
+  state: MechanismState,
+  limits: LimitAnalysis,
+  spec: ExportSpec
+): string => {
+  const options = toRenderOptions(spec);
+  return renderMechanismSvg(config, state, limits, computeSceneBounds(config, [state], limits, options), options);
+};
+
+/**
+ * SVG frames for one full crank cycle from the given crank angle, sharing one framing so the
+ * ground pivots stay put. Rocking cranks sweep out and back between their limits.
+ */
+export const renderCycleSvgs = (
+  config: MechanismConfig,
+  limits: LimitAnalysis,
+  theta2: number,
+  spec: ExportSpec
+): string[] => {
+  const options = toRenderOptions(spec);
+  // A fresh tracker follows the branch through the cycle just as playback does
+  const tracker = createBranchTracker();
+  const states = animationCycleAngles(limits, spec.frames, theta2).map(angle => tracker.solve(config, angle).state);
+  const bounds = computeSceneBounds(config, states, limits, options);
+  return states.map(state => renderMechanismSvg(config, state, limits, bounds, options));
+};
+
+const loadSvgImage = async (svg: string): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D rendering is not available');
+  return { canvas, ctx };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))), type);
+  });
+
+export const exportPng = async (svg: string, spec: ExportSpec): Promise<Blob> => {
+  const { canvas, ctx } = createCanvas(spec.width, spec.height);
+  ctx.drawImage(await loadSvgImage(svg), 0, 0, spec.width, spec.height);
+  return canvasToBlob(canvas, 'image/png');
+};
+
+export const exportGif = async (svgs: string[], spec: ExportSpec, onProgress?: ProgressCallback): Promise<Blob> => {
+  const { ctx } = createCanvas(spec.width, spec.height);
+  const encoder = createGifEncoder(spec.width, spec.height, spec.fps);
+  for (let i = 0; i < svgs.length; i++) {
+    ctx.drawImage(await loadSvgImage(svgs[i]), 0, 0, spec.width, spec.height);
+    encoder.addFrame(ctx.getImageData(0, 0, spec.width, spec.height).data);
+    onProgress?.((i + 1) / svgs.length);
+  }
+  return new Blob([encoder.finish()], { type: 'image/gif' });
+};
+
+export const getWebmType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+/**
+ * Records the frames to WebM in real time: MediaRecorder timestamps frames as they are drawn,
+ * so each one is held on the canvas for 1/fps seconds.
+ */
+export const exportWebm = async (svgs: string[], spec: ExportSpec, onProgress?: ProgressCallback): Promise<Blob> => {
+  const mimeType = getWebmType();
+  if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+  // Decode everything first so slow frames do not stretch the timing
+  const images: HTMLImageElement[] = [];
+  for (const svg of svgs) images.push(await loadSvgImage(svg));
+
+  const { canvas, ctx } = createCanvas(spec.width, spec.height);
+  ctx.drawImage(images[0], 0, 0, spec.width, spec.height);
+  const stream = canvas.captureStream(spec.fps);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const frameMs = 1000 / spec.fps;
+  recorder.start();
+  for (let i = 0; i < images.length; i++) {
+    ctx.drawImage(images[i], 0, 0, spec.width, spec.height);
+    onProgress?.((i + 1) / images.length);
+    await new Promise(resolve => setTimeout(resolve, frameMs));
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(track => track.stop());
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
@@ -0,0 +1,92 @@
+import { MechanismConfig, MechanismState, MotionState, Point } from '../types';
+import { getTolerances } from './kinematics';
+
+/**
+ * Velocity of a point at offset r on a link rotating with angular velocity omega (omega x r)
+ */
+export const rotationalVelocity = (omega: number, r: Point): Point => ({
+  x: -omega * r.y,
+  y: omega * r.x
+});
+
+/**
+ * Acceleration of a point at offset r on a link with angular velocity omega and acceleration alpha
+ */
+export const rotationalAcceleration = (omega: number, alpha: number, r: Point): Point => ({
+  x: -alpha * r.y - omega * omega * r.x,
+  y: alpha * r.x - omega * omega * r.y
+});
+
+export const add = (p1: Point, p2: Point): Point => ({ x: p1.x + p2.x, y: p1.y + p2.y });
+export const sub = (p1: Point, p2: Point): Point => ({ x: p1.x - p2.x, y: p1.y - p2.y });
+
+/**
+ * Returns a MotionState with all rates zeroed, used when the mechanism cannot be solved
+ */
+export const invalidMotion = (omega2: number, alpha2: number): MotionState => ({
+  omega2, alpha2,
+  omega3: 0, omega4: 0, alpha3: 0, alpha4: 0,
+  vA: { x: 0, y: 0 }, vB: { x: 0, y: 0 },
+  aA: { x: 0, y: 0 }, aB: { x: 0, y: 0 },
+  vP: [], aP: [],
+  isValid: false
+});
+
+/**
+ * Velocity and acceleration analysis for a solved position.
+ * Differentiates the loop equation r2 e^(i t2) + r3 e^(i t3) = r1 + r4 e^(i t4)
+ * for a crank driven at omega2 (rad/s) with angular acceleration alpha2 (rad/s^2).
+ */
+export const solveMotion = (
+  config: MechanismConfig,
+  state: MechanismState,
+  omega2: number,
+  alpha2: number
+): MotionState => {
+  const { r2, r3, r4 } = config;
+  const { theta2, theta3, theta4 } = state;
+
+  // Below the singularity tolerance the coupler and rocker are treated as collinear (toggle)
+  const s34 = Math.sin(theta3 - theta4);
+  if (!state.isValid || Math.abs(s34) < getTolerances(config).singularity) {
+    return invalidMotion(omega2, alpha2);
+  }
+
+  // --- Velocity ---
+  const omega3 = (r2 * omega2 * Math.sin(theta4 - theta2)) / (r3 * s34);
+  const omega4 = (r2 * omega2 * Math.sin(theta2 - theta3)) / (r4 * Math.sin(theta4 - theta3));
+
+  // --- Acceleration ---
+  // Known terms K = r2 (i a2 - w2^2) e^(i t2) - r3 w3^2 e^(i t3) + r4 w4^2 e^(i t4)
+  // Unknowns satisfy r3 a3 i e^(i t3) - r4 a4 i e^(i t4) = -K
+  const Kx = r2 * (-alpha2 * Math.sin(theta2) - omega2 * omega2 * Math.cos(theta2))
+    - r3 * omega3 * omega3 * Math.cos(theta3)
+    + r4 * omega4 * omega4 * Math.cos(theta4);
+  const Ky = r2 * (alpha2 * Math.cos(theta2) - omega2 * omega2 * Math.sin(theta2))
+    - r3 * omega3 * omega3 * Math.sin(theta3)
+    + r4 * omega4 * omega4 * Math.sin(theta4);
+
+  // Project onto e^(i t4) and e^(i t3) to eliminate one unknown at a time
+  const alpha3 = (Kx * Math.cos(theta4) + Ky * Math.sin(theta4)) / (r3 * s34);
+  const alpha4 = -(Kx * Math.cos(theta3) + Ky * Math.sin(theta3)) / (r4 * Math.sin(theta4 - theta3));
+
+  // --- Joint Velocities / Accelerations ---
+  const rA = sub(state.A, state.O2);
+  const rB = sub(state.B, state.O4);
+  const vA = rotationalVelocity(omega2, rA);
+  const aA = rotationalAcceleration(omega2, alpha2, rA);
+  const vB = rotationalVelocity(omega4, rB);
+  const aB = rotationalAcceleration(omega4, alpha4, rB);
+
+  // Coupler points move with A plus the coupler's rotation about A
+  const vP = state.couplerPoints.map(p => add(vA, rotationalVelocity(omega3, sub(p, state.A))));
+  const aP = state.couplerPoints.map(p => add(aA, rotationalAcceleration(omega3, alpha3, sub(p, state.A))));
+
+  return {
+    omega2, alpha2,
+    omega3, omega4, alpha3, alpha4,
+    vA, vB, aA, aB,
+    vP, aP,
+    isValid: true
+  };
+};
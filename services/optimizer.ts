@@ -0,0 +1,134 @@
+import { MechanismConfig, OptimizationSpec, OptimizationResult, OptimizationStep } from '../types';
+import { calculateLimits } from './kinematics';
+import { createRng } from './random';
+
+// Differential evolution controls (DE/rand/1/bin)
+const DIFFERENTIAL_WEIGHT = 0.7;
+const CROSSOVER_RATE = 0.9;
+
+interface Candidate {
+  ratios: number[]; // r2/r1, r3/r1, r4/r1
+  violation: number; // 0 when every constraint holds
+  transmissionMin: number;
+  swing: number;
+}
+
+const toConfig = (r1: number, ratios: number[]): MechanismConfig => ({
+  r1,
+  r2: ratios[0] * r1,
+  r3: ratios[1] * r1,
+  r4: ratios[2] * r1,
+  assemblyMode: 1,
+  couplerPoints: []
+});
+
+/**
+ * Scores a design. Constraint violations are normalised so a single sum can rank infeasible designs:
+ * the crank must be the shortest link of a Grashof linkage, and the swing must be within tolerance.
+ */
+const evaluate = (spec: OptimizationSpec, ratios: number[]): Candidate => {
+  const [a, b, c] = ratios;
+  const others = [1, b, c];
+  const shortestOther = Math.min(...others);
+  const longest = Math.max(a, ...others);
+  const sum = 1 + a + b + c;
+
+  // Grashof crank-rocker: r2 shortest and s + l < p + q, i.e. 2(s + l) < sum
+  const crankViolation = Math.max(0, a - shortestOther);
+  const grashofViolation = Math.max(0, 2 * (a + longest) - sum);
+  if (crankViolation > 0 || grashofViolation > 0) {
+    return { ratios, violation: 1 + crankViolation + grashofViolation, transmissionMin: 0, swing: 0 };
+  }
+
+  const limits = calculateLimits(toConfig(spec.r1, ratios));
+  const swing = limits.rockerMax - limits.rockerMin;
+  const swingViolation = Math.max(0, Math.abs(swing - spec.targetSwing) - spec.swingTolerance) / Math.max(spec.targetSwing, 1);
+  return { ratios, violation: swingViolation, transmissionMin: limits.transmissionMin, swing };
+};
+
+/**
+ * Feasibility rules: feasible beats infeasible, then higher μ-min, then smaller violation
+ */
+const isBetter = (x: Candidate, y: Candidate) => {
+  if (x.violation === 0 && y.violation === 0) return x.transmissionMin > y.transmissionMin;
+  return x.violation < y.violation;
+};
+
+/**
+ * Searches r2, r3 and r4 (with r1 fixed) for the Grashof crank-rocker with the largest minimum
+ * transmission angle whose rocker swing matches the target. Deterministic for a given seed.
+ */
+export const optimizeTransmission = (spec: OptimizationSpec): OptimizationResult => {
+  const { ratioMin, ratioMax, populationSize, generations } = spec;
+  const fail = (error: string): OptimizationResult => ({
+    isValid: false, error, config: null, transmissionMin: 0, swing: 0, history: [], evaluations: 0
+  });
+
+  if (!(spec.r1 > 0)) return fail('Ground length must be positive');
+  if (!(ratioMin > 0) || !(ratioMax > ratioMin)) return fail('Link ratio bounds must satisfy 0 < min < max');
+  if (!(spec.targetSwing > 0 && spec.targetSwing < 180)) return fail('Target swing must be between 0° and 180°');
+  if (populationSize < 4) return fail('Population needs at least 4 members');
+
+  const rng = createRng(spec.seed);
+  const clamp = (v: number) => Math.max(ratioMin, Math.min(ratioMax, v));
+  const randomRatio = () => ratioMin + rng() * (ratioMax - ratioMin);
+
+  let evaluations = 0;
+  const score = (ratios: number[]) => {
+    evaluations++;
+    return evaluate(spec, ratios);
+  };
+
+  let population: Candidate[] = Array.from({ length: populationSize }, () => score([randomRatio(), randomRatio(), randomRatio()]));
+  let best = population.reduce((b, c) => (isBetter(c, b) ? c : b));
+  const history: OptimizationStep[] = [];
+
+  const record = (generation: number) => history.push({
+    generation,
+    bestTransmission: best.violation === 0 ? best.transmissionMin : null,
+    feasibleFraction: population.filter(c => c.violation === 0).length / populationSize
+  });
+  record(0);
+
+  // Three distinct members other than `exclude`
+  const pickThree = (exclude: number) => {
+    const picks: number[] = [];
+    while (picks.length < 3) {
+      const k = Math.floor(rng() * populationSize);
+      if (k !== exclude && !picks.includes(k)) picks.push(k);
+    }
+    return picks.map(k => population[k]);
+  };
+
+  for (let g = 1; g <= generations; g++) {
+    population = population.map((target, i) => {
+      const [p, q, r] = pickThree(i);
+      const forced = Math.floor(rng() * 3); // At least one gene comes from the mutant
+      const trialRatios = target.ratios.map((v, d) =>
+        d === forced || rng() < CROSSOVER_RATE
+          ? clamp(p.ratios[d] + DIFFERENTIAL_WEIGHT * (q.ratios[d] - r.ratios[d]))
+          : v
+      );
+      const trial = score(trialRatios);
+      return isBetter(trial, target) ? trial : target;
+    });
+    best = population.reduce((b, c) => (isBetter(c, b) ? c : b), best);
+    record(g);
+  }
+
+  if (best.violation > 0) {
+    return {
+      ...fail('No crank-rocker within the ratio bounds meets the swing target; widen the bounds or tolerance'),
+      history,
+      evaluations
+    };
+  }
+  return {
+    isValid: true,
+    config: toConfig(spec.r1, best.ratios),
+    transmissionMin: best.transmissionMin,
+    swing: best.swing,
+    history,
+    evaluations
+  };
+};
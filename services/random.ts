@@ -0,0 +1,14 @@
+/**
+ * Seeded pseudo-random generator (mulberry32) returning values in [0, 1).
+ * The same seed always reproduces the same sequence, so searches can be repeated exactly.
+ */
+export const createRng = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -0,0 +1,167 @@
+import { MechanismConfig, MechanismState, DyadConfig, DyadState, DyadLimitAnalysis, LimitAnalysis, Point, Tolerances } from '../types';
+import {
+  solveFourBar, calculateCouplerPoint, distance, normalizeAngle, toDegrees, toRadians, getMechanismType,
+  getTolerances, DEFAULT_TOLERANCES
+} from './kinematics';
+
+// Input positions sampled when looking for the second loop's limits
+const DYAD_SAMPLES = 720;
+
+/*
+ * A six-bar here is a four-bar with a dyad C-D-O6 closing a second loop onto it.
+ * C rides on the four-bar's coupler (Stephenson III) or rocker (Watt II); link 5 runs from C
+ * to D and the output link 6 from its ground pivot O6 to D.
+ */
+
+/**
+ * World position of the dyad's attachment C on the four-bar's coupler or rocker
+ */
+export const getDyadAttachment = (dyad: DyadConfig, state: MechanismState): Point =>
+  dyad.attachment === 'coupler'
+    ? calculateCouplerPoint(state.A, state.theta3, dyad.point)
+    : calculateCouplerPoint(state.O4, state.theta4, dyad.point);
+
+/**
+ * Closes the second loop on a solved four-bar position, with the same tolerance model as
+ * solveFourBar scaled by the dyad's longer link
+ */
+export const solveDyad = (
+  dyad: DyadConfig,
+  state: MechanismState,
+  tolerances: Tolerances = DEFAULT_TOLERANCES
+): DyadState => {
+  const { r5, r6, O6, assemblyMode: branch } = dyad;
+  const C = getDyadAttachment(dyad, state);
+  const d = distance(C, O6);
+  const eps = tolerances.length * Math.max(r5, r6);
+  const onPivot = d <= eps;
+
+  if (!state.isValid || onPivot || d > r5 + r6 + eps || d < Math.abs(r5 - r6) - eps) {
+    const condition = state.isValid && onPivot && Math.abs(r5 - r6) <= eps ? 'indeterminate' : 'unassembled';
+    return { C, D: C, O6, theta5: 0, theta6: 0, transmissionAngle: 0, branch, isValid: false, condition };
+  }
+
+  // Intersection of Circle(C, r5) and Circle(O6, r6), as for B in solveFourBar
+  const a = (r5 * r5 - r6 * r6 + d * d) / (2 * d);
+  const h = Math.sqrt(Math.max(0, r5 * r5 - a * a));
+  const ux = (O6.x - C.x) / d;
+  const uy = (O6.y - C.y) / d;
+  const D: Point = {
+    x: C.x + a * ux - branch * h * uy,
+    y: C.y + a * uy + branch * h * ux
+  };
+
+  const cosMu = (r5 * r5 + r6 * r6 - d * d) / (2 * r5 * r6);
+  const transmissionAngle = Math.acos(Math.max(-1, Math.min(1, cosMu)));
+  const nearSingular = Math.min(transmissionAngle, Math.PI - transmissionAngle) < toRadians(tolerances.nearSingular);
+  return {
+    C, D, O6,
+    theta5: Math.atan2(D.y - C.y, D.x - C.x),
+    theta6: Math.atan2(D.y - O6.y, D.x - O6.x),
+    transmissionAngle,
+    branch,
+    isValid: true,
+    condition: nearSingular ? 'near-singular' : 'regular'
+  };
+};
+
+/**
+ * Four-bar position with the dyad's loop closed onto it. The second loop's validity is
+ * reported in state.dyad and leaves the first loop's isValid alone.
+ */
+export const solveSixBar = (
+  config: MechanismConfig,
+  theta2: number,
+  branch: 1 | -1 = config.assemblyMode
+): MechanismState => {
+  const state = solveFourBar(config, theta2, branch);
+  return config.dyad ? { ...state, dyad: solveDyad(config.dyad, state, getTolerances(config)) } : state;
+};
+
+/**
+ * Output swing, transmission range and assemblability of the second loop, sampled over the
+ * input's range on the configured branch. Null unless the linkage is a four-bar with a dyad.
+ */
+export const calculateDyadLimits = (config: MechanismConfig, limits: LimitAnalysis): DyadLimitAnalysis | null => {
+  if (!config.dyad || getMechanismType(config) !== 'four-bar') return null;
+
+  const fullTurn = !limits.hasCrankLimits;
+  const start = fullTurn ? 0 : toRadians(limits.crankMin);
+  const span = fullTurn ? 2 * Math.PI : toRadians(limits.crankMax - limits.crankMin);
+  // A full turn's last sample would repeat the first
+  const count = fullTurn ? DYAD_SAMPLES : DYAD_SAMPLES + 1;
+
+  let assembled = 0;
+  let transmissionMin = NaN;
+  let transmissionMax = NaN;
+  // theta6 is unwrapped so that a swing across 0° stays one interval
+  let first: number | null = null;
+  let previous: number | null = null;
+  let unwrapped = 0;
+  let minAngle = Infinity;
+  let maxAngle = -Infinity;
+  let stateMin: MechanismState | null = null;
+  let stateMax: MechanismState | null = null;
+
+  for (let i = 0; i < count; i++) {
+    const state = solveSixBar(config, start + (i / DYAD_SAMPLES) * span);
+    const dyad = state.dyad;
+    if (!dyad || !dyad.isValid) continue;
+    assembled++;
+
+    const mu = toDegrees(dyad.transmissionAngle);
+    transmissionMin = isNaN(transmissionMin) ? mu : Math.min(transmissionMin, mu);
+    transmissionMax = isNaN(transmissionMax) ? mu : Math.max(transmissionMax, mu);
+
+    unwrapped = previous === null ? dyad.theta6 : unwrapped + normalizeAngle(dyad.theta6 - previous + Math.PI) - Math.PI;
+    previous = dyad.theta6;
+    if (first === null) first = unwrapped;
+    if (unwrapped < minAngle) {
+      minAngle = unwrapped;
+      stateMin = state;
+    }
+    if (unwrapped > maxAngle) {
+      maxAngle = unwrapped;
+      stateMax = state;
+    }
+  }
+
+  // Closing the loop back to the first sample shows whether link 6 came round a full turn
+  const netTurn = fullTurn && assembled === count && first !== null && previous !== null
+    ? unwrapped + normalizeAngle(first - previous + Math.PI) - Math.PI - first
+    : 0;
+  const rotatesFully = Math.abs(netTurn) > Math.PI || maxAngle - minAngle >= 2 * Math.PI;
+  const hasOutputLimits = assembled > 0 && !rotatesFully;
+  const outputMin = hasOutputLimits ? toDegrees(normalizeAngle(minAngle)) : 0;
+
+  return {
+    assembledFraction: assembled / count,
+    hasOutputLimits,
+    outputMin,
+    outputMax: hasOutputLimits ? outputMin + toDegrees(maxAngle - minAngle) : 360,
+    limitStateMin: hasOutputLimits ? stateMin : null,
+    limitStateMax: hasOutputLimits ? stateMax : null,
+    transmissionMin,
+    transmissionMax
+  };
+};
+
+/**
+ * A Watt II dyad on the current rocker, sized to the four-bar and placed so the second loop
+ * closes at the given position
+ */
+export const createDefaultDyad = (config: MechanismConfig, state: MechanismState): DyadConfig => {
+  const dyad: DyadConfig = {
+    attachment: 'rocker',
+    point: { along: config.r4 / 2, offset: -config.r4 / 2 },
+    r5: config.r4,
+    r6: config.r4,
+    O6: { x: 0, y: 0 },
+    assemblyMode: 1
+  };
+  // O6 along the ground direction from C, at 70% of the dyad's reach
+  const C = getDyadAttachment(dyad, state);
+  const angle = config.groundAngle ?? 0;
+  const reach = 0.7 * (dyad.r5 + dyad.r6);
+  return { ...dyad, O6: { x: C.x + reach * Math.cos(angle), y: C.y + reach * Math.sin(angle) } };
+};
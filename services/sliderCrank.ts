@@ -0,0 +1,509 @@
+import { MechanismConfig, MechanismState, MotionState, LimitAnalysis, Point, SliderCrankType, PositionCondition } from '../types';
+import {
+  calculateA, calculateCouplerPoint, getGroundPivots, distance, normalizeAngle, angularDistance, oscillationArc, toDegrees, toRadians,
+  solveCrankToReach, calculateTimeRatio, NO_TIME_RATIO, getTolerances, lengthTolerance, classifyPosition
+} from './kinematics';
+import { rotationalVelocity, rotationalAcceleration, add, sub, invalidMotion } from './motion';
+
+// Samples of the crank range used to bound the inverted slider-crank's transmission angle
+const TRANSMISSION_SAMPLES = 720;
+
+/*
+ * Both types measure positions in the ground frame: u points along config.groundAngle and
+ * n is u turned 90° CCW. The slide line is offset by e = config.sliderOffset along n.
+ *
+ * Slider-crank: crank r2 about O2 drives the connecting rod r3 (the coupler) whose far end B
+ * slides on the line O2 + s·u + e·n. O4 marks the guide's origin (s = 0) and r1, r4 are unused.
+ * Branch 1 puts the slider ahead of the crank (+u), branch -1 behind it.
+ *
+ * Inverted slider-crank: the slide is a guide link r4 pivoted at O4 (r1 along u from O2). The
+ * crank pin A drives a block that slides along that guide, offset by e from its centreline;
+ * B is the block's point on the centreline and the block (the coupler) turns with the guide.
+ * r3 is unused. Branch 1 keeps the block on the guide's positive side of O4, branch -1 the other.
+ */
+
+const frame = (config: MechanismConfig) => {
+  const angle = config.groundAngle ?? 0;
+  return {
+    u: { x: Math.cos(angle), y: Math.sin(angle) },
+    n: { x: -Math.sin(angle), y: Math.cos(angle) },
+    e: config.sliderOffset ?? 0
+  };
+};
+
+const along = (origin: Point, dir: Point, t: number): Point => ({ x: origin.x + dir.x * t, y: origin.y + dir.y * t });
+
+const invalidState = (
+  A: Point,
+  O2: Point,
+  O4: Point,
+  theta2: number,
+  branch: 1 | -1,
+  condition: PositionCondition = 'unassembled'
+): MechanismState => ({
+  A, B: { x: 0, y: 0 }, O2, O4,
+  theta2, theta3: 0, theta4: 0, transmissionAngle: 0,
+  couplerPoints: [],
+  branch,
+  isValid: false,
+  condition,
+  sliderPosition: 0
+});
+
+// --- Slider-Crank ---
+
+/**
+ * Slider-crank position for the crank angle. Out-of-reach positions are clamped onto the toggle,
+ * so callers that need validity check it first.
+ */
+const buildSliderCrankState = (config: MechanismConfig, theta2: number, branch: 1 | -1): MechanismState => {
+  const { r2, r3 } = config;
+  const { O2 } = getGroundPivots(config);
+  const { u, n, e } = frame(config);
+  const A = calculateA(r2, theta2, O2);
+
+  // Crank tip in ground-frame coordinates; the rod must bridge the gap y to the slide line
+  const ax = (A.x - O2.x) * u.x + (A.y - O2.y) * u.y;
+  const ay = (A.x - O2.x) * n.x + (A.y - O2.y) * n.y;
+  const y = e - ay;
+  const s = ax + branch * Math.sqrt(Math.max(0, r3 * r3 - y * y));
+
+  const O4 = along(O2, n, e);
+  const B = along(O4, u, s);
+  const theta3 = Math.atan2(B.y - A.y, B.x - A.x);
+  // Angle between the rod and the slide's normal, the four-bar's rocker in the limit r4 -> ∞
+  const transmissionAngle = Math.acos(Math.max(-1, Math.min(1, y / r3)));
+
+  return {
+    A, B, O2, O4,
+    theta2, theta3,
+    theta4: config.groundAngle ?? 0, // The slider translates without turning
+    transmissionAngle,
+    couplerPoints: config.couplerPoints.map(p => calculateCouplerPoint(A, theta3, p)),
+    branch,
+    isValid: true,
+    condition: classifyPosition(config, transmissionAngle),
+    sliderPosition: s
+  };
+};
+
+export const solveSliderCrank = (
+  config: MechanismConfig,
+  theta2: number,
+  branch: 1 | -1 = config.assemblyMode
+): MechanismState => {
+  const { O2 } = getGroundPivots(config);
+  const { n, e } = frame(config);
+  const A = calculateA(config.r2, theta2, O2);
+  const ay = (A.x - O2.x) * n.x + (A.y - O2.y) * n.y;
+  if (Math.abs(e - ay) > config.r3 + lengthTolerance(config)) return invalidState(A, O2, along(O2, n, e), theta2, branch);
+  return buildSliderCrankState(config, theta2, branch);
+};
+
+/**
+ * Stroke limits, crank limits and transmission range of a slider-crank. The rod lines up with the
+ * crank at the dead centres: |O2B| = r2 + r3 (far) or r3 - r2 (near). A crank that only rocks
+ * strokes the slider between whichever of its limits and the dead centres it reaches are outermost.
+ */
+export const calculateSliderCrankLimits = (config: MechanismConfig): LimitAnalysis => {
+  const { r2, r3, assemblyMode } = config;
+  const groundAngle = config.groundAngle ?? 0;
+  const { e } = frame(config);
+  const eps = lengthTolerance(config);
+
+  // --- Crank Limits ---
+  // The rod reaches the slide line while |e - r2 sin(phi)| <= r3, phi measured from the slide.
+  // Each bound binds when the crank could otherwise swing past it; the rod is then square to the slide.
+  const hi = Math.min(1, (e + r3) / r2);
+  const lo = Math.max(-1, (e - r3) / r2);
+  // hi < 1 and lo > -1, compared as lengths so that a change-point does not bind
+  const upperBinds = e + r3 < r2 - eps;
+  const lowerBinds = r3 - e < r2 - eps;
+  const assemblable = Math.abs(e) <= r2 + r3 + eps;
+
+  let hasCrankLimits = false;
+  let crankMin = 0;
+  let crankMax = 360;
+  let crankStateMin: MechanismState | null = null;
+  let crankStateMax: MechanismState | null = null;
+  if (assemblable && (upperBinds || lowerBinds)) {
+    hasCrankLimits = true;
+    let tMin: number;
+    let tMax: number;
+    if (upperBinds && lowerBinds) {
+      // Two separate ranges either side of the normal; use the one around the slide direction
+      tMin = Math.asin(lo);
+      tMax = Math.asin(hi);
+    } else if (upperBinds) {
+      tMin = Math.PI - Math.asin(hi);
+      tMax = 2 * Math.PI + Math.asin(hi);
+    } else {
+      tMin = Math.asin(lo);
+      tMax = Math.PI - Math.asin(lo);
+    }
+    crankMin = toDegrees(groundAngle + tMin);
+    crankMax = toDegrees(groundAngle + tMax);
+    crankStateMin = buildSliderCrankState(config, groundAngle + tMin, assemblyMode);
+    crankStateMax = buildSliderCrankState(config, groundAngle + tMax, assemblyMode);
+  }
+
+  // --- Stroke Limits (Dead Centres) ---
+  // B = (s, e) in the ground frame; at a dead centre A lies on the line O2-B
+  const deadCentre = (reach: number, outward: boolean): MechanismState | null => {
+    if (reach < Math.abs(e) - eps || reach <= eps) return null;
+    const s = assemblyMode * Math.sqrt(Math.max(0, reach * reach - e * e));
+    const phi = outward ? Math.atan2(e, s) : Math.atan2(-e, -s);
+    return buildSliderCrankState(config, groundAngle + phi, assemblyMode);
+  };
+  const extended = deadCentre(r2 + r3, true);
+  // Folding back past O2 needs a rod longer than the crank
+  const folded = r3 > r2 + eps ? deadCentre(r3 - r2, false) : null;
+
+  // A crank that only rocks reaches the dead centres within its range on this branch, if any, and
+  // turns the slider back at its own limits otherwise. The slider is monotonic in between.
+  let turningPoints: MechanismState[] = [];
+  if (hasCrankLimits && crankStateMin && crankStateMax) {
+    const crankLo = toRadians(crankMin);
+    const crankHi = toRadians(crankMax);
+    const tol = 1e-6 * (r2 + r3 + Math.abs(e));
+    // Folded with the crank longer than the rod, B lies on the crank itself rather than behind O2
+    const reachable = [{ reach: r2 + r3, outward: true }, { reach: Math.abs(r3 - r2), outward: r2 > r3 }]
+      .flatMap(({ reach, outward }) => (reach <= eps || reach < Math.abs(e) - eps ? [] : [1, -1].map(side => {
+        const s = side * Math.sqrt(Math.max(0, reach * reach - e * e));
+        const phi = outward ? Math.atan2(e, s) : Math.atan2(-e, -s);
+        const theta2 = crankLo + normalizeAngle(groundAngle + phi - crankLo);
+        const state = buildSliderCrankState(config, theta2, assemblyMode);
+        return theta2 <= crankHi && Math.abs(distance(state.B, state.O2) - reach) <= tol ? state : null;
+      })))
+      .filter((state): state is MechanismState => state !== null);
+    turningPoints = [crankStateMin, crankStateMax, ...reachable];
+  } else if (extended && folded) {
+    turningPoints = [extended, folded];
+  }
+
+  let hasStrokeLimits = false;
+  let strokeMin = 0;
+  let strokeMax = 0;
+  let stateMin: MechanismState | null = null;
+  let stateMax: MechanismState | null = null;
+  if (turningPoints.length > 0) {
+    hasStrokeLimits = true;
+    stateMin = turningPoints.reduce((best, p) => ((p.sliderPosition ?? 0) < (best.sliderPosition ?? 0) ? p : best));
+    stateMax = turningPoints.reduce((best, p) => ((p.sliderPosition ?? 0) > (best.sliderPosition ?? 0) ? p : best));
+    strokeMin = stateMin.sliderPosition ?? 0;
+    strokeMax = stateMax.sliderPosition ?? 0;
+  }
+
+
+  // --- Transmission Angle Limits ---
+  // cos(mu) = (e - r2 sin(phi)) / r3, so the extremes come from sin(phi) = ±1 unless the rod toggles first
+  const transmissionMin = assemblable ? toDegrees(Math.acos(Math.min(1, (e + r2) / r3))) : NaN;
+  const transmissionMax = assemblable ? toDegrees(Math.acos(Math.max(-1, (e - r2) / r3))) : NaN;
+
+  return {
+    hasRockerLimits: false,
+    rockerMin: 0,
+    rockerMax: 360,
+    transmissionMin, transmissionMax,
+    limitStateMin: stateMin,
+    limitStateMax: stateMax,
+    hasStrokeLimits,
+    strokeMin, strokeMax,
+    hasCrankLimits,
+    crankMin, crankMax,
+    crankLimitStateMin: crankStateMin,
+    crankLimitStateMax: crankStateMax,
+    ...(hasStrokeLimits && !hasCrankLimits && extended && folded ? calculateTimeRatio(extended, folded) : NO_TIME_RATIO)
+  };
+};
+
+export const classifySliderCrank = (config: MechanismConfig): SliderCrankType => {
+  const { r2, r3 } = config;
+  const e = Math.abs(frame(config).e);
+  const eps = lengthTolerance(config);
+  if (e > r2 + r3 + eps) return SliderCrankType.INVALID;
+  if (r2 + e < r3 - eps) return e <= eps ? SliderCrankType.INLINE : SliderCrankType.OFFSET;
+  if (r2 + e <= r3 + eps) return SliderCrankType.CHANGE_POINT;
+  return SliderCrankType.ROCKING_CRANK;
+};
+
+/**
+ * Open and crossed are separate circuits when the crank turns fully, or when it is confined to
+ * two disjoint ranges; with a single bound they join at the toggles.
+ */
+export const countSliderCrankCircuits = (config: MechanismConfig): number => {
+  const { r2, r3 } = config;
+  const { e } = frame(config);
+  const eps = lengthTolerance(config);
+  const upperBinds = e + r3 < r2 - eps;
+  const lowerBinds = r3 - e < r2 - eps;
+  return upperBinds === lowerBinds ? 2 : 1;
+};
+
+/**
+ * Velocity and acceleration from the loop r2 e^(i t2) + r3 e^(i t3) = s u + e n,
+ * projected onto n (no motion across the slide) and u (the slider's own motion).
+ */
+export const solveSliderCrankMotion = (
+  config: MechanismConfig,
+  state: MechanismState,
+  omega2: number,
+  alpha2: number
+): MotionState => {
+  const { r2, r3 } = config;
+  const groundAngle = config.groundAngle ?? 0;
+  const { u } = frame(config);
+  const phi = state.theta2 - groundAngle;
+  const psi = state.theta3 - groundAngle;
+  if (!state.isValid || Math.abs(Math.cos(psi)) < getTolerances(config).singularity) return invalidMotion(omega2, alpha2);
+
+  const omega3 = (-r2 * omega2 * Math.cos(phi)) / (r3 * Math.cos(psi));
+  const sDot = -r2 * omega2 * Math.sin(phi) - r3 * omega3 * Math.sin(psi);
+
+  const alpha3 = (-r2 * alpha2 * Math.cos(phi) + r2 * omega2 * omega2 * Math.sin(phi) + r3 * omega3 * omega3 * Math.sin(psi))
+    / (r3 * Math.cos(psi));
+  const sDDot = -r2 * alpha2 * Math.sin(phi) - r2 * omega2 * omega2 * Math.cos(phi)
+    - r3 * alpha3 * Math.sin(psi) - r3 * omega3 * omega3 * Math.cos(psi);
+
+  const rA = sub(state.A, state.O2);
+  const vA = rotationalVelocity(omega2, rA);
+  const aA = rotationalAcceleration(omega2, alpha2, rA);
+
+  return {
+    omega2, alpha2,
+    omega3, omega4: 0, alpha3, alpha4: 0,
+    vA, vB: { x: sDot * u.x, y: sDot * u.y },
+    aA, aB: { x: sDDot * u.x, y: sDDot * u.y },
+    vP: state.couplerPoints.map(p => add(vA, rotationalVelocity(omega3, sub(p, state.A)))),
+    aP: state.couplerPoints.map(p => add(aA, rotationalAcceleration(omega3, alpha3, sub(p, state.A)))),
+    isValid: true
+  };
+};
+
+/**
+ * Crank angle that brings the slider to the point of the slide nearest `target`
+ */
+export const dragSliderCrank = (config: MechanismConfig, state: MechanismState, target: Point): number | null => {
+  const { u } = frame(config);
+  const s = (target.x - state.O4.x) * u.x + (target.y - state.O4.y) * u.y;
+  return solveCrankToReach(state.O2, config.r2, along(state.O4, u, s), config.r3, state.theta2);
+};
+
+// --- Inverted Slider-Crank ---
+
+const buildInvertedState = (config: MechanismConfig, theta2: number, branch: 1 | -1): MechanismState => {
+  const { O2, O4 } = getGroundPivots(config);
+  const { e } = frame(config);
+  const A = calculateA(config.r2, theta2, O2);
+
+  // A = O4 + t u4 + e n4 in the guide's own frame
+  const d = distance(A, O4);
+  const t = branch * Math.sqrt(Math.max(0, d * d - e * e));
+  const theta4 = Math.atan2(A.y - O4.y, A.x - O4.x) - Math.atan2(e, t);
+  const B = { x: O4.x + t * Math.cos(theta4), y: O4.y + t * Math.sin(theta4) };
+  // Angle at O4 between O4-A and the guide's normal: the block's lever arm about O4 is |t|, so at
+  // 90° the pin's force turns the guide fully and at 0° (t = 0, guide square to O4-A) it jams
+  const transmissionAngle = Math.atan2(Math.abs(t), Math.abs(e));
+
+  return {
+    A, B, O2, O4,
+    theta2,
+    theta3: theta4, // The block turns with the guide
+    theta4,
+    transmissionAngle,
+    couplerPoints: config.couplerPoints.map(p => calculateCouplerPoint(A, theta4, p)),
+    branch,
+    isValid: true,
+    condition: classifyPosition(config, transmissionAngle),
+    sliderPosition: t
+  };
+};
+
+export const solveInvertedSliderCrank = (
+  config: MechanismConfig,
+  theta2: number,
+  branch: 1 | -1 = config.assemblyMode
+): MechanismState => {
+  const { O2, O4 } = getGroundPivots(config);
+  const A = calculateA(config.r2, theta2, O2);
+  const d = distance(A, O4);
+  const e = Math.abs(frame(config).e);
+  const eps = lengthTolerance(config);
+  // With A on O4 and no offset the guide may point anywhere
+  if (d <= eps) return invalidState(A, O2, O4, theta2, branch, e <= eps ? 'indeterminate' : 'unassembled');
+  if (d < e - eps) return invalidState(A, O2, O4, theta2, branch);
+  return buildInvertedState(config, theta2, branch);
+};
+
+/**
+ * Guide limits, crank limits and transmission range of an inverted slider-crank.
+ * The guide reverses where it is square to the crank; the crank is limited where A comes within e of O4.
+ */
+export const calculateInvertedSliderLimits = (config: MechanismConfig): LimitAnalysis => {
+  const { r1, r2, assemblyMode } = config;
+  const groundAngle = config.groundAngle ?? 0;
+  const { e } = frame(config);
+  const eps = lengthTolerance(config);
+
+  // --- Crank Limits ---
+  // |A - O4|^2 = r1^2 + r2^2 - 2 r1 r2 cos(phi) >= e^2, so the crank rocks through phi = 180°.
+  // That binds once |r1 - r2| < |e|; at equality (a change-point) A just touches the limit.
+  const cosLimit = (r1 * r1 + r2 * r2 - e * e) / (2 * r1 * r2);
+  const assemblable = r1 + r2 >= Math.abs(e) - eps;
+
+  let hasCrankLimits = false;
+  let crankMin = 0;
+  let crankMax = 360;
+  let crankStateMin: MechanismState | null = null;
+  let crankStateMax: MechanismState | null = null;
+  if (assemblable && Math.abs(r1 - r2) < Math.abs(e) - eps) {
+    hasCrankLimits = true;
+    const tLimit = Math.acos(Math.max(-1, cosLimit));
+    crankMin = toDegrees(groundAngle + tLimit);
+    crankMax = toDegrees(groundAngle + 2 * Math.PI - tLimit);
+    crankStateMin = buildInvertedState(config, groundAngle + tLimit, assemblyMode);
+    crankStateMax = buildInvertedState(config, groundAngle + 2 * Math.PI - tLimit, assemblyMode);
+  }
+
+  // --- Guide (Rocker) Limits ---
+  // With the crank along sigma·n4, n4·(A - O4) = e gives cos(angle of n4 from ground) = (sigma r2 - e) / r1.
+  // Of the two roots, the one whose block lies on the branch's side of O4 is kept.
+  const guideLimit = (sigma: 1 | -1): MechanismState | null => {
+    const k = (sigma * r2 - e) / r1;
+    if (Math.abs(k) > 1 + eps / r1) return null;
+    const normalAngle = groundAngle - assemblyMode * Math.acos(Math.max(-1, Math.min(1, k)));
+    return buildInvertedState(config, normalAngle + (sigma === 1 ? 0 : Math.PI), assemblyMode);
+  };
+
+  let hasRockerLimits = false;
+  let rockerMin = 0;
+  let rockerMax = 360;
+  let stateMin: MechanismState | null = null;
+  let stateMax: MechanismState | null = null;
+  // The extended limit is the one with A farther from O4
+  const outward: 1 | -1 = e >= 0 ? 1 : -1;
+  const s1 = hasCrankLimits ? null : guideLimit(outward);
+  const s2 = hasCrankLimits ? null : guideLimit(outward === 1 ? -1 : 1);
+  if (s1 && s2) {
+    hasRockerLimits = true;
+    // With O4 beyond the crank's reach the guide on branch 1 points back towards O2 and never
+    // along the ground line; on branch -1 it points the other way
+    const arc = oscillationArc(s1.theta4, s2.theta4, groundAngle + (assemblyMode === 1 ? 0 : Math.PI));
+    rockerMin = toDegrees(arc.start);
+    rockerMax = rockerMin + toDegrees(arc.span);
+    stateMin = arc.fromFirst ? s1 : s2;
+    stateMax = arc.fromFirst ? s2 : s1;
+  }
+
+  // --- Transmission Angle Limits ---
+  // No closed form once the guide is offset, so the crank's range is sampled
+  let transmissionMin = NaN;
+  let transmissionMax = NaN;
+  if (assemblable) {
+    const start = hasCrankLimits ? (crankMin * Math.PI) / 180 : 0;
+    const span = hasCrankLimits ? ((crankMax - crankMin) * Math.PI) / 180 : 2 * Math.PI;
+    for (let i = 0; i <= TRANSMISSION_SAMPLES; i++) {
+      const mu = toDegrees(buildInvertedState(config, start + (i / TRANSMISSION_SAMPLES) * span, assemblyMode).transmissionAngle);
+      transmissionMin = isNaN(transmissionMin) ? mu : Math.min(transmissionMin, mu);
+      transmissionMax = isNaN(transmissionMax) ? mu : Math.max(transmissionMax, mu);
+    }
+    // The guide and crank limits are exact extremes that sampling would only approach
+    [stateMin, stateMax, crankStateMin, crankStateMax].forEach(state => {
+      if (!state) return;
+      transmissionMin = Math.min(transmissionMin, toDegrees(state.transmissionAngle));
+      transmissionMax = Math.max(transmissionMax, toDegrees(state.transmissionAngle));
+    });
+  }
+
+  return {
+    hasRockerLimits,
+    rockerMin, rockerMax,
+    transmissionMin, transmissionMax,
+    limitStateMin: stateMin,
+    limitStateMax: stateMax,
+    hasStrokeLimits: false,
+    strokeMin: 0,
+    strokeMax: 0,
+    hasCrankLimits,
+    crankMin, crankMax,
+    crankLimitStateMin: crankStateMin,
+    crankLimitStateMax: crankStateMax,
+    ...(s1 && s2 ? calculateTimeRatio(s1, s2) : NO_TIME_RATIO)
+  };
+};
+
+export const classifyInvertedSlider = (config: MechanismConfig): SliderCrankType => {
+  const { r1, r2 } = config;
+  const e = Math.abs(frame(config).e);
+  const eps = lengthTolerance(config);
+  if (r1 + r2 < e - eps) return SliderCrankType.INVALID;
+  if (Math.abs(r1 - r2) > e + eps) return r2 < r1 ? SliderCrankType.CRANK_SHAPER : SliderCrankType.WHITWORTH;
+  if (Math.abs(r1 - r2) >= e - eps) return SliderCrankType.CHANGE_POINT;
+  return SliderCrankType.ROCKING_CRANK;
+};
+
+/**
+ * The block can only change sides of O4 at a crank toggle, so a freely turning crank keeps each side
+ * as its own circuit
+ */
+export const countInvertedSliderCircuits = (config: MechanismConfig, limits: LimitAnalysis): number =>
+  limits.hasCrankLimits ? 1 : 2;
+
+/**
+ * Velocity and acceleration from the loop r2 e^(i t2) = (O4 - O2) + (t + i e) e^(i t4),
+ * projected onto the guide's normal (turning the guide) and along it (sliding the block).
+ */
+export const solveInvertedSliderMotion = (
+  config: MechanismConfig,
+  state: MechanismState,
+  omega2: number,
+  alpha2: number
+): MotionState => {
+  const { r2 } = config;
+  const { e } = frame(config);
+  const t = state.sliderPosition ?? 0;
+  // omega4 grows as r2 / t, so the block passing O4's foot (t = 0) is the singular position. As for
+  // the other mechanisms the tolerance bounds |sin| of the angle the position is classified by, atan2(|t|, |e|).
+  if (!state.isValid || Math.abs(t) <= getTolerances(config).singularity * distance(state.A, state.O4)) return invalidMotion(omega2, alpha2);
+
+  const delta = state.theta2 - state.theta4;
+  const omega4 = (r2 * omega2 * Math.cos(delta)) / t;
+  const tDot = e * omega4 - r2 * omega2 * Math.sin(delta);
+  const alpha4 = (r2 * alpha2 * Math.cos(delta) - r2 * omega2 * omega2 * Math.sin(delta)
+    - 2 * tDot * omega4 + e * omega4 * omega4) / t;
+
+  const rA = sub(state.A, state.O2);
+  const rB = sub(state.B, state.O4);
+  const vA = rotationalVelocity(omega2, rA);
+  const aA = rotationalAcceleration(omega2, alpha2, rA);
+
+  return {
+    omega2, alpha2,
+    omega3: omega4, omega4, alpha3: alpha4, alpha4,
+    vA, vB: rotationalVelocity(omega4, rB),
+    aA, aB: rotationalAcceleration(omega4, alpha4, rB),
+    vP: state.couplerPoints.map(p => add(vA, rotationalVelocity(omega4, sub(p, state.A)))),
+    aP: state.couplerPoints.map(p => add(aA, rotationalAcceleration(omega4, alpha4, sub(p, state.A)))),
+    isValid: true
+  };
+};
+
+/**
+ * Crank angle that turns the guide towards `target`, taking the solution nearest the current crank angle
+ */
+export const dragInvertedSlider = (config: MechanismConfig, state: MechanismState, target: Point): number | null => {
+  const { e } = frame(config);
+  const theta4 = Math.atan2(target.y - state.O4.y, target.x - state.O4.x);
+  const u4 = { x: Math.cos(theta4), y: Math.sin(theta4) };
+  // Points O4 + e n4 + t u4 on the block's line at distance r2 from O2: t^2 + 2 t (w·u4) + |w|^2 - r2^2 = 0
+  const w = { x: state.O4.x - state.O2.x - e * u4.y, y: state.O4.y - state.O2.y + e * u4.x };
+  const b = w.x * u4.x + w.y * u4.y;
+  const disc = b * b - (w.x * w.x + w.y * w.y - config.r2 * config.r2);
+  if (disc < 0) return null;
+
+  const candidates = [-b + Math.sqrt(disc), -b - Math.sqrt(disc)]
+    .map(t => Math.atan2(w.y + t * u4.y, w.x + t * u4.x));
+  return angularDistance(candidates[0], state.theta2) <= angularDistance(candidates[1], state.theta2)
+    ? candidates[0]
+    : candidates[1];
+};
@@ -0,0 +1,210 @@
+import { MechanismConfig, MechanismState, LimitAnalysis, Point } from '../types';
+import { traceCouplerCurves } from './cycle';
+import { getMechanismType, toDegrees } from './kinematics';
+
+// Colors cycled through for coupler points and their curves
+export const COUPLER_POINT_COLORS = ['#f59e0b', '#ec4899', '#14b8a6', '#8b5cf6', '#0ea5e9'];
+
+const ROCKER_GHOST_COLOR = '#9333ea';
+const CRANK_GHOST_COLOR = '#ea580c';
+
+export interface RenderOptions {
+  width: number; // Output size in pixels
+  height: number;
+  showCouplerCurves: boolean;
+  showLimitGhosts: boolean;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Ends of a slider-crank's rail: the stroke with room for the block, or the rod's reach without dead centres
+ */
+const sliderRailEnds = (config: MechanismConfig, state: MechanismState, limits: LimitAnalysis): [Point, Point] => {
+  const reach = config.r2 + config.r3;
+  const margin = config.r2 / 4;
+  const [from, to] = limits.hasStrokeLimits ? [limits.strokeMin - margin, limits.strokeMax + margin] : [-reach, reach];
+  const dir = { x: Math.cos(state.theta4), y: Math.sin(state.theta4) };
+  return [
+    { x: state.O4.x + dir.x * from, y: state.O4.y + dir.y * from },
+    { x: state.O4.x + dir.x * to, y: state.O4.y + dir.y * to }
+  ];
+};
+
+/**
+ * Tip of an inverted slider-crank's guide, which runs from O4 through the block and is at least r4 long
+ */
+const guideTip = (config: MechanismConfig, state: MechanismState): Point => {
+  const length = state.branch * Math.max(config.r4, Math.abs(state.sliderPosition ?? 0));
+  return { x: state.O4.x + length * Math.cos(state.theta4), y: state.O4.y + length * Math.sin(state.theta4) };
+};
+
+/**
+ * World-space box around every position the given states, ghosts and coupler curves reach,
+ * so a whole animation can share one framing
+ */
+export const computeSceneBounds = (
+  config: MechanismConfig,
+  states: MechanismState[],
+  limits: LimitAnalysis,
+  options: Pick<RenderOptions, 'showCouplerCurves' | 'showLimitGhosts'>
+): Bounds => {
+  const points: Point[] = [];
+  const type = getMechanismType(config);
+  states.filter(s => s.isValid).forEach(s => {
+    points.push(s.O2, s.A, s.B, ...s.couplerPoints);
+    if (type === 'slider-crank') points.push(...sliderRailEnds(config, s, limits));
+    else points.push(s.O4);
+    if (type === 'inverted-slider-crank') points.push(guideTip(config, s));
+    if (s.dyad) points.push(s.dyad.C, s.dyad.O6, ...(s.dyad.isValid ? [s.dyad.D] : []));
+  });
+  if (options.showLimitGhosts) {
+    [limits.limitStateMin, limits.limitStateMax, limits.crankLimitStateMin, limits.crankLimitStateMax]
+      .forEach(s => { if (s) points.push(s.A, s.B); });
+  }
+  if (options.showCouplerCurves) {
+    traceCouplerCurves(config).forEach(curve => curve.forEach(segment => points.push(...segment)));
+  }
+  if (points.length === 0 && states.length > 0) points.push(states[0].O2, states[0].O4);
+
+  return points.reduce<Bounds>((b, p) => ({
+    minX: Math.min(b.minX, p.x),
+    minY: Math.min(b.minY, p.y),
+    maxX: Math.max(b.maxX, p.x),
+    maxY: Math.max(b.maxY, p.y)
+  }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+};
+
+const fmt = (v: number) => Number(v.toFixed(2));
+
+/**
+ * Renders one frame of the mechanism as a standalone SVG document, framed to fit `bounds`.
+ * Mirrors the look of the interactive canvas without any of its editing overlays.
+ */
+export const renderMechanismSvg = (
+  config: MechanismConfig,
+  state: MechanismState,
+  limits: LimitAnalysis,
+  bounds: Bounds,
+  options: RenderOptions
+): string => {
+  const { width, height } = options;
+  const margin = 0.08 * Math.min(width, height);
+  const spanX = Math.max(bounds.maxX - bounds.minX, 1e-6);
+  const spanY = Math.max(bounds.maxY - bounds.minY, 1e-6);
+  const scale = Math.min((width - 2 * margin) / spanX, (height - 2 * margin) / spanY);
+  // Centre the scene; world y points up, SVG y points down
+  const offsetX = (width - spanX * scale) / 2 - bounds.minX * scale;
+  const offsetY = (height + spanY * scale) / 2 + bounds.minY * scale;
+  const toScreen = (p: Point) => ({ x: fmt(p.x * scale + offsetX), y: fmt(offsetY - p.y * scale) });
+
+  // Stroke widths follow the canvas at its default zoom, scaled with the output size
+  const px = Math.max(0.5, Math.min(width, height) / 600);
+  const line = (p1: Point, p2: Point, attrs: string) => {
+    const a = toScreen(p1);
+    const b = toScreen(p2);
+    return `<line x1="${a.x}" y1="${a.y}" x2="${b.x}" y2="${b.y}" ${attrs}/>`;
+  };
+  const circle = (p: Point, r: number, attrs: string) => {
+    const c = toScreen(p);
+    return `<circle cx="${c.x}" cy="${c.y}" r="${fmt(r * px)}" ${attrs}/>`;
+  };
+
+  const type = getMechanismType(config);
+  const isSliderCrank = type === 'slider-crank';
+  // Slider block centred on a point and aligned with its slide; SVG rotates clockwise on screen
+  const block = (p: Point, angle: number, color: string) => {
+    const c = toScreen(p);
+    const w = fmt(32 * px);
+    const h = fmt(20 * px);
+    return `<rect x="${fmt(c.x - w / 2)}" y="${fmt(c.y - h / 2)}" width="${w}" height="${h}" rx="${fmt(3 * px)}" ` +
+      `transform="rotate(${fmt(-toDegrees(angle))} ${c.x} ${c.y})" fill="${color}" fill-opacity="0.25" stroke="${color}" stroke-width="${fmt(3 * px)}"/>`;
+  };
+
+  const parts: string[] = [];
+  parts.push(`<rect width="${width}" height="${height}" fill="#ffffff"/>`);
+
+  if (options.showLimitGhosts) {
+    const ghost = (s: MechanismState | null, color: string) => {
+      if (!s) return;
+      parts.push(
+        `<g opacity="0.3" stroke="${color}" stroke-dasharray="${fmt(5 * px)},${fmt(5 * px)}" fill="none" stroke-width="${fmt(2 * px)}">` +
+        line(s.O2, s.A, '') + line(s.A, s.B, '') + (isSliderCrank ? '' : line(s.O4, s.B, `stroke-width="${fmt(4 * px)}"`)) +
+        circle(s.A, 4, `fill="${color}" stroke="none"`) + circle(s.B, 4, `fill="${color}" stroke="none"`) +
+        '</g>'
+      );
+    };
+    ghost(limits.limitStateMin, ROCKER_GHOST_COLOR);
+    ghost(limits.limitStateMax, ROCKER_GHOST_COLOR);
+    ghost(limits.crankLimitStateMin, CRANK_GHOST_COLOR);
+    ghost(limits.crankLimitStateMax, CRANK_GHOST_COLOR);
+  }
+
+  if (options.showCouplerCurves) {
+    traceCouplerCurves(config).forEach((curve, idx) => {
+      const color = COUPLER_POINT_COLORS[idx % COUPLER_POINT_COLORS.length];
+      curve.forEach(segment => {
+        const points = segment.map(p => {
+          const s = toScreen(p);
+          return `${s.x},${s.y}`;
+        }).join(' ');
+        parts.push(`<polyline points="${points}" fill="none" stroke="${color}" stroke-width="${fmt(2 * px)}" opacity="0.6"/>`);
+      });
+    });
+  }
+
+  // Ground, or the rail a slider-crank's block runs on
+  const [g1, g2] = isSliderCrank ? sliderRailEnds(config, state, limits) : [state.O2, state.O4];
+  parts.push(line(g1, g2, `stroke="#334155" stroke-width="${fmt(6 * px)}" stroke-linecap="round"`));
+  parts.push(line(g1, g2, `stroke="#94a3b8" stroke-width="${fmt(2 * px)}" stroke-dasharray="${fmt(5 * px)},${fmt(5 * px)}"`));
+
+  if (state.isValid) {
+    const linkAttrs = (color: string) => `stroke="${color}" stroke-width="${fmt(8 * px)}" stroke-linecap="round"`;
+    parts.push(line(state.O2, state.A, linkAttrs('#ef4444')));
+    if (type === 'four-bar') parts.push(line(state.O4, state.B, linkAttrs('#3b82f6')));
+    if (isSliderCrank) parts.push(block(state.B, state.theta4, '#3b82f6'));
+    if (type === 'inverted-slider-crank') {
+      parts.push(line(state.O4, guideTip(config, state), linkAttrs('#3b82f6')));
+      parts.push(block(state.B, state.theta4, '#22c55e'));
+    }
+
+    state.couplerPoints.forEach(p => {
+      const points = [state.A, state.B, p].map(toScreen).map(s => `${s.x},${s.y}`).join(' ');
+      parts.push(`<polygon points="${points}" fill="#22c55e" fill-opacity="0.15" stroke="#22c55e" stroke-width="${fmt(2 * px)}" stroke-linejoin="round"/>`);
+    });
+    parts.push(line(state.A, state.B, linkAttrs('#22c55e')));
+
+    // Six-bar second loop: the host link becomes a ternary plate carrying C
+    const dyad = state.dyad;
+    if (config.dyad && dyad) {
+      const [hostStart, hostColor] = config.dyad.attachment === 'coupler' ? [state.A, '#22c55e'] : [state.O4, '#3b82f6'];
+      const plate = [hostStart, state.B, dyad.C].map(toScreen).map(p => `${p.x},${p.y}`).join(' ');
+      parts.push(`<polygon points="${plate}" fill="${hostColor}" fill-opacity="0.15" stroke="${hostColor}" stroke-width="${fmt(2 * px)}" stroke-linejoin="round"/>`);
+      if (dyad.isValid) {
+        parts.push(line(dyad.C, dyad.D, linkAttrs('#0d9488')));
+        parts.push(line(dyad.O6, dyad.D, linkAttrs('#6366f1')));
+        parts.push(circle(dyad.D, 8, `fill="#6366f1" stroke="#ffffff" stroke-width="${fmt(3 * px)}"`));
+      }
+      parts.push(circle(dyad.C, 6, `fill="${dyad.isValid ? '#0d9488' : '#ef4444'}" stroke="#ffffff" stroke-width="${fmt(2 * px)}"`));
+      parts.push(circle(dyad.O6, 8, `fill="#ffffff" stroke="#334155" stroke-width="${fmt(3 * px)}"`));
+    }
+
+    state.couplerPoints.forEach((p, idx) => {
+      const color = COUPLER_POINT_COLORS[idx % COUPLER_POINT_COLORS.length];
+      parts.push(circle(p, 6, `fill="${color}" stroke="#ffffff" stroke-width="${fmt(2 * px)}"`));
+    });
+
+    parts.push(circle(state.A, 10, `fill="#ef4444" stroke="#ffffff" stroke-width="${fmt(3 * px)}"`));
+    parts.push(circle(state.B, 10, `fill="#3b82f6" stroke="#ffffff" stroke-width="${fmt(3 * px)}"`));
+  }
+
+  parts.push(circle(state.O2, 8, `fill="#ffffff" stroke="#334155" stroke-width="${fmt(3 * px)}"`));
+  if (!isSliderCrank) parts.push(circle(state.O4, 8, `fill="#ffffff" stroke="#334155" stroke-width="${fmt(3 * px)}"`));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${parts.join('')}</svg>`;
+};
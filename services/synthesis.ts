@@ -0,0 +1,336 @@
+import {
+  MechanismConfig, Point, CouplerPose, MotionSynthesisResult, GrashofType,
+  FunctionSynthesisSpec, FunctionSynthesisResult, StructuralErrorSample, QuickReturnSpec, QuickReturnResult
+} from '../types';
+import {
+  distance, normalizeAngle, calculateLimits, getGrashofType, solveFourBar, toRadians, toDegrees, groundFromPivots
+} from './kinematics';
+import { solveLinearSystem } from './linearAlgebra';
+
+/**
+ * Transforms a point given in a pose's local frame (origin at P, x-axis along the pose angle) to world
+ */
+export const poseToWorld = (pose: CouplerPose, local: Point): Point => {
+  const c = Math.cos(pose.angle);
+  const s = Math.sin(pose.angle);
+  return {
+    x: pose.position.x + local.x * c - local.y * s,
+    y: pose.position.y + local.x * s + local.y * c
+  };
+};
+
+/**
+ * Center of the circle through three points, or null if they are (nearly) collinear
+ */
+export const circumcenter = (p1: Point, p2: Point, p3: Point): Point | null => {
+  // 2 (p2 - p1) . O = |p2|^2 - |p1|^2 and likewise for p3
+  const a11 = 2 * (p2.x - p1.x), a12 = 2 * (p2.y - p1.y);
+  const a21 = 2 * (p3.x - p1.x), a22 = 2 * (p3.y - p1.y);
+  const b1 = p2.x * p2.x + p2.y * p2.y - p1.x * p1.x - p1.y * p1.y;
+  const b2 = p3.x * p3.x + p3.y * p3.y - p1.x * p1.x - p1.y * p1.y;
+  const det = a11 * a22 - a12 * a21;
+  const scale = Math.max(Math.abs(a11), Math.abs(a12), Math.abs(a21), Math.abs(a22), 1);
+  if (Math.abs(det) < 1e-9 * scale * scale) return null;
+  return {
+    x: (b1 * a22 - b2 * a12) / det,
+    y: (a11 * b2 - a21 * b1) / det
+  };
+};
+
+/**
+ * Three-position motion generation.
+ * The moving pivots A and B are free choices, given in the coupler's local frame (origin at P,
+ * x-axis along the pose angle). Each ground pivot is the center of the circle through the three
+ * positions its moving pivot takes, so the crank and rocker carry the coupler through all poses.
+ */
+export const synthesizeMotion = (
+  poses: CouplerPose[],
+  movingA: Point,
+  movingB: Point
+): MotionSynthesisResult => {
+  const pivotsA = poses.map(p => poseToWorld(p, movingA));
+  const pivotsB = poses.map(p => poseToWorld(p, movingB));
+
+  const fail = (error: string): MotionSynthesisResult => ({
+    isValid: false, error, warnings: [],
+    O2: { x: 0, y: 0 }, O4: { x: 0, y: 0 },
+    pivotsA, pivotsB, config: null, theta2: []
+  });
+
+  if (poses.length !== 3) return fail('Exactly three poses are required.');
+  if (distance(movingA, movingB) < 1e-6) return fail('Moving pivots A and B must be distinct.');
+
+  const O2 = circumcenter(pivotsA[0], pivotsA[1], pivotsA[2]);
+  if (!O2) return fail('The three positions of A are collinear; move A or the poses.');
+  const O4 = circumcenter(pivotsB[0], pivotsB[1], pivotsB[2]);
+  if (!O4) return fail('The three positions of B are collinear; move B or the poses.');
+  if (distance(O2, O4) < 1e-6) return fail('Both ground pivots coincide; choose different moving pivots.');
+
+  // B is on the open branch when it lies to the left of A->O4
+  const branches = pivotsA.map((a, j) => {
+    const b = pivotsB[j];
+    const cross = (O4.x - a.x) * (b.y - a.y) - (O4.y - a.y) * (b.x - a.x);
+    return cross >= 0 ? 1 : -1;
+  });
+
+  // P relative to A, resolved along and perpendicular to AB
+  const ab = { x: movingB.x - movingA.x, y: movingB.y - movingA.y };
+  const abLen = Math.hypot(ab.x, ab.y);
+  const u = { x: ab.x / abLen, y: ab.y / abLen };
+  const ap = { x: -movingA.x, y: -movingA.y };
+
+  const config: MechanismConfig = {
+    ...groundFromPivots(O2, O4),
+    r2: distance(pivotsA[0], O2),
+    r3: abLen,
+    r4: distance(pivotsB[0], O4),
+    assemblyMode: branches[0] as 1 | -1,
+    couplerPoints: [{ along: ap.x * u.x + ap.y * u.y, offset: -ap.x * u.y + ap.y * u.x }]
+  };
+  const theta2 = pivotsA.map(a => Math.atan2(a.y - O2.y, a.x - O2.x));
+
+  const warnings: string[] = [];
+  if (branches.some(b => b !== branches[0])) {
+    warnings.push('Branch/circuit defect: the poses lie on different assembly branches.');
+  }
+
+  const grashofType = getGrashofType(config);
+  const limits = calculateLimits(config);
+  if (limits.hasCrankLimits) {
+    // The crank must reach the poses in order without passing a toggle position
+    const lo = toRadians(limits.crankMin);
+    const span = toRadians(limits.crankMax - limits.crankMin);
+    const offsets = theta2.map(t => normalizeAngle(t - lo));
+    if (offsets.some(o => o > span)) {
+      warnings.push('Some poses are outside the crank\'s range of motion.');
+    } else if (!(offsets[0] < offsets[1] && offsets[1] < offsets[2]) && !(offsets[0] > offsets[1] && offsets[1] > offsets[2])) {
+      warnings.push('Order defect: the crank cannot reach the poses in sequence.');
+    }
+  }
+  if (grashofType === GrashofType.CHANGE_POINT) {
+    warnings.push('Change-point linkage: the branch is ambiguous at the toggle.');
+  }
+
+  // Sanity check: the synthesized linkage must reproduce P at the first pose
+  const check = solveFourBar(config, theta2[0]);
+  if (!check.isValid) return fail('The synthesized linkage cannot be assembled at the first pose.');
+
+  return { isValid: true, warnings, O2, O4, pivotsA, pivotsB, config, theta2 };
+};
+
+export const TARGET_FUNCTIONS: Record<string, { label: string; f: (x: number) => number }> = {
+  log10: { label: 'y = log₁₀ x', f: x => Math.log10(x) },
+  ln: { label: 'y = ln x', f: x => Math.log(x) },
+  square: { label: 'y = x²', f: x => x * x },
+  sqrt: { label: 'y = √x', f: x => Math.sqrt(x) },
+  reciprocal: { label: 'y = 1/x', f: x => 1 / x },
+  exp: { label: 'y = eˣ', f: x => Math.exp(x) },
+  sin: { label: 'y = sin x', f: x => Math.sin(x) }
+};
+
+/**
+ * Chebyshev spacing of n precision points over [xStart, xEnd]
+ */
+export const chebyshevPoints = (xStart: number, xEnd: number, n: number): number[] => {
+  const points: number[] = [];
+  for (let j = 1; j <= n; j++) {
+    points.push((xStart + xEnd) / 2 - ((xEnd - xStart) / 2) * Math.cos(((2 * j - 1) * Math.PI) / (2 * n)));
+  }
+  return points;
+};
+
+/**
+ * Function generation by Freudenstein's equation with three Chebyshev precision points.
+ * x maps linearly onto the crank angle and y = f(x) onto the rocker angle; at each precision point
+ *   K1 cos(t4) - K2 cos(t2) + K3 = cos(t2 - t4)
+ * with K1 = r1/r2, K2 = r1/r4, K3 = (r2^2 - r3^2 + r4^2 + r1^2) / (2 r2 r4).
+ * The structural error is then measured against solveFourBar over the whole range.
+ */
+export const synthesizeFunction = (spec: FunctionSynthesisSpec, samples: number = 100): FunctionSynthesisResult => {
+  const { xStart, xEnd, theta2Range, theta4Range, r1 } = spec;
+  const target = TARGET_FUNCTIONS[spec.functionId];
+  const precisionX = chebyshevPoints(xStart, xEnd, 3);
+
+  const fail = (error: string): FunctionSynthesisResult => ({
+    isValid: false, error, precisionX, config: null,
+    theta2Start: spec.theta2Start, theta4Start: spec.theta4Start,
+    structuralError: [], maxError: NaN
+  });
+
+  if (!target) return fail(`Unknown function "${spec.functionId}".`);
+  if (!(xEnd > xStart)) return fail('The range end must be greater than the start.');
+  if (!(r1 > 0)) return fail('Ground length must be positive.');
+
+  const yStart = target.f(xStart);
+  const yEnd = target.f(xEnd);
+  if (!isFinite(yStart) || !isFinite(yEnd) || [xStart, xEnd, ...precisionX].some(x => !isFinite(target.f(x)))) {
+    return fail('The function is undefined somewhere in the range.');
+  }
+  if (Math.abs(yEnd - yStart) < 1e-12) return fail('The function has the same value at both ends of the range.');
+
+  const theta2Of = (x: number) => spec.theta2Start + ((x - xStart) / (xEnd - xStart)) * theta2Range;
+  const theta4Of = (x: number) => spec.theta4Start + ((target.f(x) - yStart) / (yEnd - yStart)) * theta4Range;
+
+  const rows = precisionX.map(x => {
+    const t2 = theta2Of(x);
+    const t4 = theta4Of(x);
+    return { a: [Math.cos(t4), -Math.cos(t2), 1], b: Math.cos(t2 - t4) };
+  });
+  const K = solveLinearSystem(rows.map(r => r.a), rows.map(r => r.b));
+  if (!K || Math.abs(K[0]) < 1e-12 || Math.abs(K[1]) < 1e-12) {
+    return fail('Freudenstein\'s equations are singular for these angles; change the angle ranges.');
+  }
+
+  const a = r1 / K[0];
+  const c = r1 / K[1];
+  const b2 = a * a + c * c + r1 * r1 - 2 * a * c * K[2];
+  if (!(b2 > 0)) return fail('No real coupler length exists; change the angle ranges.');
+
+  // A negative length is the same link pointing the other way, i.e. its angle offset by 180 deg
+  const offset2 = a < 0 ? Math.PI : 0;
+  const offset4 = c < 0 ? Math.PI : 0;
+  const base: MechanismConfig = {
+    r1,
+    r2: Math.abs(a),
+    r3: Math.sqrt(b2),
+    r4: Math.abs(c),
+    assemblyMode: 1,
+    couplerPoints: []
+  };
+
+  // Both branches pass through the precision points' crank angles; keep the one that matches them
+  const evaluate = (branch: 1 | -1): StructuralErrorSample[] => {
+    const config = { ...base, assemblyMode: branch };
+    const result: StructuralErrorSample[] = [];
+    for (let i = 0; i <= samples; i++) {
+      const x = xStart + ((xEnd - xStart) * i) / samples;
+      const state = solveFourBar(config, theta2Of(x) + offset2);
+      let error = NaN;
+      if (state.isValid) {
+        error = toDegrees(normalizeAngle(state.theta4 - offset4 - theta4Of(x) + Math.PI) - Math.PI);
+      }
+      result.push({ x, error, yError: (toRadians(error) / theta4Range) * (yEnd - yStart) });
+    }
+    return result;
+  };
+
+  const precisionMiss = (branch: 1 | -1) => {
+    const config = { ...base, assemblyMode: branch };
+    return precisionX.reduce((sum, x) => {
+      const state = solveFourBar(config, theta2Of(x) + offset2);
+      if (!state.isValid) return Infinity;
+      return sum + Math.abs(normalizeAngle(state.theta4 - offset4 - theta4Of(x) + Math.PI) - Math.PI);
+    }, 0);
+  };
+
+  const branch: 1 | -1 = precisionMiss(1) <= precisionMiss(-1) ? 1 : -1;
+  const structuralError = evaluate(branch);
+  const maxError = structuralError.some(s => isNaN(s.error))
+    ? NaN
+    : Math.max(...structuralError.map(s => Math.abs(s.error)));
+
+  return {
+    isValid: true,
+    precisionX,
+    config: { ...base, assemblyMode: branch },
+    theta2Start: normalizeAngle(spec.theta2Start + offset2),
+    theta4Start: normalizeAngle(spec.theta4Start + offset4),
+    structuralError,
+    maxError
+  };
+};
+
+// Candidate crank pivot placements tried by the quick-return construction
+const QUICK_RETURN_CANDIDATES = 720;
+
+/**
+ * Crank-rocker for a time ratio Q and rocker swing ψ by the classical construction.
+ * With the rocker limits B1 (extended) and B2 (folded) fixed about O4, the crank pivot O2 must see the chord
+ * B1B2 under the imbalance angle δ = 180°(Q - 1)/(Q + 1); then r2 = (|O2B1| - |O2B2|) / 2 and
+ * r3 = (|O2B1| + |O2B2|) / 2. The locus of O2 is a circle (a line when Q = 1), and the placement on it
+ * is chosen so the transmission angle strays least from 90° (the larger of 90° - μmin and μmax - 90°).
+ */
+export const synthesizeQuickReturn = (spec: QuickReturnSpec): QuickReturnResult => {
+  const { timeRatio, swing, r4 } = spec;
+  const fail = (error: string): QuickReturnResult => ({
+    isValid: false, error, config: null, timeRatio: NaN, swing: NaN, transmissionMin: NaN, transmissionMax: NaN
+  });
+  const deviation = (r: QuickReturnResult) => Math.max(90 - r.transmissionMin, r.transmissionMax - 90);
+
+  if (!(timeRatio >= 1)) return fail('The time ratio must be at least 1.');
+  if (!(swing > 0 && swing < 180)) return fail('The rocker swing must be between 0° and 180°.');
+  if (!(r4 > 0)) return fail('Rocker length must be positive.');
+
+  const delta = Math.PI * (timeRatio - 1) / (timeRatio + 1);
+  const psi = toRadians(swing);
+  // O4 at the origin with the rocker limits placed symmetrically about the +y axis
+  const O4: Point = { x: 0, y: 0 };
+  const B1: Point = { x: r4 * Math.cos(Math.PI / 2 + psi / 2), y: r4 * Math.sin(Math.PI / 2 + psi / 2) };
+  const B2: Point = { x: r4 * Math.cos(Math.PI / 2 - psi / 2), y: r4 * Math.sin(Math.PI / 2 - psi / 2) };
+  const chord = distance(B1, B2);
+  const mid = { x: (B1.x + B2.x) / 2, y: (B1.y + B2.y) / 2 };
+  const along = { x: (B2.x - B1.x) / chord, y: (B2.y - B1.y) / chord };
+  const normal = { x: -along.y, y: along.x };
+
+  // Pivot candidates: the circle through B1, B2 seeing the chord under δ, or the line B1B2 when δ = 0
+  const candidates: Point[] = [];
+  for (let i = 0; i < QUICK_RETURN_CANDIDATES; i++) {
+    const u = (i + 0.5) / QUICK_RETURN_CANDIDATES;
+    if (delta < 1e-9) {
+      const s = (chord / 2) * (1 + 20 * u);
+      candidates.push({ x: mid.x + along.x * s, y: mid.y + along.y * s });
+      candidates.push({ x: mid.x - along.x * s, y: mid.y - along.y * s });
+    } else {
+      const R = chord / (2 * Math.sin(delta));
+      const offset = R * Math.cos(delta);
+      [1, -1].forEach(side => {
+        const center = { x: mid.x + normal.x * offset * side, y: mid.y + normal.y * offset * side };
+        const t = u * 2 * Math.PI;
+        candidates.push({ x: center.x + R * Math.cos(t), y: center.y + R * Math.sin(t) });
+      });
+    }
+  }
+
+  let best: QuickReturnResult | null = null;
+  candidates.forEach(O2 => {
+    const d1 = distance(O2, B1);
+    const d2 = distance(O2, B2);
+    const r2 = Math.abs(d1 - d2) / 2;
+    const r3 = (d1 + d2) / 2;
+    const r1 = distance(O2, O4);
+    if (r2 < 1e-6 * r4 || r1 < 1e-6 * r4) return;
+
+    // Re-express with O2 at the origin and the ground along +x, then pick the branch that passes B1
+    const angle = Math.atan2(O4.y - O2.y, O4.x - O2.x);
+    const toLocal = (p: Point): Point => {
+      const dx = p.x - O2.x;
+      const dy = p.y - O2.y;
+      return { x: dx * Math.cos(angle) + dy * Math.sin(angle), y: -dx * Math.sin(angle) + dy * Math.cos(angle) };
+    };
+    const localB1 = toLocal(B1);
+    const base: MechanismConfig = { r1, r2, r3, r4, assemblyMode: 1, couplerPoints: [] };
+    if (getGrashofType(base) !== GrashofType.CRANK_ROCKER) return;
+
+    const extendedTheta2 = Math.atan2(d1 > d2 ? localB1.y : toLocal(B2).y, d1 > d2 ? localB1.x : toLocal(B2).x);
+    const open = solveFourBar(base, extendedTheta2, 1);
+    const config: MechanismConfig = { ...base, assemblyMode: distance(open.B, d1 > d2 ? localB1 : toLocal(B2)) < 1e-6 * r4 ? 1 : -1 };
+
+    const limits = calculateLimits(config);
+    if (!limits.hasTimeRatio) return;
+    // The minor arc of the circle gives the complementary angle; keep only placements that hit Q
+    if (Math.abs(limits.timeRatio - timeRatio) > 1e-6 * timeRatio) return;
+
+    const achievedSwing = limits.rockerMax - limits.rockerMin;
+    const candidate: QuickReturnResult = {
+      isValid: true,
+      config,
+      timeRatio: limits.timeRatio,
+      swing: achievedSwing,
+      transmissionMin: limits.transmissionMin,
+      transmissionMax: limits.transmissionMax
+    };
+    if (!best || deviation(candidate) < deviation(best)) best = candidate;
+  });
+
+  return best ?? fail('No crank-rocker reaches this time ratio and swing.');
+};
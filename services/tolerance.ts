@@ -0,0 +1,201 @@
+import {
+  MechanismConfig, LimitAnalysis, ToleranceSpec, ToleranceResult, ToleranceParameter, ToleranceMetric, ToleranceSpread
+} from '../types';
+import {
+  calculateLimits, solveFourBar, getGroundPivots, groundFromPivots, getMechanismType, normalizeAngle, toDegrees, toRadians
+} from './kinematics';
+import { createRng } from './random';
+
+// Crank angles across the nominal input range at which the output error is measured
+const ERROR_SAMPLES = 72;
+
+export const MAX_TOLERANCE_TRIALS = 5000;
+
+export const TOLERANCE_PARAMETERS: ToleranceParameter[] = ['r1', 'r2', 'r3', 'r4', 'O2x', 'O2y', 'O4x', 'O4y'];
+
+export const TOLERANCE_METRICS: ToleranceMetric[] = ['rockerMin', 'rockerMax', 'transmissionMin', 'outputError'];
+
+type Deviation = Record<ToleranceParameter, number>;
+
+interface Evaluation {
+  values: Record<ToleranceMetric, number>;
+  theta4: number[]; // Output angle (rad) at each sampled crank angle, NaN where unassembled
+  assembles: boolean;
+}
+
+const noDeviation = (): Deviation =>
+  Object.fromEntries(TOLERANCE_PARAMETERS.map(p => [p, 0])) as Deviation;
+
+const toleranceOf = (spec: ToleranceSpec, parameter: ToleranceParameter): number =>
+  parameter.startsWith('r') ? spec.linkTolerance : spec.pivotTolerance;
+
+// Signed difference a - b wrapped into [-PI, PI)
+const angleDifference = (a: number, b: number): number => normalizeAngle(a - b + Math.PI) - Math.PI;
+
+/**
+ * The design with its dimensions moved by the given deviations (mm). r1 moves O4 along the
+ * ground line before each pivot moves by its own coordinate deviations.
+ */
+export const perturbConfig = (config: MechanismConfig, d: Deviation): MechanismConfig => {
+  const { O2 } = getGroundPivots(config);
+  const angle = config.groundAngle ?? 0;
+  const r1 = config.r1 + d.r1;
+  const movedO2 = { x: O2.x + d.O2x, y: O2.y + d.O2y };
+  const movedO4 = { x: O2.x + r1 * Math.cos(angle) + d.O4x, y: O2.y + r1 * Math.sin(angle) + d.O4y };
+  return {
+    ...config,
+    r2: config.r2 + d.r2,
+    r3: config.r3 + d.r3,
+    r4: config.r4 + d.r4,
+    ...groundFromPivots(movedO2, movedO4)
+  };
+};
+
+/**
+ * Crank angles spanning the nominal input range. Samples sit at interval centers so a crank
+ * limit itself, which any perturbation may move out of reach, is never tested.
+ */
+const crankSamples = (limits: LimitAnalysis): number[] => {
+  const start = limits.hasCrankLimits ? toRadians(limits.crankMin) : 0;
+  const span = limits.hasCrankLimits ? toRadians(limits.crankMax - limits.crankMin) : 2 * Math.PI;
+  return Array.from({ length: ERROR_SAMPLES }, (_, i) => start + ((i + 0.5) / ERROR_SAMPLES) * span);
+};
+
+// A rocker limit (degrees) taken to the turn nearest the nominal one, so a swing starting near 0° compares across it
+const nearLimit = (value: number, nominal: number): number =>
+  nominal + toDegrees(angleDifference(toRadians(value), toRadians(nominal)));
+
+const evaluate = (config: MechanismConfig, angles: number[], nominal: Evaluation | null): Evaluation => {
+  const limits = calculateLimits(config);
+  const nominalTheta4 = nominal?.theta4;
+  const theta4: number[] = [];
+  let assembles = true;
+  let outputError = 0;
+  angles.forEach((theta2, i) => {
+    const state = solveFourBar(config, theta2);
+    if (!state.isValid) {
+      assembles = false;
+      theta4.push(NaN);
+      return;
+    }
+    theta4.push(state.theta4);
+    if (nominalTheta4) outputError = Math.max(outputError, Math.abs(angleDifference(state.theta4, nominalTheta4[i])));
+  });
+  return {
+    values: {
+      rockerMin: !limits.hasRockerLimits ? NaN : nominal ? nearLimit(limits.rockerMin, nominal.values.rockerMin) : limits.rockerMin,
+      rockerMax: !limits.hasRockerLimits ? NaN : nominal ? nearLimit(limits.rockerMax, nominal.values.rockerMax) : limits.rockerMax,
+      transmissionMin: limits.transmissionMin,
+      outputError: assembles ? toDegrees(outputError) : NaN
+    },
+    theta4,
+    assembles
+  };
+};
+
+// Standard normal deviate (Box-Muller)
+const gaussian = (rng: () => number): number =>
+  Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+
+const spreadOf = (nominal: number, worstLow: number, worstHigh: number, values: number[]): ToleranceSpread => {
+  const finite = values.filter(v => isFinite(v));
+  if (finite.length === 0) return { nominal, worstLow, worstHigh, mean: NaN, std: NaN, min: NaN, max: NaN };
+  const mean = finite.reduce((sum, v) => sum + v, 0) / finite.length;
+  const variance = finite.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / finite.length;
+  return {
+    nominal, worstLow, worstHigh,
+    mean,
+    std: Math.sqrt(variance),
+    min: Math.min(...finite),
+    max: Math.max(...finite)
+  };
+};
+
+const fail = (error: string): ToleranceResult => ({
+  isValid: false, error, metrics: null, sensitivities: [], breaking: [], trials: 0, assembledTrials: 0, yield: 0, transmissionSamples: []
+});
+
+/**
+ * Spread in rocker limits, μ-min and output angle error of a four-bar whose links and ground
+ * pivots are made to the given tolerances. The worst case stacks every parameter's effect at
+ * its tolerance limit; the Monte Carlo run samples all of them at once. The output error is
+ * the largest deviation of θ4 from nominal at the same crank angle. Parameters whose tolerance
+ * limits break the design are listed in `breaking` instead of being stacked.
+ */
+export const analyzeTolerances = (config: MechanismConfig, spec: ToleranceSpec): ToleranceResult => {
+  if (getMechanismType(config) !== 'four-bar') return fail('Tolerance analysis is only available for four-bar linkages');
+  if (spec.linkTolerance < 0 || spec.pivotTolerance < 0) return fail('Tolerances must not be negative');
+  if (spec.linkTolerance >= Math.min(config.r1, config.r2, config.r3, config.r4)) {
+    return fail('The link tolerance must be smaller than the shortest link');
+  }
+
+  const angles = crankSamples(calculateLimits(config));
+  const nominal = evaluate(config, angles, null);
+  if (!nominal.assembles) return fail('The nominal design does not assemble over its input range');
+  nominal.values.outputError = 0;
+
+  // --- Worst Case ---
+  // Each parameter's effect is the secant across its tolerance band, so it holds for large tolerances too
+  const sensitivities = TOLERANCE_PARAMETERS.map(parameter => {
+    const tolerance = toleranceOf(spec, parameter);
+    const plus = evaluate(perturbConfig(config, { ...noDeviation(), [parameter]: tolerance }), angles, nominal);
+    const minus = evaluate(perturbConfig(config, { ...noDeviation(), [parameter]: -tolerance }), angles, nominal);
+    const theta4Effects = angles.map((_, i) => angleDifference(plus.theta4[i], minus.theta4[i]) / 2);
+    const effects = {
+      rockerMin: (plus.values.rockerMin - minus.values.rockerMin) / 2,
+      rockerMax: (plus.values.rockerMax - minus.values.rockerMax) / 2,
+      transmissionMin: (plus.values.transmissionMin - minus.values.transmissionMin) / 2,
+      outputError: toDegrees(Math.max(...theta4Effects.map(Math.abs)))
+    };
+    const assembles = plus.assembles && minus.assembles && isFinite(plus.values.transmissionMin) && isFinite(minus.values.transmissionMin);
+    const keepsLimits = !isFinite(nominal.values.rockerMin) || (isFinite(plus.values.rockerMin) && isFinite(minus.values.rockerMin));
+    const reason: ToleranceResult['breaking'][number]['reason'] | null = !assembles ? 'assembly' : !keepsLimits ? 'rocker-limits' : null;
+    return { parameter, effects, theta4Effects, reason };
+  });
+  const breaking = sensitivities.filter(s => s.reason !== null).map(({ parameter, reason }) => ({ parameter, reason: reason! }));
+
+  const stack = (metric: ToleranceMetric) => sensitivities.reduce((sum, s) => sum + Math.abs(s.effects[metric]), 0);
+  // The output errors add up angle by angle, and the worst angle sets the bound
+  const outputWorst = toDegrees(Math.max(...angles.map((_, i) =>
+    sensitivities.reduce((sum, s) => sum + Math.abs(s.theta4Effects[i]), 0)
+  )));
+
+  // --- Monte Carlo ---
+  const trials = Math.max(1, Math.min(MAX_TOLERANCE_TRIALS, Math.round(spec.samples)));
+  const rng = createRng(spec.seed);
+  const draw = spec.distribution === 'uniform' ? () => 2 * rng() - 1 : () => gaussian(rng) / 3;
+  const samples: Record<ToleranceMetric, number[]> = { rockerMin: [], rockerMax: [], transmissionMin: [], outputError: [] };
+  let assembledTrials = 0;
+  let accepted = 0;
+  for (let i = 0; i < trials; i++) {
+    const deviation = noDeviation();
+    TOLERANCE_PARAMETERS.forEach(p => { deviation[p] = draw() * toleranceOf(spec, p); });
+    const trial = evaluate(perturbConfig(config, deviation), angles, nominal);
+    if (!trial.assembles) continue;
+    assembledTrials++;
+    TOLERANCE_METRICS.forEach(metric => samples[metric].push(trial.values[metric]));
+    if (trial.values.transmissionMin >= spec.minTransmission) accepted++;
+  }
+
+  const metrics = Object.fromEntries(TOLERANCE_METRICS.map(metric => {
+    const value = nominal.values[metric];
+    // A parameter that breaks the design at its tolerance limit leaves no worst case to stack
+    const spread = breaking.length > 0
+      ? spreadOf(value, NaN, NaN, samples[metric])
+      : metric === 'outputError'
+        ? spreadOf(0, 0, outputWorst, samples[metric])
+        : spreadOf(value, value - stack(metric), value + stack(metric), samples[metric]);
+    return [metric, spread];
+  })) as Record<ToleranceMetric, ToleranceSpread>;
+
+  return {
+    isValid: true,
+    metrics,
+    sensitivities: sensitivities.map(({ parameter, effects }) => ({ parameter, effects })),
+    breaking,
+    trials,
+    assembledTrials,
+    yield: accepted / trials,
+    transmissionSamples: samples.transmissionMin
+  };
+};
@@ -0,0 +1,51 @@
+import { LengthUnit, UnitSettings } from '../types';
+
+interface LengthUnitInfo {
+  label: string;
+  mmPerUnit: number;
+  step: number; // Slider step in this unit at scale 1
+  digits: number; // Decimals shown
+}
+
+export const LENGTH_UNITS: Record<LengthUnit, LengthUnitInfo> = {
+  mm: { label: 'mm', mmPerUnit: 1, step: 0.5, digits: 1 },
+  in: { label: 'in', mmPerUnit: 25.4, step: 0.02, digits: 3 }
+};
+
+export const DEFAULT_UNITS: UnitSettings = { length: 'mm', scale: 1 };
+
+// Slider range multipliers offered in the UI
+export const UNIT_SCALES = [0.1, 0.25, 0.5, 1, 2, 5, 10];
+
+/**
+ * Converts a stored length (mm) to the display unit
+ */
+export const toDisplayLength = (mm: number, unit: LengthUnit): number => mm / LENGTH_UNITS[unit].mmPerUnit;
+
+/**
+ * Converts a length entered in the display unit back to mm
+ */
+export const fromDisplayLength = (value: number, unit: LengthUnit): number => value * LENGTH_UNITS[unit].mmPerUnit;
+
+/**
+ * A stored length (mm) as text in the display unit, e.g. "1.250 in"
+ */
+export const formatLength = (mm: number, unit: LengthUnit, withUnit = true): string => {
+  const text = toDisplayLength(mm, unit).toFixed(LENGTH_UNITS[unit].digits);
+  return withUnit ? `${text} ${LENGTH_UNITS[unit].label}` : text;
+};
+
+/**
+ * Slider step for lengths, in the display unit
+ */
+export const lengthStep = (units: UnitSettings): number => LENGTH_UNITS[units.length].step * units.scale;
+
+/**
+ * A round length in the display unit (1, 2 or 5 × 10^k) drawn close to targetPx long at the given zoom (px per mm)
+ */
+export const scaleBarLength = (zoom: number, unit: LengthUnit, targetPx = 100): number => {
+  const raw = toDisplayLength(targetPx / zoom, unit);
+  const power = Math.pow(10, Math.floor(Math.log10(raw)));
+  const n = raw / power;
+  return (n >= 5 ? 5 : n >= 2 ? 2 : 1) * power;
+};
@@ -0,0 +1,61 @@
+import { MechanismConfig, LimitAnalysis, Point, ViewState } from '../types';
+import { animationCycleAngles } from './cycle';
+import { solveMechanism } from './mechanisms';
+import { computeSceneBounds, Bounds } from './svgRenderer';
+import { normalizeAngle, toRadians } from './kinematics';
+
+export const MIN_ZOOM = 0.02;
+export const MAX_ZOOM = 20;
+
+// Crank positions sampled when framing the motion envelope
+const ENVELOPE_SAMPLES = 120;
+
+export const clampZoom = (zoom: number): number => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+/**
+ * Scales the view by `factor` about a screen point, which keeps showing the same world point
+ */
+export const zoomAt = (view: ViewState, screen: Point, factor: number): ViewState => {
+  const { pan, zoom } = view;
+  const world = { x: (screen.x - pan.x) / zoom, y: (pan.y - screen.y) / zoom };
+  const next = clampZoom(zoom * factor);
+  return { pan: { x: screen.x - world.x * next, y: screen.y + world.y * next }, zoom: next };
+};
+
+/**
+ * View that centers the world box in a canvas of the given size with `padding` px to spare on each side
+ */
+export const fitView = (bounds: Bounds, width: number, height: number, padding: number = 40): ViewState => {
+  const spanX = Math.max(bounds.maxX - bounds.minX, 1e-6);
+  const spanY = Math.max(bounds.maxY - bounds.minY, 1e-6);
+  const zoom = clampZoom(Math.min(Math.max(width - 2 * padding, 1) / spanX, Math.max(height - 2 * padding, 1) / spanY));
+  const cx = (bounds.minX + bounds.maxX) / 2;
+  const cy = (bounds.minY + bounds.maxY) / 2;
+  return { pan: { x: width / 2 - cx * zoom, y: height / 2 + cy * zoom }, zoom };
+};
+
+/**
+ * World box around everything the mechanism sweeps over one animation cycle, with its limit
+ * positions and coupler curves
+ */
+export const motionEnvelopeBounds = (config: MechanismConfig, limits: LimitAnalysis): Bounds => {
+  const states = animationCycleAngles(limits, ENVELOPE_SAMPLES, 0).map(theta2 => solveMechanism(config, theta2));
+  return computeSceneBounds(config, states, limits, { showCouplerCurves: true, showLimitGhosts: true });
+};
+
+/**
+ * Rounds an angle (rad) to the nearest multiple of stepDeg; a step of 0 leaves it alone
+ */
+export const snapAngle = (angle: number, stepDeg: number): number => {
+  if (stepDeg <= 0) return angle;
+  const step = toRadians(stepDeg);
+  return Math.round(angle / step) * step;
+};
+
+/**
+ * Angle (rad, [0, PI]) at the vertex between the rays to a and b
+ */
+export const includedAngle = (a: Point, vertex: Point, b: Point): number => {
+  const turn = normalizeAngle(Math.atan2(b.y - vertex.y, b.x - vertex.x) - Math.atan2(a.y - vertex.y, a.x - vertex.x));
+  return turn > Math.PI ? 2 * Math.PI - turn : turn;
+};
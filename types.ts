@@ -3,24 +3,98 @@ export interface Point {
   y: number;
 }
 
+export interface CouplerPoint {
+  along: number; // Distance from A measured along AB
+  offset: number; // Perpendicular offset from AB (positive = left of A->B)
+}
+
+// Where a six-bar's second loop attaches: the coupler gives a Stephenson III, the rocker a Watt II
+export type DyadAttachment = 'coupler' | 'rocker';
+
+// Two-link dyad C-D-O6 that closes a second loop onto a four-bar
+export interface DyadConfig {
+  attachment: DyadAttachment;
+  point: CouplerPoint; // C on the host link: from A along AB (coupler) or from O4 along O4B (rocker)
+  r5: number; // Link C-D
+  r6: number; // Output link O6-D
+  O6: Point; // Output ground pivot
+  assemblyMode: 1 | -1; // 1 puts D left of C->O6, -1 right
+}
+
+// Kinematic chains the app can analyse; each gives the link lengths its own meaning (see services/mechanisms)
+export type MechanismType = 'four-bar' | 'slider-crank' | 'inverted-slider-crank';
+
 export interface MechanismConfig {
+  type?: MechanismType; // Defaults to 'four-bar'
   r1: number; // Ground (d)
   r2: number; // Crank (a)
   r3: number; // Coupler (b)
   r4: number; // Rocker (c)
+  sliderOffset?: number; // Slider types: offset e of the slide line (defaults to 0)
   assemblyMode: 1 | -1; // 1 for open, -1 for crossed (usually)
+  couplerPoints: CouplerPoint[]; // Tracer points rigidly attached to the coupler
+  O2?: Point; // Crank ground pivot (defaults to the origin)
+  groundAngle?: number; // Direction of O2->O4 (rad, defaults to 0); O4 sits r1 along it
+  massProperties?: MassProperties; // Defaults to uniform bars (see getMassProperties)
+  dyad?: DyadConfig; // Four-bars only: turns the linkage into a six-bar
+  tolerances?: Partial<Tolerances>; // Overrides DEFAULT_TOLERANCES (see getTolerances)
+}
+
+// Tolerances behind every equality test in the kinematics, so boundary cases classify consistently
+export interface Tolerances {
+  length: number; // Relative: lengths within length × the longest link count as equal
+  singularity: number; // Below this |sin| of the transmission angle, rates are not solved
+  nearSingular: number; // degrees; positions within this of a toggle are reported as near-singular
 }
 
+// How a solved position sits relative to the singular ones
+export type PositionCondition =
+  | 'regular'
+  | 'near-singular' // Within tolerances.nearSingular of a toggle; rates grow without bound
+  | 'indeterminate' // Joint on the opposite pivot with equal links: the output can take any angle
+  | 'unassembled'; // The loop cannot close at this input
+
+// Linkage proportions that sit exactly on a classification boundary
+export type SpecialGeometry = 'change-point' | 'parallelogram' | 'antiparallelogram' | 'deltoid';
+
 export interface MechanismState {
   A: Point; // Joint between Crank and Coupler
   B: Point; // Joint between Coupler and Rocker
-  O2: Point; // Ground pivot 1 (0,0)
-  O4: Point; // Ground pivot 2 (r1, 0)
+  O2: Point; // Ground pivot 1 (config.O2)
+  O4: Point; // Ground pivot 2 (r1 from O2 at config.groundAngle)
   theta2: number; // Input angle (rad)
   theta3: number; // Coupler angle (rad)
   theta4: number; // Output angle (rad)
   transmissionAngle: number; // Angle between coupler and rocker (rad)
+  couplerPoints: Point[]; // World positions of config.couplerPoints
+  branch: 1 | -1; // Which intersection B occupies: 1 = left of A->O4 (open), -1 = right (crossed)
   isValid: boolean; // Is the mechanism assembled?
+  sliderPosition?: number; // Slider types: travel of B along its guide from the guide's origin (mm)
+  dyad?: DyadState; // Second loop of a six-bar, present when config.dyad is set
+  condition?: PositionCondition; // Set by the position solvers; absent on limit states built directly
+}
+
+export interface DyadState {
+  C: Point; // Attachment on the coupler or rocker
+  D: Point; // Joint between links 5 and 6
+  O6: Point;
+  theta5: number; // Link 5 angle (rad)
+  theta6: number; // Output angle (rad)
+  transmissionAngle: number; // Angle between links 5 and 6 (rad)
+  branch: 1 | -1;
+  isValid: boolean; // False when the second loop cannot close at this position
+  condition: PositionCondition;
+}
+
+export interface DyadLimitAnalysis {
+  assembledFraction: number; // Share of the sampled input range where the second loop closes
+  hasOutputLimits: boolean; // Link 6 oscillates rather than turning fully
+  outputMin: number; // degrees, start of link 6's swing
+  outputMax: number; // degrees, end of the swing counter-clockwise from outputMin (may exceed 360)
+  limitStateMin: MechanismState | null; // Sampled position nearest each end of the swing
+  limitStateMax: MechanismState | null;
+  transmissionMin: number; // degrees, over the assembled samples
+  transmissionMax: number;
 }
 
 export enum GrashofType {
@@ -32,12 +106,437 @@ export enum GrashofType {
   INVALID = "Invalid Geometry"
 }
 
+// Classification of the slider-crank and its inversion, the counterpart of GrashofType
+export enum SliderCrankType {
+  INLINE = "Inline Slider-Crank",
+  OFFSET = "Offset Slider-Crank",
+  CRANK_SHAPER = "Crank-Shaper (Oscillating Guide)",
+  WHITWORTH = "Whitworth (Rotating Guide)",
+  ROCKING_CRANK = "Rocking Crank",
+  CHANGE_POINT = "Change-Point",
+  INVALID = "Invalid Geometry"
+}
+
+export type MechanismClass = GrashofType | SliderCrankType;
+
 export interface LimitAnalysis {
   hasRockerLimits: boolean;
-  rockerMin: number; // degrees
-  rockerMax: number; // degrees
+  rockerMin: number; // degrees [0, 360), start of the output's swing
+  rockerMax: number; // degrees, end of the swing counter-clockwise from rockerMin (may exceed 360)
   transmissionMin: number; // degrees
   transmissionMax: number; // degrees
   limitStateMin: MechanismState | null; // Configuration at Rocker Limit 1
   limitStateMax: MechanismState | null; // Configuration at Rocker Limit 2
-}
\ No newline at end of file
+  hasStrokeLimits: boolean; // Slider-crank: the slider reciprocates between two dead centers
+  strokeMin: number; // mm, slider position at the near dead center
+  strokeMax: number; // mm, slider position at the far dead center
+  hasCrankLimits: boolean; // True when the input cannot make a full revolution
+  crankMin: number; // degrees, start of the input's range (may be negative when it straddles 0)
+  crankMax: number; // degrees, end of the range swept counter-clockwise from crankMin
+  crankLimitStateMin: MechanismState | null; // Coupler & Rocker collinear at crankMin
+  crankLimitStateMax: MechanismState | null; // Coupler & Rocker collinear at crankMax
+  hasTimeRatio: boolean; // True for a fully rotating crank driving the output between limits
+  crankAtExtended: number; // degrees [0, 360), crank angle at the extended (r2 + r3) output limit
+  crankAtFolded: number; // degrees [0, 360), crank angle at the folded |r2 - r3| output limit
+  forwardSweep: number; // degrees the crank turns CCW from the extended to the folded limit
+  returnSweep: number; // degrees the crank turns CCW from the folded back to the extended limit
+  timeRatio: number; // Q = slower stroke / quicker stroke (>= 1)
+  imbalanceAngle: number; // degrees, |forwardSweep - 180|
+}
+export interface MotionState {
+  omega2: number; // Crank angular velocity (rad/s)
+  alpha2: number; // Crank angular acceleration (rad/s^2)
+  omega3: number; // Coupler angular velocity (rad/s)
+  omega4: number; // Rocker angular velocity (rad/s)
+  alpha3: number; // Coupler angular acceleration (rad/s^2)
+  alpha4: number; // Rocker angular acceleration (rad/s^2)
+  vA: Point; // Velocity of joint A
+  vB: Point; // Velocity of joint B
+  aA: Point; // Acceleration of joint A
+  aB: Point; // Acceleration of joint B
+  vP: Point[]; // Velocities of the coupler points
+  aP: Point[]; // Accelerations of the coupler points
+  isValid: boolean; // False when unassembled or at a toggle (singular) position
+}
+
+export interface CycleSample {
+  theta2: number; // Input angle (rad), unwrapped so it increases monotonically across the sweep
+  state: MechanismState;
+  motion: MotionState; // Evaluated at omega2 = 1, so omega3/omega4 are velocity ratios
+}
+
+// Moving links whose swept area is traced; link5/link6 are a six-bar's second loop
+export type SweptLinkId = 'crank' | 'coupler' | 'output' | 'link5' | 'link6';
+
+export interface SweptLink {
+  link: SweptLinkId;
+  triangles: Point[][]; // World triangles, all counter-clockwise, whose union is the area the link passes over
+}
+
+export interface SweptEnvelope {
+  links: SweptLink[];
+  minX: number; // World bounding box of every link over the cycle (mm), NaN when nothing assembles
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export enum BranchEventType {
+  BRANCH_DEFECT = "Branch Defect", // Passed through a toggle position and switched branch
+  CIRCUIT_DEFECT = "Circuit Defect" // Had to be disassembled to reach the new position
+}
+
+export interface BranchEvent {
+  type: BranchEventType;
+  theta2: number; // Input angle (rad) at which the event was detected
+}
+
+export interface CircuitAnalysis {
+  circuits: number; // Distinct assembly circuits of the linkage
+  branchesPerCircuit: number; // Branches per circuit, separated by input toggle positions
+  toggleAngles: number[]; // Input angles (degrees) at which the output can switch branch
+}
+
+export interface CouplerPose {
+  position: Point; // Location of the coupler point P
+  angle: number; // Coupler orientation (rad)
+}
+
+export interface MotionSynthesisSpec {
+  poses: CouplerPose[]; // The three prescribed coupler poses
+  movingA: Point; // Moving pivot A in the coupler's local frame (origin at P, x along the pose angle)
+  movingB: Point; // Moving pivot B in the same local frame
+}
+
+export interface MotionSynthesisResult {
+  isValid: boolean;
+  error?: string; // Why no linkage could be built
+  warnings: string[]; // Defects that make the design unusable in practice
+  O2: Point; // Crank ground pivot
+  O4: Point; // Rocker ground pivot
+  pivotsA: Point[]; // Moving pivot A at each pose
+  pivotsB: Point[]; // Moving pivot B at each pose
+  config: MechanismConfig | null; // Synthesized linkage, with P as its only coupler point
+  theta2: number[]; // Crank angle (rad) at each pose
+}
+
+// Floating design tools that can be opened over the canvas
+export type ToolId = 'motion-synthesis' | 'function-synthesis' | 'design-space' | 'optimizer' | 'quick-return' | 'tolerance' | 'snapshots' | 'export';
+
+export interface FunctionSynthesisSpec {
+  functionId: string; // Key into TARGET_FUNCTIONS
+  xStart: number;
+  xEnd: number;
+  theta2Start: number; // Crank angle (rad) at xStart
+  theta2Range: number; // Crank rotation (rad) from xStart to xEnd
+  theta4Start: number; // Rocker angle (rad) at y(xStart)
+  theta4Range: number; // Rocker rotation (rad) from y(xStart) to y(xEnd)
+  r1: number; // Ground length; Freudenstein's equation only fixes the link ratios
+}
+
+export interface StructuralErrorSample {
+  x: number;
+  error: number; // Generated minus desired rocker angle (degrees)
+  yError: number; // The same error expressed in units of the function's output
+}
+
+export interface FunctionSynthesisResult {
+  isValid: boolean;
+  error?: string;
+  precisionX: number[]; // Chebyshev precision points
+  config: MechanismConfig | null;
+  theta2Start: number; // Crank angle (rad) from the ground line at xStart, after resolving negative link lengths
+  theta4Start: number; // Rocker angle (rad) from the ground line at y(xStart)
+  structuralError: StructuralErrorSample[];
+  maxError: number; // Largest |error| over the range (degrees); NaN if it fails to assemble somewhere
+}
+
+// Links are numbered 1 ground, 2 crank, 3 coupler, 4 output, so I13 is the coupler's center relative to ground
+export interface InstantCenter {
+  label: string; // "I12" ... "I34"
+  point: Point | null; // null when the center lies at infinity or is undetermined
+  direction: Point | null; // For a center at infinity: unit direction in which it lies (normal to a slide)
+  isPrimary: boolean; // Sits at a joint or slide; the others come from Kennedy's theorem
+  construction: string[]; // Labels of the four centers whose two lines meet here (empty for primary centers)
+}
+
+export interface Centrodes {
+  fixed: Point[][]; // Path of I13 in the ground frame, split wherever it runs off towards infinity
+  moving: CouplerPoint[][]; // Path of I13 in the coupler's frame (from A along AB), to be carried with the coupler
+}
+
+export interface ViewState {
+  pan: Point; // Screen position (px) of the world origin
+  zoom: number; // Screen pixels per mm
+}
+
+// Lengths are stored in mm throughout; the unit only changes how they are shown and entered
+export type LengthUnit = 'mm' | 'in';
+
+export interface UnitSettings {
+  length: LengthUnit;
+  scale: number; // Multiplies the length sliders' ranges and steps, for designs much smaller or larger than the defaults
+}
+
+export interface DesignDocument {
+  version: number; // Schema version, see DESIGN_SCHEMA_VERSION
+  config: MechanismConfig;
+  theta2: number; // Current crank angle (rad)
+  speed: number; // Animation speed (rad/s)
+  view: ViewState;
+  units?: UnitSettings; // Defaults to DEFAULT_UNITS
+}
+
+export interface DesignParseResult {
+  isValid: boolean;
+  document: DesignDocument | null;
+  errors: string[]; // One message per problem, prefixed with the offending field's path
+}
+
+export interface DesignMessage {
+  kind: 'error' | 'info';
+  lines: string[];
+}
+
+export type LoadTarget = 'rocker' | 'coupler';
+
+export interface ExternalLoad {
+  target: LoadTarget;
+  couplerPointIndex: number; // Application point when target is 'coupler'; the force acts at B on the rocker
+  force: Point; // World-frame force (N)
+  torque: number; // Pure moment on the loaded link (N·mm, CCW positive)
+}
+
+export interface PinForces {
+  O2: Point; // Ground on crank
+  A: Point; // Crank on coupler
+  B: Point; // Coupler on rocker
+  O4: Point; // Ground on rocker
+}
+
+export interface ForceAnalysis {
+  isValid: boolean;
+  error?: string;
+  pinForces: PinForces;
+  inputTorque: number; // Torque the driver applies to the crank (N·mm, CCW positive)
+}
+
+export interface LinkMassProperties {
+  mass: number; // kg
+  centroid: CouplerPoint; // Along / perpendicular to the link from its first joint (O2, A or O4)
+  inertia: number; // Moment of inertia about the centroid (kg·mm²)
+}
+
+export interface MassProperties {
+  crank: LinkMassProperties;
+  coupler: LinkMassProperties;
+  rocker: LinkMassProperties;
+}
+
+export interface DynamicState {
+  isValid: boolean;
+  error?: string;
+  pinForces: PinForces;
+  drivingTorque: number; // Torque the driver must supply to the crank (N·mm)
+  shakingForce: Point; // Net force the linkage exerts on the frame (N)
+  shakingMoment: number; // Net moment the linkage exerts on the frame about O2 (N·mm)
+}
+
+export interface DynamicsSample {
+  theta2: number; // Unwrapped, as in CycleSample
+  dynamics: DynamicState;
+}
+
+export interface DynamicsCycle {
+  samples: DynamicsSample[];
+  peakTorque: number; // Largest |driving torque|
+  rmsTorque: number;
+  meanTorque: number;
+  peakShakingForce: number; // Largest |shaking force|
+  peakShakingMoment: number; // Largest |shaking moment|
+}
+
+// Limit analysis without the ghost configurations, for headless reports
+export type LimitSummary = Omit<LimitAnalysis, 'limitStateMin' | 'limitStateMax' | 'crankLimitStateMin' | 'crankLimitStateMax'>;
+
+export interface SweepRow {
+  theta2: number; // degrees
+  isValid: boolean;
+  theta3: number; // degrees
+  theta4: number; // degrees
+  transmissionAngle: number; // degrees
+  sliderPosition: number; // mm along the guide; NaN for four-bars and unassembled positions
+  condition: PositionCondition;
+}
+
+export interface DesignReport {
+  name: string;
+  isValid: boolean; // False when the input could not be parsed into a MechanismConfig
+  errors: string[];
+  config: MechanismConfig | null;
+  grashofType: MechanismClass | null; // Named for the four-bar case; slider types report a SliderCrankType
+  specialGeometry: SpecialGeometry | null; // Change-point family, on the configured branch
+  limits: LimitSummary | null;
+  samples: number;
+  assembledSamples: number; // Sweep positions where the mechanism could be assembled
+  fullRotation: boolean; // Every sampled crank angle could be assembled
+  sweepTransmissionMin: number | null; // degrees, over the assembled samples
+  sweepTransmissionMax: number | null;
+  sweep?: SweepRow[];
+}
+
+export type RatioLink = 'r2' | 'r3' | 'r4'; // Link lengths varied as ratios to the ground r1
+
+export type DesignSpaceColoring = 'grashof' | 'transmission';
+
+export interface DesignSpaceSpec {
+  xLink: RatioLink;
+  yLink: RatioLink;
+  xRange: [number, number]; // Ratio to r1
+  yRange: [number, number];
+  resolution: number; // Cells per axis
+  coloring: DesignSpaceColoring;
+}
+
+export interface DesignSpaceCell {
+  xRatio: number; // Cell center
+  yRatio: number;
+  grashofType: GrashofType;
+  transmissionMin: number | null; // degrees; null when the linkage cannot be assembled
+}
+
+export interface DesignSpaceMap {
+  cells: DesignSpaceCell[][]; // Rows by increasing y ratio, columns by increasing x ratio
+  fixedLink: RatioLink; // The ratio held at the current design's value
+  fixedRatio: number;
+}
+
+export interface OptimizationSpec {
+  r1: number; // Fixed ground length
+  targetSwing: number; // Required rockerMax - rockerMin (degrees)
+  swingTolerance: number; // Allowed deviation from the target swing (degrees)
+  ratioMin: number; // Lower bound on r2/r1, r3/r1 and r4/r1
+  ratioMax: number; // Upper bound on the same ratios
+  populationSize: number;
+  generations: number;
+  seed: number;
+}
+
+export interface OptimizationStep {
+  generation: number;
+  bestTransmission: number | null; // μ-min of the best feasible design so far (degrees)
+  feasibleFraction: number; // Share of the population meeting every constraint
+}
+
+export interface OptimizationResult {
+  isValid: boolean;
+  error?: string;
+  config: MechanismConfig | null; // Best feasible design (ground along +x from the origin)
+  transmissionMin: number; // degrees
+  swing: number; // degrees
+  history: OptimizationStep[];
+  evaluations: number;
+}
+
+export interface QuickReturnSpec {
+  timeRatio: number; // Q >= 1
+  swing: number; // Rocker swing (degrees)
+  r4: number; // Rocker length; the design scales with it
+}
+
+export interface QuickReturnResult {
+  isValid: boolean;
+  error?: string;
+  config: MechanismConfig | null; // O2 at the origin, ground along +x
+  timeRatio: number; // Achieved Q, from calculateLimits
+  swing: number; // Achieved swing (degrees)
+  transmissionMin: number; // degrees
+  transmissionMax: number; // degrees
+}
+
+// Dimensions a tolerance analysis perturbs: link lengths and ground pivot coordinates
+export type ToleranceParameter = 'r1' | 'r2' | 'r3' | 'r4' | 'O2x' | 'O2y' | 'O4x' | 'O4y';
+
+// Results a tolerance analysis tracks
+export type ToleranceMetric = 'rockerMin' | 'rockerMax' | 'transmissionMin' | 'outputError';
+
+export interface ToleranceSpec {
+  linkTolerance: number; // ± mm on r1 (along the ground line), r2, r3 and r4
+  pivotTolerance: number; // ± mm on each coordinate of O2 and O4
+  distribution: 'uniform' | 'normal'; // Monte Carlo sampling; a normal tolerance is ±3σ
+  samples: number; // Monte Carlo trials
+  seed: number;
+  minTransmission: number; // degrees; trials with a lower μ-min are rejected
+}
+
+export interface ToleranceSpread {
+  nominal: number;
+  worstLow: number; // Worst-case stack-up: every parameter at the tolerance limit that lowers the metric
+  worstHigh: number;
+  mean: number; // Monte Carlo, over the trials that assemble
+  std: number;
+  min: number;
+  max: number;
+}
+
+export interface ToleranceResult {
+  isValid: boolean;
+  error?: string;
+  metrics: Record<ToleranceMetric, ToleranceSpread> | null; // NaN where the nominal design has no such value
+  // Change in each metric with the parameter moved from -tolerance to +tolerance, halved
+  sensitivities: { parameter: ToleranceParameter; effects: Record<ToleranceMetric, number> }[];
+  // Parameters that at one end of their tolerance stop the design assembling over its input range,
+  // or turn the rocker fully, so their effects and the worst-case stack are undefined
+  breaking: { parameter: ToleranceParameter; reason: 'assembly' | 'rocker-limits' }[];
+  trials: number;
+  assembledTrials: number; // Trials that assemble at every sampled crank angle of the nominal range
+  yield: number; // Share of trials that assemble and keep μ-min >= spec.minTransmission
+  transmissionSamples: number[]; // μ-min of each assembled trial (degrees), for the histogram
+}
+
+export interface ExportSpec {
+  width: number; // Output size in pixels
+  height: number;
+  fps: number;
+  frames: number; // Frames per crank cycle in animations
+  showCouplerCurves: boolean;
+  showLimitGhosts: boolean;
+}
+
+export type LinkKey = 'r1' | 'r2' | 'r3' | 'r4';
+
+// Relations held between link lengths while they are edited in the control panel
+export interface LinkConstraints {
+  locked: LinkKey[]; // Links no edit may change
+  ratio: { numerator: LinkKey; denominator: LinkKey; value: number } | null; // numerator / denominator held at value
+  grashofMargin: number | null; // (p + q) - (s + l) held at this value (mm); four-bars only
+}
+
+export interface LinkEditResult {
+  isValid: boolean;
+  error?: string;
+  config: MechanismConfig | null; // The edited config with every constraint re-established
+  adjusted: LinkKey[]; // Links other than the edited one that moved to hold a constraint
+}
+
+// Undo and redo stacks of config edits
+export interface ConfigHistory {
+  past: MechanismConfig[]; // Oldest first; undo restores the last
+  future: MechanismConfig[]; // Redo restores the first
+  lastEdit: number; // Time (ms) of the last continuous edit, which the next one may merge into
+}
+
+// A design pinned to compare with the one being edited
+export interface DesignSnapshot {
+  id: number;
+  name: string;
+  config: MechanismConfig;
+  color: string;
+  compare: boolean; // Drawn as a ghost on the canvas and diffed in the info panel
+}
+
+export interface SnapshotComparison {
+  snapshot: DesignSnapshot;
+  mechanismClass: MechanismClass;
+  limits: LimitAnalysis;
+}